@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiKeysController } from './api-keys.controller';
+import { ApiKeysService } from './api-keys.service';
+import { DbService } from '../db/db.service';
+
+describe('ApiKeysController', () => {
+  let controller: ApiKeysController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ApiKeysController],
+      providers: [
+        { provide: ApiKeysService, useValue: {} },
+        { provide: DbService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<ApiKeysController>(ApiKeysController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
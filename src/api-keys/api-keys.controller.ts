@@ -0,0 +1,43 @@
+import { Body, Controller, Delete, Get, Param, Post, Request, UseGuards } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto, CreateApiKeySchema } from './dto/api-key.dto';
+import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
+import { PassportJswAuthGuard } from '../common/guards/passport-jwt.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { SchoolRoles } from '../auth/decorators/school-roles.decorator';
+import { BlockImpersonation } from '../auth/decorators/block-impersonation.decorator';
+import { AuthUserDto } from '../user/dto/user.dto';
+
+@Controller('school/:schoolId/api-keys')
+@UseGuards(PassportJswAuthGuard, RolesGuard)
+@SchoolRoles({ members: ['OWNER', 'STAFF'] })
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) { }
+
+  @Post()
+  @BlockImpersonation()
+  create(
+    @Request() request: { user: AuthUserDto },
+    @Param('schoolId') schoolId: string,
+    @Body(new ZodValidationPipe(CreateApiKeySchema)) createApiKeyDto: CreateApiKeyDto,
+  ) {
+    return this.apiKeysService.create(schoolId, request.user.id, createApiKeyDto);
+  }
+
+  @Get()
+  findAll(@Param('schoolId') schoolId: string) {
+    return this.apiKeysService.findAll(schoolId);
+  }
+
+  @Post(':id/rotate')
+  @BlockImpersonation()
+  rotate(@Param('schoolId') schoolId: string, @Param('id') id: string) {
+    return this.apiKeysService.rotate(schoolId, id);
+  }
+
+  @Delete(':id')
+  @BlockImpersonation()
+  revoke(@Param('schoolId') schoolId: string, @Param('id') id: string) {
+    return this.apiKeysService.revoke(schoolId, id);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { DbModule } from '../db/db.module';
+
+@Module({
+  controllers: [ApiKeysController],
+  providers: [ApiKeysService],
+  imports: [DbModule]
+})
+export class ApiKeysModule { }
@@ -0,0 +1,60 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiKeysService } from './api-keys.service';
+import { DbService } from '../db/db.service';
+
+const KEY_ID = 'aaaaaaaaaaaaaaaaaaaaaaaa';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let db: { apiKey: { create: jest.Mock; findFirst: jest.Mock; update: jest.Mock } };
+
+  beforeEach(async () => {
+    db = {
+      apiKey: {
+        create: jest.fn(({ data }) => Promise.resolve({ id: KEY_ID, schoolId: data.schoolId, prefix: data.prefix, scopes: data.scopes })),
+        findFirst: jest.fn().mockResolvedValue({ id: KEY_ID }),
+        update: jest.fn(({ data }) => Promise.resolve({ id: KEY_ID, ...data })),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        { provide: DbService, useValue: db },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('returns the key once and stores only its hash', async () => {
+    const issued = await service.create('school-1', 'owner-1', { name: 'SIS', scopes: ['classes:read', 'classes:read'] });
+
+    const { data } = db.apiKey.create.mock.calls[0][0];
+    expect(issued.key).toMatch(new RegExp(`^st_${data.prefix}_`));
+    expect(data.keyHash).not.toContain(issued.key.split('_').pop());
+    expect(data.scopes).toEqual(['classes:read']);
+  });
+
+  it('only revokes active keys of the school', async () => {
+    await service.revoke('school-1', KEY_ID);
+    expect(db.apiKey.findFirst).toHaveBeenCalledWith({ where: { id: KEY_ID, schoolId: 'school-1', revokedAt: null }, select: { id: true } });
+    expect(db.apiKey.update).toHaveBeenCalledWith(expect.objectContaining({ data: { revokedAt: expect.any(Date) } }));
+
+    db.apiKey.findFirst.mockResolvedValue(null);
+    await expect(service.revoke('school-2', KEY_ID)).rejects.toThrow(NotFoundException);
+  });
+
+  it('replaces the secret when a key is rotated', async () => {
+    const rotated = await service.rotate('school-1', KEY_ID);
+
+    const { data } = db.apiKey.update.mock.calls[0][0];
+    expect(rotated.key).toMatch(new RegExp(`^st_${data.prefix}_`));
+    expect(data).toEqual({ prefix: expect.any(String), keyHash: expect.any(String), lastUsedAt: null });
+  });
+});
@@ -0,0 +1,92 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ApiKey } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import { generateApiKey } from '../common/utils/api-key.util';
+import { isObjectId } from '../common/utils/school-membership.util';
+import { CreateApiKeyDto } from './dto/api-key.dto';
+
+export type ApiKeySummary = Omit<ApiKey, 'keyHash'>;
+
+// The full key is only returned when it is created or rotated
+export type IssuedApiKey = ApiKeySummary & { key: string };
+
+const summarySelect = {
+  id: true,
+  schoolId: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  createdById: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+@Injectable()
+export class ApiKeysService {
+  constructor(private readonly dbService: DbService) { }
+
+  async create(schoolId: string, createdById: string, createApiKeyDto: CreateApiKeyDto): Promise<IssuedApiKey> {
+    const { key, prefix, keyHash } = await generateApiKey();
+    const apiKey = await this.dbService.apiKey.create({
+      data: {
+        schoolId,
+        createdById,
+        name: createApiKeyDto.name,
+        scopes: [...new Set(createApiKeyDto.scopes)],
+        expiresAt: createApiKeyDto.expiresAt,
+        prefix,
+        keyHash,
+      },
+      select: summarySelect,
+    });
+    return { ...apiKey, key };
+  }
+
+  /**
+   * Lists the school's keys, revoked ones included, newest first.
+   */
+  async findAll(schoolId: string): Promise<ApiKeySummary[]> {
+    return this.dbService.apiKey.findMany({
+      where: { schoolId },
+      orderBy: { createdAt: 'desc' },
+      select: summarySelect,
+    });
+  }
+
+  /**
+   * Replaces the secret of a key, keeping its name, scopes and expiry.
+   * The previous key stops working immediately.
+   */
+  async rotate(schoolId: string, id: string): Promise<IssuedApiKey> {
+    await this.findActive(schoolId, id);
+    const { key, prefix, keyHash } = await generateApiKey();
+    const apiKey = await this.dbService.apiKey.update({
+      where: { id },
+      data: { prefix, keyHash, lastUsedAt: null },
+      select: summarySelect,
+    });
+    return { ...apiKey, key };
+  }
+
+  async revoke(schoolId: string, id: string): Promise<ApiKeySummary> {
+    await this.findActive(schoolId, id);
+    return this.dbService.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      select: summarySelect,
+    });
+  }
+
+  private async findActive(schoolId: string, id: string) {
+    const apiKey = isObjectId(id)
+      ? await this.dbService.apiKey.findFirst({ where: { id, schoolId, revokedAt: null }, select: { id: true } })
+      : null;
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+    return apiKey;
+  }
+}
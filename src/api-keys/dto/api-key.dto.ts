@@ -0,0 +1,18 @@
+import * as z from "zod"
+import { API_KEY_SCOPES } from "../../auth/decorators/api-key-scopes.decorator"
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1, {
+    message: "Key name is required"
+  }).max(100, {
+    message: "Key name must be at most 100 characters"
+  }),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, {
+    message: "Select at least one scope"
+  }),
+  expiresAt: z.coerce.date().refine(date => date > new Date(), {
+    message: "Expiry date must be in the future"
+  }).optional(),
+})
+
+export type CreateApiKeyDto = z.infer<typeof CreateApiKeySchema>
@@ -13,6 +13,8 @@ import { JoinSchoolRequestModule } from './join-school-request/join-school-reque
 import { SchoolStaffModule } from './school-staff/school-staff.module';
 import { StudentsModule } from './students/students.module';
 import { TeachersModule } from './teachers/teachers.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { RosterImportModule } from './roster-import/roster-import.module';
 
 configureCloudinary();
 @Module({
@@ -27,7 +29,9 @@ configureCloudinary();
     JoinSchoolRequestModule,
     SchoolStaffModule,
     StudentsModule,
-    TeachersModule
+    TeachersModule,
+    ApiKeysModule,
+    RosterImportModule
   ],
   controllers: [AppController],
   providers: [AppService],
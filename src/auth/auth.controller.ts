@@ -1,35 +1,273 @@
 import { AuthUserDto, RegisterUserDto } from './../user/dto/user.dto';
-import { Controller, Get, Post, Body, HttpCode, HttpStatus, UseGuards, Request, Res, Req } from '@nestjs/common';
+import { Controller, Get, Post, Delete, Body, HttpCode, HttpStatus, UseGuards, Request, Res, Req, Param, Inject } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { LoginUserDto, LoginUserSchema, RegisterUserSchema } from 'src/user/dto/user.dto';
 import { ZodValidationPipe } from 'src/common/pipes/zod-validation.pipe';
 import { PassportJswAuthGuard } from 'src/common/guards/passport-jwt.guard';
 import { Public } from './decorators/public.decorator';
 import { GoogleAuthGuard } from './guards/google-auth/google-auth.guard';
+import { SwitchSchoolDto, SwitchSchoolSchema } from './dto/auth-payloads';
+import { RefreshTokenDto, RefreshTokenSchema } from './dto/refresh-token.dto';
+import { VerifyEmailDto, VerifyEmailSchema } from './dto/email-verification.dto';
+import { EmailVerificationService } from './email-verification.service';
+import { ForgotPasswordDto, ForgotPasswordSchema, ResetPasswordDto, ResetPasswordSchema } from './dto/password-reset.dto';
+import { PasswordResetService } from './password-reset.service';
+import { OAuthCodeExchangeDto, OAuthCodeExchangeSchema } from './dto/oauth.dto';
+import googleOauthConfig from './config/google-oauth.config';
+import { ConfigType } from '@nestjs/config';
+import { Response } from 'express';
+import { User } from 'generated/prisma';
+import { Client, ClientInfo } from './decorators/client-info.decorator';
+import { LoginProtectionService } from './login-protection.service';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { TwoFactorCodeDto, TwoFactorCodeSchema, TwoFactorLoginDto, TwoFactorLoginSchema } from './dto/two-factor.dto';
+import { TwoFactorService } from './two-factor.service';
+import { SessionService } from './session.service';
+import { ImpersonationService } from './impersonation.service';
+import { BlockImpersonation } from './decorators/block-impersonation.decorator';
+import { AllowTemporaryPassword } from './decorators/allow-temporary-password.decorator';
+import {
+  PasswordlessCodeDto,
+  PasswordlessCodeSchema,
+  PasswordlessLinkDto,
+  PasswordlessLinkSchema,
+  PasswordlessRequestDto,
+  PasswordlessRequestSchema,
+} from './dto/passwordless.dto';
+import { InvitationRegisterDto, InvitationRegisterSchema } from 'src/join-school-request/dto/school-invitation.dto';
 
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) { }
+  constructor(
+    private readonly authService: AuthService,
+    private readonly emailVerificationService: EmailVerificationService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly loginProtectionService: LoginProtectionService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly sessionService: SessionService,
+    private readonly impersonationService: ImpersonationService,
+    @Inject(googleOauthConfig.KEY)
+    private readonly googleConfiguration: ConfigType<typeof googleOauthConfig>,
+  ) { }
 
   @HttpCode(HttpStatus.OK)
   @Post('login')
-  login(@Body(new ZodValidationPipe(LoginUserSchema)) loginUserDto: LoginUserDto) {
-    return this.authService.authenticate(loginUserDto);
+  login(@Body(new ZodValidationPipe(LoginUserSchema)) loginUserDto: LoginUserDto, @Client() client: ClientInfo) {
+    return this.authService.authenticate(loginUserDto, client);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('login/2fa')
+  loginTwoFactor(@Body(new ZodValidationPipe(TwoFactorLoginSchema)) twoFactorLoginDto: TwoFactorLoginDto, @Client() client: ClientInfo) {
+    return this.authService.completeTwoFactorLogin(twoFactorLoginDto, client);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('passwordless/request')
+  requestPasswordlessLogin(@Body(new ZodValidationPipe(PasswordlessRequestSchema)) requestDto: PasswordlessRequestDto, @Client() client: ClientInfo) {
+    return this.authService.requestPasswordlessLogin(requestDto, client);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('passwordless/link')
+  loginWithMagicLink(@Body(new ZodValidationPipe(PasswordlessLinkSchema)) linkDto: PasswordlessLinkDto, @Client() client: ClientInfo) {
+    return this.authService.loginWithMagicLink(linkDto.token, client);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('passwordless/code')
+  loginWithCode(@Body(new ZodValidationPipe(PasswordlessCodeSchema)) codeDto: PasswordlessCodeDto, @Client() client: ClientInfo) {
+    return this.authService.loginWithCode(codeDto, client);
   }
 
   @HttpCode(HttpStatus.CREATED)
   @Post('register')
-  register(@Body(new ZodValidationPipe(RegisterUserSchema)) registerUserDto: RegisterUserDto) {
-    return this.authService.register(registerUserDto)
+  register(@Body(new ZodValidationPipe(RegisterUserSchema)) registerUserDto: RegisterUserDto, @Client() client: ClientInfo) {
+    return this.authService.register(registerUserDto, client)
+  }
+
+  @HttpCode(HttpStatus.CREATED)
+  @Post('register/invitation')
+  registerFromInvitation(
+    @Body(new ZodValidationPipe(InvitationRegisterSchema)) invitationRegisterDto: InvitationRegisterDto,
+    @Client() client: ClientInfo,
+  ) {
+    return this.authService.registerFromInvitation(invitationRegisterDto, client);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('verify-email')
+  verifyEmail(@Body(new ZodValidationPipe(VerifyEmailSchema)) verifyEmailDto: VerifyEmailDto) {
+    return this.emailVerificationService.verify(verifyEmailDto.token);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('resend-verification')
+  @BlockImpersonation()
+  @UseGuards(PassportJswAuthGuard)
+  resendVerification(@Request() request: { user: AuthUserDto }) {
+    return this.emailVerificationService.resend(request.user.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('forgot-password')
+  forgotPassword(@Body(new ZodValidationPipe(ForgotPasswordSchema)) forgotPasswordDto: ForgotPasswordDto) {
+    return this.passwordResetService.requestReset(forgotPasswordDto);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('reset-password')
+  resetPassword(@Body(new ZodValidationPipe(ResetPasswordSchema)) resetPasswordDto: ResetPasswordDto) {
+    return this.passwordResetService.resetPassword(resetPasswordDto);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('refresh')
+  refresh(@Body(new ZodValidationPipe(RefreshTokenSchema)) refreshTokenDto: RefreshTokenDto, @Client() client: ClientInfo) {
+    return this.authService.refresh(refreshTokenDto.refreshToken, client);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('logout')
+  logout(@Body(new ZodValidationPipe(RefreshTokenSchema)) refreshTokenDto: RefreshTokenDto) {
+    return this.authService.logout(refreshTokenDto.refreshToken);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('logout-all')
+  @BlockImpersonation()
+  @AllowTemporaryPassword()
+  @UseGuards(PassportJswAuthGuard)
+  logoutAll(@Request() request: { user: AuthUserDto }) {
+    return this.authService.logoutAll(request.user.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Get('sessions')
+  @UseGuards(PassportJswAuthGuard)
+  listSessions(@Request() request: { user: AuthUserDto }) {
+    return this.sessionService.list(request.user.id, request.user.sessionId);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Delete('sessions/:id')
+  @BlockImpersonation()
+  @UseGuards(PassportJswAuthGuard)
+  revokeSession(@Request() request: { user: AuthUserDto }, @Param('id') id: string) {
+    return this.sessionService.revokeForUser(request.user.id, id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('2fa/setup')
+  @BlockImpersonation()
+  @UseGuards(PassportJswAuthGuard)
+  setupTwoFactor(@Request() request: { user: AuthUserDto }) {
+    return this.twoFactorService.setup(request.user.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('2fa/confirm')
+  @BlockImpersonation()
+  @UseGuards(PassportJswAuthGuard)
+  confirmTwoFactor(
+    @Request() request: { user: AuthUserDto },
+    @Body(new ZodValidationPipe(TwoFactorCodeSchema)) twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.confirm(request.user.id, twoFactorCodeDto.code);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('2fa/disable')
+  @BlockImpersonation()
+  @UseGuards(PassportJswAuthGuard)
+  disableTwoFactor(
+    @Request() request: { user: AuthUserDto },
+    @Body(new ZodValidationPipe(TwoFactorCodeSchema)) twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.disable(request.user.id, twoFactorCodeDto.code);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('2fa/recovery-codes')
+  @BlockImpersonation()
+  @UseGuards(PassportJswAuthGuard)
+  regenerateRecoveryCodes(
+    @Request() request: { user: AuthUserDto },
+    @Body(new ZodValidationPipe(TwoFactorCodeSchema)) twoFactorCodeDto: TwoFactorCodeDto,
+  ) {
+    return this.twoFactorService.regenerateRecoveryCodes(request.user.id, twoFactorCodeDto.code);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('users/:userId/unlock')
+  @BlockImpersonation()
+  @UseGuards(PassportJswAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  unlockUser(@Param('userId') userId: string) {
+    return this.loginProtectionService.unlock(userId);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Delete('users/:userId/sessions')
+  @BlockImpersonation()
+  @UseGuards(PassportJswAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  revokeUserSessions(@Param('userId') userId: string) {
+    return this.authService.logoutAll(userId);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('impersonate/:userId')
+  @BlockImpersonation()
+  @UseGuards(PassportJswAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  impersonate(@Request() request: { user: AuthUserDto }, @Param('userId') userId: string, @Client() client: ClientInfo) {
+    return this.impersonationService.start(request.user.id, userId, client);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Get('users/:userId/impersonation-logs')
+  @UseGuards(PassportJswAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  getImpersonationLogs(@Param('userId') userId: string) {
+    return this.impersonationService.findLogs(userId);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Get('users/:userId/login-attempts')
+  @UseGuards(PassportJswAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  getLoginAttempts(@Param('userId') userId: string) {
+    return this.loginProtectionService.findAttempts(userId);
   }
 
   @HttpCode(HttpStatus.OK)
   @Get('me')
   @UseGuards(PassportJswAuthGuard)
+  @AllowTemporaryPassword()
   getUserInfo(@Request() request: { user: AuthUserDto }) {
     return request.user
   }
 
+  @HttpCode(HttpStatus.OK)
+  @Post('school/:schoolId/switch')
+  @UseGuards(PassportJswAuthGuard)
+  switchSchool(
+    @Request() request: { user: AuthUserDto },
+    @Param('schoolId') schoolId: string,
+    @Body(new ZodValidationPipe(SwitchSchoolSchema)) switchSchoolDto: SwitchSchoolDto,
+  ) {
+    return this.authService.switchSchool(request.user.id, schoolId, switchSchoolDto);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Get('schools')
+  @UseGuards(PassportJswAuthGuard)
+  listSchools(@Request() request: { user: AuthUserDto }) {
+    return this.authService.listSchools(request.user.id);
+  }
+
   @Public()
   @UseGuards(GoogleAuthGuard)
   @Get('google/login')
@@ -38,22 +276,16 @@ export class AuthController {
   @Public()
   @UseGuards(GoogleAuthGuard)
   @Get('google/callback')
-  googleCallback() { }
-
-  // @Public()
-  // @UseGuards(GoogleAuthGuard)
-  // @Get('google/callback')
-  // googleCallback(@Req() req, @Res() res) {
-  //   // You can customize the logic here as needed
-  //   // Example: redirect with token
-  //   this.authService.login(req.user.id).then((response) => {
-  //     res.redirect(`http://localhost:5173?token=${response.accessToken}`);
-  //   });
-  // }
-}
+  async googleCallback(@Req() req: { user: User }, @Res() res: Response) {
+    const code = await this.authService.createOAuthLoginCode(req.user.id, 'google');
+    const redirectUrl = new URL(this.googleConfiguration.frontendRedirectURL);
+    redirectUrl.searchParams.set('code', code);
+    res.redirect(redirectUrl.toString());
+  }
 
-// async googleCallback(
-//   @Req() req, @Res() res) {
-//   const response = await this.authService.login(req.user.id);
-//   res.redirect(`http://localhost:5173?token=${response.accessToken}`);
-// }
+  @HttpCode(HttpStatus.OK)
+  @Post('google/exchange')
+  exchangeGoogleCode(@Body(new ZodValidationPipe(OAuthCodeExchangeSchema)) exchangeDto: OAuthCodeExchangeDto, @Client() client: ClientInfo) {
+    return this.authService.exchangeOAuthLoginCode(exchangeDto.code, client);
+  }
+}
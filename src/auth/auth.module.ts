@@ -9,13 +9,31 @@ import { UserModule } from 'src/user/user.module';
 import { SchoolStaffModule } from 'src/school-staff/school-staff.module';
 import { SchoolStaffService } from 'src/school-staff/school-staff.service';
 import { DbModule } from 'src/db/db.module';
-import { SchoolService } from 'src/school/school.service';
 import { SchoolModule } from 'src/school/school.module';
 import { UploadService } from 'src/upload/upload.service';
 import { UploadModule } from 'src/upload/upload.module';
 import { ConfigModule } from '@nestjs/config';
 import googleOauthConfig from './config/google-oauth.config';
 import { GoogleStrategy } from './strategies/google.strategy';
+import tokenConfig from './config/token.config';
+import { RefreshTokenService } from './refresh-token.service';
+import { EmailVerificationService } from './email-verification.service';
+import { PasswordResetService } from './password-reset.service';
+import { OAuthLoginCodeService } from './oauth-login-code.service';
+import { LoginProtectionService } from './login-protection.service';
+import { TwoFactorService } from './two-factor.service';
+import { SessionService } from './session.service';
+import { ImpersonationService } from './impersonation.service';
+import { PasswordlessService } from './passwordless.service';
+import { PasswordPolicyService } from './password-policy.service';
+import passwordPolicyConfig from './config/password-policy.config';
+import { SmsModule } from 'src/sms/sms.module';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { ImpersonationInterceptor } from 'src/common/interceptors/impersonation.interceptor';
+import { TemporaryPasswordInterceptor } from 'src/common/interceptors/temporary-password.interceptor';
+import loginProtectionConfig from './config/login-protection.config';
+import { MailModule } from 'src/mail/mail.module';
+import { JoinSchoolRequestModule } from 'src/join-school-request/join-school-request.module';
 
 @Module({
   imports: [
@@ -24,24 +42,41 @@ import { GoogleStrategy } from './strategies/google.strategy';
     JwtModule.register({
       global: true,
       secret: process.env.SECRET_KEY,
-      signOptions: { expiresIn: '7d' }
+      signOptions: { expiresIn: process.env.ACCESS_TOKEN_TTL ?? '15m' }
     }),
     DbModule,
     SchoolStaffModule,
     SchoolModule,
     UploadModule,
-    ConfigModule.forFeature(googleOauthConfig)
+    MailModule,
+    SmsModule,
+    JoinSchoolRequestModule,
+    ConfigModule.forFeature(googleOauthConfig),
+    ConfigModule.forFeature(tokenConfig),
+    ConfigModule.forFeature(loginProtectionConfig),
+    ConfigModule.forFeature(passwordPolicyConfig)
   ],
   controllers: [AuthController],
   providers: [
     AuthService,
+    RefreshTokenService,
+    EmailVerificationService,
+    PasswordResetService,
+    OAuthLoginCodeService,
+    LoginProtectionService,
+    TwoFactorService,
+    SessionService,
+    ImpersonationService,
+    PasswordlessService,
+    PasswordPolicyService,
+    { provide: APP_INTERCEPTOR, useClass: ImpersonationInterceptor },
+    { provide: APP_INTERCEPTOR, useClass: TemporaryPasswordInterceptor },
     SchoolStaffService,
     UploadService,
-    SchoolService,
     LocalStrategy,
     JwtStrategy,
     GoogleStrategy
   ],
-  exports: [AuthService]
+  exports: [AuthService, SessionService, PasswordPolicyService, EmailVerificationService]
 })
 export class AuthModule { }
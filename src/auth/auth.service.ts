@@ -1,8 +1,4 @@
-import { SchoolService } from './../school/school.service';
-// Assuming FindByUserIdAndSchoolIdQuery is defined elsewhere if needed,
-// but the service method likely just needs IDs.
-// import { FindByUserIdAndSchoolIdQuery } from './../school-staff/dto/find-school-staff-by-userId-schoolId';
-import { SchoolAuthPayloadDto } from './dto/auth-payloads'; // Assuming schema validation is handled by pipes
+import { SchoolAuthPayloadDto, SchoolSessionDto, SwitchSchoolDto, SwitchSchoolSchema } from './dto/auth-payloads';
 import {
     Injectable,
     UnauthorizedException,
@@ -11,14 +7,31 @@ import {
     InternalServerErrorException, // Added for better error handling
     Logger,
     BadRequestException, // Added for logging issues
+    ForbiddenException,
+    NotFoundException,
 } from '@nestjs/common';
 import { AuthUserDto, LoginUserDto, RegisterUserDto, CreateUserDto } from 'src/user/dto/user.dto';
 import { verifyPassword } from 'src/common/utils/hash.util';
 import { JwtService } from '@nestjs/jwt';
 import { UserService } from './../user/user.service';
-import { User } from 'generated/prisma'; // Assuming this import is correct
-import { SchoolStaffService } from 'src/school-staff/school-staff.service';
-import { SchoolStaff, School } from 'generated/prisma'; // Assuming these types exist
+import { User, School } from 'generated/prisma'; // Assuming this import is correct
+import { DbService } from 'src/db/db.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { EmailVerificationService } from './email-verification.service';
+import { OAuthLoginCodeService } from './oauth-login-code.service';
+import { LoginProtectionService } from './login-protection.service';
+import { ClientInfo } from './decorators/client-info.decorator';
+import { TwoFactorService } from './two-factor.service';
+import { SessionService } from './session.service';
+import { PasswordlessService } from './passwordless.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordlessCodeDto, PasswordlessRequestDto } from './dto/passwordless.dto';
+import { TwoFactorChallengeDto, TwoFactorLoginDto, TwoFactorLoginSchema } from './dto/two-factor.dto';
+import { GoogleProfileDto, GoogleProfileSchema } from './dto/oauth.dto';
+import { generateUsername } from 'src/common/utils/characters.util';
+import { findSchoolMembership, findUserSchools, isObjectId, SchoolMembershipSummary } from 'src/common/utils/school-membership.util';
+import { SchoolInvitationService } from 'src/join-school-request/school-invitation.service';
+import { InvitationRegisterDto } from 'src/join-school-request/dto/school-invitation.dto';
 
 @Injectable()
 export class AuthService {
@@ -30,22 +43,76 @@ export class AuthService {
         @Inject(forwardRef(() => UserService))
         private readonly userService: UserService,
         private readonly jwtService: JwtService,
-        private readonly schoolStaffService: SchoolStaffService,
-        private readonly schoolService: SchoolService,
+        private readonly dbService: DbService,
+        private readonly refreshTokenService: RefreshTokenService,
+        private readonly emailVerificationService: EmailVerificationService,
+        private readonly oauthLoginCodeService: OAuthLoginCodeService,
+        private readonly loginProtectionService: LoginProtectionService,
+        private readonly twoFactorService: TwoFactorService,
+        private readonly sessionService: SessionService,
+        private readonly passwordlessService: PasswordlessService,
+        private readonly passwordPolicyService: PasswordPolicyService,
+        private readonly schoolInvitationService: SchoolInvitationService,
     ) { }
 
     /**
      * Authenticates a user based on login credentials.
      * Input validation should be handled by ValidationPipe at the controller level.
+     * Failed attempts are recorded and slow down or lock further attempts.
+     * Users with 2FA enabled get a challenge token to complete with `completeTwoFactorLogin`.
      */
-    async authenticate(input: LoginUserDto): Promise<AuthUserDto> {
-        // Validation using Zod schema is removed, assuming ValidationPipe is used in the controller
-        // e.g., @Post('login') login(@Body(new ValidationPipe()) loginUserDto: LoginUserDto) { ... }
-        const user = await this.validateUserCredentials(input.email, input.password);
-        if (!user) {
+    async authenticate(input: LoginUserDto, client: ClientInfo = {}): Promise<AuthUserDto | TwoFactorChallengeDto> {
+        await this.loginProtectionService.assertCanAttempt(input.email, client);
+
+        const user = await this.dbService.user.findUnique({ where: { email: input.email } });
+        const isPasswordValid = !!user?.password && await verifyPassword(input.password, user.password);
+        if (!user || !isPasswordValid) {
+            await this.loginProtectionService.recordFailure(input.email, client, 'invalid_credentials', user);
             throw new UnauthorizedException('Invalid email or password');
         }
-        return this.signIn(user);
+        if (!user.isActive) {
+            await this.loginProtectionService.recordFailure(input.email, client, 'inactive_account', user);
+            throw new UnauthorizedException('Account is not active');
+        }
+
+        return this.completeFirstFactor(user, client);
+    }
+
+    /**
+     * Sends a magic link or a one-time login code.
+     */
+    async requestPasswordlessLogin(input: PasswordlessRequestDto, client: ClientInfo): Promise<{ message: string }> {
+        return this.passwordlessService.request(input, client);
+    }
+
+    /**
+     * Signs in with a magic link.
+     */
+    async loginWithMagicLink(token: string, client: ClientInfo = {}): Promise<AuthUserDto | TwoFactorChallengeDto> {
+        const user = await this.passwordlessService.verifyLink(token);
+        return this.completeFirstFactor(user, client);
+    }
+
+    /**
+     * Signs in with a one-time login code.
+     */
+    async loginWithCode(input: PasswordlessCodeDto, client: ClientInfo = {}): Promise<AuthUserDto | TwoFactorChallengeDto> {
+        const user = await this.passwordlessService.verifyCode(input, client);
+        return this.completeFirstFactor(user, client);
+    }
+
+    /**
+     * Second login step for users with 2FA enabled.
+     */
+    async completeTwoFactorLogin(input: TwoFactorLoginDto, client: ClientInfo = {}): Promise<AuthUserDto> {
+        const validation = TwoFactorLoginSchema.safeParse(input);
+        if (!validation.success) {
+            throw new BadRequestException('Invalid two-factor login data provided');
+        }
+
+        const user = await this.twoFactorService.verifyChallenge(validation.data, client);
+        await this.loginProtectionService.recordSuccess(user, client);
+        return this.signIn(user, client);
     }
 
     /**
@@ -53,13 +120,10 @@ export class AuthService {
      * Separated credential validation from input format validation.
      */
     async validateUserCredentials(email: string, passwordInput: string): Promise<User | null> {
-        // Fetch only necessary fields for validation and token generation if possible
-        // Alternative if findOneByEmailWithSelect doesn't exist:
-        const user = await this.userService.findOne(undefined, email);
-
+        const user = await this.dbService.user.findUnique({ where: { email } });
 
-        if (!user?.password) {
-            // User not found or has no password set
+        if (!user?.password || !user.isActive) {
+            // User not found, has no password set or cannot sign in
             return null;
         }
 
@@ -68,14 +132,150 @@ export class AuthService {
             return null;
         }
 
-        return user; // Explicitly cast to the new type
+        return user;
+    }
+
+    /**
+     * Finds the user signing in with Google, creating one when needed.
+     * An existing account with the same email is linked to the Google account,
+     * which is only allowed when Google has verified that email.
+     */
+    async validateGoogleUser(profile: GoogleProfileDto): Promise<User> {
+        const validation = GoogleProfileSchema.safeParse(profile);
+        if (!validation.success) {
+            throw new BadRequestException('Google did not return a usable profile');
+        }
+        const { googleId, email, emailVerified, name, image } = validation.data;
+
+        const linkedUser = await this.dbService.user.findFirst({ where: { googleId } });
+        if (linkedUser) {
+            if (!linkedUser.isActive) throw new UnauthorizedException('Account is not active');
+            return linkedUser;
+        }
+
+        if (!emailVerified) {
+            throw new UnauthorizedException('Your Google email address is not verified');
+        }
+
+        const existingUser = await this.dbService.user.findUnique({ where: { email } });
+        if (existingUser) {
+            if (!existingUser.isActive) throw new UnauthorizedException('Account is not active');
+            if (existingUser.googleId && existingUser.googleId !== googleId) {
+                throw new UnauthorizedException('This account is linked to another Google account');
+            }
+            return this.dbService.user.update({
+                where: { id: existingUser.id },
+                data: {
+                    googleId,
+                    isEmailVerified: true,
+                    image: existingUser.image ?? image,
+                },
+            });
+        }
+
+        return this.dbService.user.create({
+            data: {
+                email,
+                googleId,
+                fullName: name,
+                username: generateUsername(name),
+                image,
+                isEmailVerified: true,
+            },
+        });
+    }
+
+    /**
+     * Creates the one-time code the frontend exchanges for tokens after an OAuth sign in.
+     */
+    async createOAuthLoginCode(userId: string, provider: string): Promise<string> {
+        return this.oauthLoginCodeService.issue(userId, provider);
+    }
+
+    /**
+     * Exchanges a one-time OAuth login code for access and refresh tokens.
+     */
+    async exchangeOAuthLoginCode(code: string, client: ClientInfo = {}): Promise<AuthUserDto | TwoFactorChallengeDto> {
+        const userId = await this.oauthLoginCodeService.consume(code);
+        const user = await this.dbService.user.findUnique({ where: { id: userId } });
+        if (!user || !user.isActive) {
+            throw new UnauthorizedException('Account is not active');
+        }
+        return this.completeFirstFactor(user, client);
+    }
+
+    /**
+     * Finishes a login once the first factor (password, OAuth or passwordless)
+     * succeeded: users with 2FA enabled get a challenge, others are signed in.
+     */
+    private async completeFirstFactor(user: User, client: ClientInfo): Promise<AuthUserDto | TwoFactorChallengeDto> {
+        if (user.twoFactorEnabled) {
+            return { twoFactorRequired: true, challengeToken: await this.twoFactorService.createChallenge(user) };
+        }
+        await this.loginProtectionService.recordSuccess(user, client);
+        return this.signIn(user, client);
     }
 
     /**
      * Creates the JWT payload and generates access tokens.
+     * Every sign in starts a new session with its own refresh token family.
      */
-    async signIn(user: User): Promise<AuthUserDto> {
-        const basePayload: Omit<AuthUserDto, 'accessToken' | 'schoolAccessToken'> = {
+    async signIn(user: User, client: ClientInfo = {}): Promise<AuthUserDto> {
+        const session = await this.sessionService.create(user.id, client);
+        const { token: refreshToken } = await this.refreshTokenService.issue(user.id, session.familyId);
+        return this.buildAuthResponse(user, refreshToken, session.id);
+    }
+
+    /**
+     * Rotates a refresh token and returns fresh access and refresh tokens.
+     */
+    async refresh(refreshToken: string, client: ClientInfo = {}): Promise<AuthUserDto> {
+        const rotated = await this.refreshTokenService.rotate(refreshToken);
+
+        const session = await this.sessionService.findByFamily(rotated.familyId);
+        if (!session || session.revokedAt) {
+            await this.refreshTokenService.revokeFamily(rotated.familyId);
+            throw new UnauthorizedException('Session has ended');
+        }
+
+        const user = await this.dbService.user.findUnique({ where: { id: rotated.userId } });
+        if (!user || !user.isActive) {
+            await this.sessionService.revokeByFamily(rotated.familyId);
+            throw new UnauthorizedException('Account is not active');
+        }
+
+        await this.sessionService.touch(session.id, client);
+        return this.buildAuthResponse(user, rotated.token, session.id);
+    }
+
+    /**
+     * Ends the session the refresh token belongs to.
+     */
+    async logout(refreshToken: string): Promise<{ message: string }> {
+        const familyId = await this.refreshTokenService.revoke(refreshToken);
+        if (familyId) {
+            await this.sessionService.revokeByFamily(familyId);
+        }
+        return { message: 'Logged out successfully' };
+    }
+
+    /**
+     * Ends every session of the user, including access tokens that have not expired yet.
+     */
+    async logoutAll(userId: string): Promise<{ message: string }> {
+        const user = isObjectId(userId)
+            ? await this.dbService.user.findUnique({ where: { id: userId }, select: { id: true } })
+            : null;
+        if (!user) {
+            throw new NotFoundException(`User with ID "${userId}" not found`);
+        }
+
+        await this.sessionService.revokeAllForUser(userId);
+        return { message: 'Logged out from all devices' };
+    }
+
+    private async buildAuthResponse(user: User, refreshToken: string, sessionId: string): Promise<AuthUserDto> {
+        const basePayload: Omit<AuthUserDto, 'accessToken' | 'refreshToken' | 'schoolAccessToken'> = {
             id: user.id,
             name: user.fullName,
             username: user.username,
@@ -83,6 +283,7 @@ export class AuthService {
             phone: user.phoneNumber ?? undefined,
             image: user.image ?? undefined,
             role: user.role === 'SCHOOL_ADMIN' ? 'ADMIN' : user.role ?? undefined,
+            sessionId,
         };
 
         const accessToken = await this.jwtService.signAsync(basePayload);
@@ -90,50 +291,97 @@ export class AuthService {
         const tokenResponse: AuthUserDto = {
             ...basePayload,
             accessToken,
+            refreshToken,
+            ...(user.mustChangePassword && { mustChangePassword: true }),
         };
 
         return tokenResponse;
     }
 
     /**
-     * Helper method to generate the school-specific access token.
-     * Optimization: Fetch SchoolStaff and related School in one go if possible.
+     * Issues a school-scoped token for a school the user belongs to as staff,
+     * teacher or student. When the user holds several entries in the same
+     * school, `input.as` picks one; otherwise staff wins over teacher over student.
      */
-    private async generateSchoolToken(userId: string, schoolId: string, user: User): Promise<string | null> {
-        // --- Optimization Point ---
-        // Modify findByUserIdAndSchoolId to potentially include school data directly
-        // using Prisma's `include` to reduce DB calls from 2 to 1.
-        // Example assuming SchoolStaffService method is updated:
-        /*
-        const schoolStaffWithSchool = await this.schoolStaffService.findStaffAndSchool(userId, schoolId);
-        if (!schoolStaffWithSchool || !schoolStaffWithSchool.school) {
-             return null; // Or throw an error if this data is critical
+    async switchSchool(userId: string, schoolId: string, input: SwitchSchoolDto = {}): Promise<SchoolSessionDto> {
+        const validation = SwitchSchoolSchema.safeParse(input);
+        if (!validation.success) {
+            throw new BadRequestException('Invalid school switch data provided');
+        }
+        if (!isObjectId(schoolId)) {
+            throw new BadRequestException('Invalid School ID format.');
+        }
+
+        const [user, school] = await Promise.all([
+            this.dbService.user.findUnique({ where: { id: userId } }),
+            this.dbService.school.findUnique({ where: { id: schoolId } }),
+        ]);
+        if (!user) throw new UnauthorizedException();
+        if (!school || !school.isActive) {
+            throw new NotFoundException(`School with ID "${schoolId}" not found`);
         }
-        const schoolStaff = schoolStaffWithSchool;
-        const school = schoolStaffWithSchool.school;
-        */
 
-        // Original approach (2 DB calls):
-        const schoolStaff = await this.schoolStaffService.findByUserIdAndSchoolId(userId, schoolId);
-        if (!schoolStaff) {
-            this.logger.debug(`SchoolStaff not found for userId: ${userId}, schoolId: ${schoolId}`);
-            return null; // Or throw?
+        const membership = await findSchoolMembership(this.dbService, userId, schoolId);
+        const kind = validation.data.as
+            ?? (['STAFF', 'TEACHER', 'STUDENT'] as const).find(candidate => membership.kinds.includes(candidate));
+        if (!kind || !membership.kinds.includes(kind)) {
+            throw new ForbiddenException(`You are not a member of ${school.name}`);
         }
+        if (kind === 'STAFF' && membership.requiresTwoFactor && !user.twoFactorEnabled) {
+            throw new ForbiddenException(`${school.name} requires two-factor authentication, enable it to continue`);
+        }
+
+        const schoolAccessToken = await this.generateSchoolToken(user, school, kind);
+        return {
+            schoolId: school.id,
+            schoolName: school.name,
+            schoolUsername: school.username,
+            schoolLogo: school.logo,
+            role: kind,
+            schoolAccessToken,
+        };
+    }
 
-        const school = await this.schoolService.findOne(schoolStaff.schoolId);
-        if (!school) {
-            this.logger.debug(`School not found for schoolId: ${schoolStaff.schoolId}`);
-            return null; // Or throw?
+    /**
+     * Lists every school the user can switch into.
+     */
+    async listSchools(userId: string): Promise<SchoolMembershipSummary[]> {
+        return findUserSchools(this.dbService, userId);
+    }
+
+    /**
+     * Builds and signs the school-scoped token. The subject is the id of the
+     * staff, teacher or student entry the user acts as.
+     */
+    private async generateSchoolToken(user: User, school: School, kind: 'STAFF' | 'TEACHER' | 'STUDENT'): Promise<string> {
+        const where = { userId: user.id, schoolId: school.id, isActive: true };
+        let entry: { id: string } | null;
+        let role: string;
+
+        if (kind === 'STAFF') {
+            const staff = await this.dbService.schoolStaff.findFirst({ where, orderBy: { joinedAt: 'asc' } });
+            entry = staff;
+            role = staff?.roleTitle ?? kind;
+        } else if (kind === 'TEACHER') {
+            entry = await this.dbService.teacher.findFirst({ where });
+            role = kind;
+        } else {
+            entry = await this.dbService.student.findFirst({ where });
+            role = kind;
         }
-        // --- End of DB Calls ---
 
+        if (!entry) {
+            this.logger.debug(`${kind} entry not found for userId: ${user.id}, schoolId: ${school.id}`);
+            throw new ForbiddenException(`You are not a member of ${school.name}`);
+        }
 
         const schoolPayload: SchoolAuthPayloadDto = {
-            sub: schoolStaff.id, // Use staff ID as subject for school context
-            schoolId: schoolStaff.schoolId,
-            name: user.fullName, // User's name
-            email: user.email, // User's email
-            role: schoolStaff.roleTitle, // Role within the school
+            sub: entry.id,
+            userId: user.id,
+            schoolId: school.id,
+            name: user.fullName,
+            email: user.email,
+            role,
             schoolDescription: school.description ?? undefined,
             schoolEmail: school.contact?.email,
             schoolName: school.name,
@@ -141,7 +389,6 @@ export class AuthService {
             schoolLogo: school.logo,
         };
 
-        // Use async version for consistency, though signing is often fast
         return this.jwtService.signAsync(schoolPayload);
     }
 
@@ -149,8 +396,9 @@ export class AuthService {
      * Registers a new user.
      * Input validation should be handled by ValidationPipe at the controller level.
      */
-    async register(input: RegisterUserDto): Promise<AuthUserDto> {
-        // Again, assume ValidationPipe handles input validation (like password complexity, email format)
+    async register(input: RegisterUserDto, client: ClientInfo = {}): Promise<AuthUserDto> {
+        // ValidationPipe checks the shape, the password policy checks the strength
+        await this.passwordPolicyService.assertValid(input.password, { email: input.email, fullName: input.name });
         const newUserInput: CreateUserDto = {
             email: input.email,
             name: input.name,
@@ -160,8 +408,13 @@ export class AuthService {
 
         try {
             const newUser = await this.userService.create(newUserInput);
+            // A failed email must not fail the registration, the user can ask for a new one
+            const sent = await this.emailVerificationService.sendVerificationEmail(newUser);
+            if (!sent) {
+                this.logger.warn(`Verification email could not be sent to ${newUser.email}`);
+            }
             // Sign in the newly created user
-            return this.signIn(newUser);
+            return this.signIn(newUser, client);
         } catch (error) {
             // Handle potential errors during user creation (e.g., unique constraint violation)
             this.logger.error(`User registration failed for email ${input.email}: ${error.message}`, error.stack);
@@ -174,5 +427,42 @@ export class AuthService {
         }
     }
 
+    /**
+     * Registers the person a school invited, with the email the invitation was
+     * sent to, and gives them the invited role before signing them in.
+     * People who already have an account log in and accept the invitation instead.
+     */
+    async registerFromInvitation(input: InvitationRegisterDto, client: ClientInfo = {}): Promise<AuthUserDto> {
+        const invitation = await this.schoolInvitationService.findPendingInvitation(input.token);
+        const existingUser = await this.dbService.user.findUnique({
+            where: { email: invitation.requesterEmail },
+            select: { id: true },
+        });
+        if (existingUser) {
+            throw new BadRequestException('An account already exists for this email, log in to accept the invitation');
+        }
+
+        const name = input.name ?? invitation.requesterName;
+        if (!name) {
+            throw new BadRequestException('Name is required');
+        }
+        await this.passwordPolicyService.assertValid(input.password, { email: invitation.requesterEmail, fullName: name });
+
+        const newUser = await this.userService.create({
+            email: invitation.requesterEmail,
+            name,
+            password: input.password,
+        });
+        try {
+            await this.schoolInvitationService.claim(input.token, newUser.id);
+        } catch (error) {
+            // Without the claim the account would exist outside the school, so it is removed
+            // and the invitee can register with the link again
+            await this.dbService.user.delete({ where: { id: newUser.id } });
+            throw error;
+        }
+        return this.signIn(newUser, client);
+    }
+
     
 }
\ No newline at end of file
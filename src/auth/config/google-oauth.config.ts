@@ -3,5 +3,7 @@ import { registerAs } from "@nestjs/config"
 export default registerAs("googleOAuth", () => ({
     clientID: process.env.GOOGLE_CLIENT_ID,
     clientSecret: process.env.GOOGLE_SECRET,
-    callbackURL: process.env.GOOGLE_CALLBACK_URL
-}))
\ No newline at end of file
+    callbackURL: process.env.GOOGLE_CALLBACK_URL,
+    // Frontend page that receives the one-time login code after Google sign in
+    frontendRedirectURL: process.env.GOOGLE_FRONTEND_REDIRECT_URL ?? `${process.env.FRONTEND_URL ?? 'http://localhost:4789'}/auth/google/callback`,
+}))
@@ -0,0 +1,14 @@
+import { registerAs } from "@nestjs/config"
+
+export default registerAs("loginProtection", () => ({
+    // Failed logins in a row before the account is locked
+    maxFailedAttempts: Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS ?? 5),
+    lockMinutes: Number(process.env.LOGIN_LOCK_MINUTES ?? 15),
+    maxLockMinutes: Number(process.env.LOGIN_MAX_LOCK_MINUTES ?? 24 * 60),
+    // Delay required between attempts, doubled on every failure
+    backoffBaseSeconds: Number(process.env.LOGIN_BACKOFF_BASE_SECONDS ?? 1),
+    backoffMaxSeconds: Number(process.env.LOGIN_BACKOFF_MAX_SECONDS ?? 60),
+    // Failed logins allowed from one IP address within the window
+    maxFailedAttemptsPerIp: Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP ?? 50),
+    ipWindowMinutes: Number(process.env.LOGIN_IP_WINDOW_MINUTES ?? 15),
+}))
@@ -0,0 +1,16 @@
+import { registerAs } from "@nestjs/config"
+
+const flag = (value: string | undefined, fallback: boolean) => value === undefined ? fallback : value === 'true'
+
+export default registerAs("passwordPolicy", () => ({
+    minLength: Number(process.env.PASSWORD_MIN_LENGTH ?? 8),
+    maxLength: Number(process.env.PASSWORD_MAX_LENGTH ?? 128),
+    requireLowercase: flag(process.env.PASSWORD_REQUIRE_LOWERCASE, true),
+    requireUppercase: flag(process.env.PASSWORD_REQUIRE_UPPERCASE, true),
+    requireDigit: flag(process.env.PASSWORD_REQUIRE_DIGIT, true),
+    requireSymbol: flag(process.env.PASSWORD_REQUIRE_SYMBOL, false),
+    // Number of most recent passwords, the current one included, that cannot be reused
+    historySize: Number(process.env.PASSWORD_HISTORY_SIZE ?? 5),
+    rejectPersonalInfo: flag(process.env.PASSWORD_REJECT_PERSONAL_INFO, true),
+    rejectCommon: flag(process.env.PASSWORD_REJECT_COMMON, true),
+}))
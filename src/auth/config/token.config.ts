@@ -0,0 +1,24 @@
+import { registerAs } from "@nestjs/config"
+
+export default registerAs("token", () => ({
+    refreshTokenTtlDays: Number(process.env.REFRESH_TOKEN_TTL_DAYS ?? 30),
+    emailVerificationSecret: process.env.EMAIL_VERIFICATION_SECRET ?? `${process.env.SECRET_KEY}:email-verification`,
+    emailVerificationTtl: process.env.EMAIL_VERIFICATION_TTL ?? '24h',
+    passwordResetTtlMinutes: Number(process.env.PASSWORD_RESET_TTL_MINUTES ?? 30),
+    oauthLoginCodeTtlSeconds: Number(process.env.OAUTH_LOGIN_CODE_TTL_SECONDS ?? 60),
+    twoFactorChallengeSecret: process.env.TWO_FACTOR_CHALLENGE_SECRET ?? `${process.env.SECRET_KEY}:two-factor-challenge`,
+    twoFactorChallengeTtl: process.env.TWO_FACTOR_CHALLENGE_TTL ?? '5m',
+    twoFactorEncryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY ?? `${process.env.SECRET_KEY}:two-factor-secret`,
+    twoFactorIssuer: process.env.TWO_FACTOR_ISSUER ?? 'Space Together',
+    impersonationTokenTtl: process.env.IMPERSONATION_TOKEN_TTL ?? '15m',
+    passwordlessLinkTtlMinutes: Number(process.env.PASSWORDLESS_LINK_TTL_MINUTES ?? 15),
+    passwordlessCodeTtlMinutes: Number(process.env.PASSWORDLESS_CODE_TTL_MINUTES ?? 10),
+    passwordlessMaxCodeAttempts: Number(process.env.PASSWORDLESS_MAX_CODE_ATTEMPTS ?? 5),
+    // At most `passwordlessMaxRequests` links or codes per email or username within the window
+    passwordlessMaxRequests: Number(process.env.PASSWORDLESS_MAX_REQUESTS ?? 5),
+    passwordlessMaxRequestsPerIp: Number(process.env.PASSWORDLESS_MAX_REQUESTS_PER_IP ?? 20),
+    passwordlessRequestWindowMinutes: Number(process.env.PASSWORDLESS_REQUEST_WINDOW_MINUTES ?? 15),
+    passwordlessResendSeconds: Number(process.env.PASSWORDLESS_RESEND_SECONDS ?? 60),
+    schoolInvitationSecret: process.env.SCHOOL_INVITATION_SECRET ?? `${process.env.SECRET_KEY}:school-invitation`,
+    schoolInvitationTtl: process.env.SCHOOL_INVITATION_TTL ?? '7d',
+}))
@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_TEMPORARY_PASSWORD_KEY = 'ALLOW_TEMPORARY_PASSWORD';
+
+/**
+ * Lets users who still have to replace a temporary password use the route,
+ * e.g. the password change itself. Every other authenticated route refuses them.
+ */
+export const AllowTemporaryPassword = () => SetMetadata(ALLOW_TEMPORARY_PASSWORD_KEY, true);
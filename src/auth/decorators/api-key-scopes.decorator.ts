@@ -0,0 +1,23 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const API_KEY_SCOPES_KEY = 'API_KEY_SCOPES';
+
+// What a school's API key can be granted, as "<resource>:<access>"
+export const API_KEY_SCOPES = [
+    'students:read',
+    'students:write',
+    'teachers:read',
+    'teachers:write',
+    'staff:read',
+    'staff:write',
+    'classes:read',
+    'classes:write',
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+/**
+ * Lets a route be called with an `X-Api-Key` header holding every listed
+ * scope. Routes without it only accept JWTs.
+ */
+export const ApiKeyScopes = (...scopes: ApiKeyScope[]) => SetMetadata(API_KEY_SCOPES_KEY, scopes);
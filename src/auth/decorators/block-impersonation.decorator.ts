@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const BLOCK_IMPERSONATION_KEY = 'BLOCK_IMPERSONATION';
+
+/**
+ * Refuses the route to admins impersonating a user, for sensitive actions
+ * such as changing credentials or security settings.
+ */
+export const BlockImpersonation = () => SetMetadata(BLOCK_IMPERSONATION_KEY, true);
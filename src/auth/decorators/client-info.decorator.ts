@@ -0,0 +1,17 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+export interface ClientInfo {
+    ipAddress?: string;
+    userAgent?: string;
+}
+
+/**
+ * Reads the caller's IP address and user agent from the request.
+ */
+export const Client = createParamDecorator((_data: unknown, context: ExecutionContext): ClientInfo => {
+    const request = context.switchToHttp().getRequest();
+    return {
+        ipAddress: request.ip ?? request.socket?.remoteAddress,
+        userAgent: request.headers?.['user-agent'],
+    };
+});
@@ -0,0 +1,5 @@
+import { SetMetadata } from '@nestjs/common';
+import { UserRole } from 'generated/prisma';
+
+export const ROLES_KEY = 'ROLES';
+export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,24 @@
+import { SetMetadata } from '@nestjs/common';
+import { SchoolMemberKind } from '../../common/utils/school-membership.util';
+
+export const SCHOOL_ROLES_KEY = 'SCHOOL_ROLES';
+
+// Records that can be traced back to the school that owns them
+export type SchoolScopedResource = 'school' | 'class' | 'module' | 'student' | 'teacher' | 'schoolStaff' | 'schoolJoinRequest';
+
+export interface SchoolRolesOptions {
+    // Which kinds of membership in the target school are allowed through
+    members: SchoolMemberKind[];
+    // When set, STAFF members must also hold one of these role titles
+    staffRoles?: string[];
+    // Where the id in the request points to, defaults to 'school'
+    resource?: SchoolScopedResource;
+    // Route param, query or body key holding the id, defaults to 'schoolId' for schools and 'id' otherwise
+    param?: string;
+    // Let the request through when no id is sent (e.g. classes created outside a school)
+    optional?: boolean;
+    // Another record of the request that must belong to the same school, e.g. the class a module is moved to
+    sameSchoolAs?: { resource: SchoolScopedResource; param: string };
+}
+
+export const SchoolRoles = (options: SchoolRolesOptions) => SetMetadata(SCHOOL_ROLES_KEY, options);
@@ -1,7 +1,8 @@
 import * as z from "zod"
 
 export const SchoolAuthPayloadSchema = z.object({
-    sub: z.string().min(1), // Subject: the user ID
+    sub: z.string().min(1), // Subject: the id of the staff, teacher or student entry
+    userId: z.string().min(1),
     schoolId: z.string().min(1),
     schoolName : z.string().optional().nullable(),
     schoolUsername : z.string().optional().nullable(),
@@ -14,4 +15,22 @@ export const SchoolAuthPayloadSchema = z.object({
     role : z.string(),
 })
 
-export type SchoolAuthPayloadDto = z.infer<typeof SchoolAuthPayloadSchema>
\ No newline at end of file
+export type SchoolAuthPayloadDto = z.infer<typeof SchoolAuthPayloadSchema>
+
+export const SchoolMemberKindEnum = z.enum(["STAFF", "TEACHER", "STUDENT"])
+
+export const SwitchSchoolSchema = z.object({
+    // Which membership to act as when the user holds several in the same school
+    as: SchoolMemberKindEnum.optional(),
+})
+
+export type SwitchSchoolDto = z.infer<typeof SwitchSchoolSchema>
+
+export type SchoolSessionDto = {
+    schoolId: string
+    schoolName: string
+    schoolUsername: string
+    schoolLogo?: string | null
+    role: z.infer<typeof SchoolMemberKindEnum>
+    schoolAccessToken: string
+}
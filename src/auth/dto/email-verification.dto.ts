@@ -0,0 +1,9 @@
+import * as z from "zod"
+
+export const VerifyEmailSchema = z.object({
+    token: z.string().min(1, {
+        message: "Verification token is required"
+    })
+})
+
+export type VerifyEmailDto = z.infer<typeof VerifyEmailSchema>
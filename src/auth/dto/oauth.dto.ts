@@ -0,0 +1,19 @@
+import * as z from "zod"
+
+export const GoogleProfileSchema = z.object({
+    googleId: z.string().min(1),
+    email: z.string().email(),
+    emailVerified: z.boolean(),
+    name: z.string().min(1),
+    image: z.string().url().optional(),
+})
+
+export type GoogleProfileDto = z.infer<typeof GoogleProfileSchema>
+
+export const OAuthCodeExchangeSchema = z.object({
+    code: z.string().min(1, {
+        message: "Login code is required"
+    })
+})
+
+export type OAuthCodeExchangeDto = z.infer<typeof OAuthCodeExchangeSchema>
@@ -0,0 +1,18 @@
+import * as z from "zod"
+
+export const ForgotPasswordSchema = z.object({
+    email: z.string().email()
+})
+
+export type ForgotPasswordDto = z.infer<typeof ForgotPasswordSchema>
+
+export const ResetPasswordSchema = z.object({
+    token: z.string().min(1, {
+        message: "Reset token is required"
+    }),
+    password: z.string().min(8, {
+        message: "Minimum 8 characters"
+    })
+})
+
+export type ResetPasswordDto = z.infer<typeof ResetPasswordSchema>
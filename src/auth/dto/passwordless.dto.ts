@@ -0,0 +1,33 @@
+import * as z from "zod"
+
+// Email address or username, a phone number alone is not enough since students share phones
+const IdentifierSchema = z.string().trim().min(1, {
+    message: "Email or username is required"
+})
+
+export const PasswordlessRequestSchema = z.object({
+    identifier: IdentifierSchema,
+    method: z.enum(["link", "code"]).default("link"),
+    channel: z.enum(["email", "sms"]).default("email"),
+}).refine(data => data.method === "code" || data.channel === "email", {
+    message: "Magic links can only be sent by email",
+})
+
+export type PasswordlessRequestDto = z.input<typeof PasswordlessRequestSchema>
+
+export const PasswordlessLinkSchema = z.object({
+    token: z.string().min(1, {
+        message: "Login token is required"
+    })
+})
+
+export type PasswordlessLinkDto = z.infer<typeof PasswordlessLinkSchema>
+
+export const PasswordlessCodeSchema = z.object({
+    identifier: IdentifierSchema,
+    code: z.string().regex(/^\d{6}$/, {
+        message: "Code must be 6 digits"
+    })
+})
+
+export type PasswordlessCodeDto = z.infer<typeof PasswordlessCodeSchema>
@@ -0,0 +1,9 @@
+import * as z from "zod"
+
+export const RefreshTokenSchema = z.object({
+    refreshToken: z.string().min(1, {
+        message: "Refresh token is required"
+    })
+})
+
+export type RefreshTokenDto = z.infer<typeof RefreshTokenSchema>
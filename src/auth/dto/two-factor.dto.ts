@@ -0,0 +1,33 @@
+import * as z from "zod"
+
+export const TwoFactorCodeSchema = z.object({
+    code: z.string().regex(/^\d{6}$/, {
+        message: "Code must be 6 digits"
+    })
+})
+
+export type TwoFactorCodeDto = z.infer<typeof TwoFactorCodeSchema>
+
+export const TwoFactorLoginSchema = z.object({
+    challengeToken: z.string().min(1, {
+        message: "Challenge token is required"
+    }),
+    code: z.string().regex(/^\d{6}$/, {
+        message: "Code must be 6 digits"
+    }).optional(),
+    recoveryCode: z.string().min(1).optional(),
+}).refine(data => !!data.code !== !!data.recoveryCode, {
+    message: "Provide either an authentication code or a recovery code",
+})
+
+export type TwoFactorLoginDto = z.infer<typeof TwoFactorLoginSchema>
+
+export type TwoFactorChallengeDto = {
+    twoFactorRequired: true;
+    challengeToken: string;
+}
+
+export type TwoFactorSetupDto = {
+    secret: string;
+    otpauthUrl: string;
+}
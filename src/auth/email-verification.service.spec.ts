@@ -0,0 +1,84 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { EmailVerificationService } from './email-verification.service';
+import { DbService } from '../db/db.service';
+import { MailService } from '../mail/mail.service';
+import tokenConfig from './config/token.config';
+
+const SECRET = 'secret';
+
+describe('EmailVerificationService', () => {
+  let service: EmailVerificationService;
+  let jwtService: JwtService;
+  let db: { user: { findUnique: jest.Mock; update: jest.Mock } };
+  let mailService: { buildAppUrl: jest.Mock; send: jest.Mock };
+
+  const user = { id: 'user-1', email: 'jane@example.com', fullName: 'Jane Doe', isEmailVerified: false };
+  const sign = (payload: Record<string, unknown>, expiresIn: number | string = '24h') =>
+    jwtService.signAsync(payload, { secret: SECRET, expiresIn });
+
+  beforeEach(async () => {
+    jwtService = new JwtService({});
+    db = { user: { findUnique: jest.fn(), update: jest.fn() } };
+    mailService = {
+      buildAppUrl: jest.fn((path: string, query: { token: string }) => `https://app.test${path}?token=${query.token}`),
+      send: jest.fn().mockResolvedValue(true),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailVerificationService,
+        { provide: DbService, useValue: db },
+        { provide: JwtService, useValue: jwtService },
+        { provide: MailService, useValue: mailService },
+        { provide: tokenConfig.KEY, useValue: { emailVerificationSecret: SECRET, emailVerificationTtl: '24h' } },
+      ],
+    }).compile();
+
+    service = module.get<EmailVerificationService>(EmailVerificationService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('verifies the email with the token that was emailed', async () => {
+    await service.sendVerificationEmail(user);
+    const token = mailService.buildAppUrl.mock.calls[0][1].token;
+    db.user.findUnique.mockResolvedValue(user);
+
+    await expect(service.verify(token)).resolves.toEqual({ message: 'Email verified successfully' });
+    expect(db.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { isEmailVerified: true } });
+  });
+
+  it('writes nothing when the token is used again', async () => {
+    const token = await sign({ sub: 'user-1', email: 'jane@example.com', purpose: 'email-verification' });
+    db.user.findUnique.mockResolvedValue({ ...user, isEmailVerified: true });
+
+    await service.verify(token);
+
+    expect(db.user.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects an expired token', async () => {
+    const token = await sign({ sub: 'user-1', email: 'jane@example.com', purpose: 'email-verification' }, -60);
+
+    await expect(service.verify(token)).rejects.toThrow(BadRequestException);
+    expect(db.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('rejects a token issued for an email the user no longer has', async () => {
+    const token = await sign({ sub: 'user-1', email: 'old@example.com', purpose: 'email-verification' });
+    db.user.findUnique.mockResolvedValue(user);
+
+    await expect(service.verify(token)).rejects.toThrow('Invalid or expired verification link');
+    expect(db.user.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects a token signed for another purpose', async () => {
+    const token = await sign({ sub: 'user-1', email: 'jane@example.com', purpose: 'password-reset' });
+
+    await expect(service.verify(token)).rejects.toThrow(BadRequestException);
+  });
+});
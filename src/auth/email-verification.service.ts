@@ -0,0 +1,94 @@
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { User } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import { MailService } from '../mail/mail.service';
+import { escapeHtml } from '../common/utils/html.util';
+import tokenConfig from './config/token.config';
+
+const EMAIL_VERIFICATION_PURPOSE = 'email-verification';
+
+interface EmailVerificationPayload {
+    sub: string;
+    email: string;
+    purpose: typeof EMAIL_VERIFICATION_PURPOSE;
+}
+
+@Injectable()
+export class EmailVerificationService {
+    constructor(
+        private readonly dbService: DbService,
+        private readonly jwtService: JwtService,
+        private readonly mailService: MailService,
+        @Inject(tokenConfig.KEY)
+        private readonly tokenConfiguration: ConfigType<typeof tokenConfig>,
+    ) { }
+
+    /**
+     * Emails the user a link to verify their address.
+     * The token carries the email it was issued for, so it stops working once the email changes.
+     */
+    async sendVerificationEmail(user: Pick<User, 'id' | 'email' | 'fullName'>): Promise<boolean> {
+        const payload: EmailVerificationPayload = {
+            sub: user.id,
+            email: user.email,
+            purpose: EMAIL_VERIFICATION_PURPOSE,
+        };
+        const token = await this.jwtService.signAsync(payload, {
+            secret: this.tokenConfiguration.emailVerificationSecret,
+            expiresIn: this.tokenConfiguration.emailVerificationTtl,
+        });
+        const link = this.mailService.buildAppUrl('/auth/verify-email', { token });
+
+        return this.mailService.send({
+            to: user.email,
+            subject: 'Verify your email address',
+            text: `Hello ${user.fullName},\n\nConfirm your email address by opening the link below:\n${link}\n\nIf you did not create a Space Together account, you can ignore this email.`,
+            html: `<p>Hello ${escapeHtml(user.fullName)},</p><p>Confirm your email address by opening the link below:</p><p><a href="${link}">Verify my email</a></p><p>If you did not create a Space Together account, you can ignore this email.</p>`,
+        });
+    }
+
+    /**
+     * Sends a new verification email to a user that is not verified yet.
+     */
+    async resend(userId: string): Promise<{ message: string }> {
+        const user = await this.dbService.user.findUnique({ where: { id: userId } });
+        if (!user) throw new NotFoundException('User not found');
+        if (user.isEmailVerified) throw new BadRequestException('Email is already verified');
+
+        const sent = await this.sendVerificationEmail(user);
+        if (!sent) throw new BadRequestException('Could not send the verification email, try again later');
+        return { message: 'Verification email sent' };
+    }
+
+    /**
+     * Marks the email of the token's user as verified.
+     */
+    async verify(token: string): Promise<{ message: string }> {
+        let payload: EmailVerificationPayload;
+        try {
+            payload = await this.jwtService.verifyAsync<EmailVerificationPayload>(token, {
+                secret: this.tokenConfiguration.emailVerificationSecret,
+            });
+        } catch {
+            throw new BadRequestException('Invalid or expired verification link');
+        }
+        if (payload.purpose !== EMAIL_VERIFICATION_PURPOSE) {
+            throw new BadRequestException('Invalid or expired verification link');
+        }
+
+        const user = await this.dbService.user.findUnique({ where: { id: payload.sub } });
+        if (!user || user.email !== payload.email) {
+            throw new BadRequestException('Invalid or expired verification link');
+        }
+
+        if (!user.isEmailVerified) {
+            await this.dbService.user.update({
+                where: { id: user.id },
+                data: { isEmailVerified: true },
+            });
+        }
+        return { message: 'Email verified successfully' };
+    }
+}
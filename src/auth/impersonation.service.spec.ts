@@ -0,0 +1,83 @@
+import { BadRequestException, ForbiddenException, Logger } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { ImpersonationService } from './impersonation.service';
+import { DbService } from '../db/db.service';
+import tokenConfig from './config/token.config';
+
+const ADMIN_ID = 'aaaaaaaaaaaaaaaaaaaaaaaa';
+const TARGET_ID = 'bbbbbbbbbbbbbbbbbbbbbbbb';
+
+describe('ImpersonationService', () => {
+  let service: ImpersonationService;
+  let jwtService: JwtService;
+  let db: { user: { findUnique: jest.Mock }; impersonationAuditLog: { create: jest.Mock } };
+
+  const target = {
+    id: TARGET_ID,
+    fullName: 'Teacher One',
+    username: 'teacher-one',
+    email: 'teacher@example.com',
+    phoneNumber: null,
+    image: null,
+    role: 'TEACHER',
+    isActive: true,
+  };
+
+  beforeEach(async () => {
+    db = {
+      user: { findUnique: jest.fn().mockResolvedValue(target) },
+      impersonationAuditLog: { create: jest.fn() },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImpersonationService,
+        { provide: DbService, useValue: db },
+        { provide: JwtService, useValue: new JwtService({ secret: 'test-secret' }) },
+        { provide: tokenConfig.KEY, useValue: { impersonationTokenTtl: '15m' } },
+      ],
+    }).compile();
+
+    service = module.get<ImpersonationService>(ImpersonationService);
+    jwtService = module.get<JwtService>(JwtService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('issues a short-lived token marked with the admin and records the start', async () => {
+    const started = await service.start(ADMIN_ID, TARGET_ID, { ipAddress: '203.0.113.7' });
+
+    expect(started).toEqual(expect.objectContaining({ id: TARGET_ID, impersonatedBy: ADMIN_ID, expiresIn: '15m' }));
+    expect(started).not.toHaveProperty('refreshToken');
+    const payload = jwtService.verify(started.accessToken!);
+    expect(payload).toEqual(expect.objectContaining({ id: TARGET_ID, impersonatedBy: ADMIN_ID }));
+    expect(payload.exp - payload.iat).toBe(15 * 60);
+    expect(db.impersonationAuditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ adminId: ADMIN_ID, targetUserId: TARGET_ID, action: 'start', ipAddress: '203.0.113.7' }),
+    });
+  });
+
+  it('refuses to impersonate admins, inactive accounts and oneself', async () => {
+    db.user.findUnique.mockResolvedValueOnce({ ...target, role: 'ADMIN' });
+    await expect(service.start(ADMIN_ID, TARGET_ID)).rejects.toThrow(ForbiddenException);
+
+    db.user.findUnique.mockResolvedValueOnce({ ...target, isActive: false });
+    await expect(service.start(ADMIN_ID, TARGET_ID)).rejects.toThrow(BadRequestException);
+
+    await expect(service.start(ADMIN_ID, ADMIN_ID)).rejects.toThrow('You cannot impersonate yourself');
+    expect(db.impersonationAuditLog.create).not.toHaveBeenCalled();
+  });
+
+  it('does not fail the request when the audit entry cannot be written', async () => {
+    db.impersonationAuditLog.create.mockRejectedValue(new Error('database unavailable'));
+    const logError = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+
+    await expect(service.record({
+      adminId: ADMIN_ID, targetUserId: TARGET_ID, action: 'request', method: 'GET', path: '/user/me',
+    })).resolves.toBeUndefined();
+    expect(logError).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,106 @@
+import { BadRequestException, ForbiddenException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { ImpersonationAuditLog } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import { isObjectId } from '../common/utils/school-membership.util';
+import { AuthUserDto } from '../user/dto/user.dto';
+import tokenConfig from './config/token.config';
+import { ClientInfo } from './decorators/client-info.decorator';
+
+export interface ImpersonationAuditEntry {
+    adminId: string;
+    targetUserId: string;
+    action: 'start' | 'request';
+    method: string;
+    path: string;
+    statusCode?: number;
+}
+
+@Injectable()
+export class ImpersonationService {
+    private readonly logger = new Logger(ImpersonationService.name);
+
+    constructor(
+        private readonly dbService: DbService,
+        private readonly jwtService: JwtService,
+        @Inject(tokenConfig.KEY)
+        private readonly tokenConfiguration: ConfigType<typeof tokenConfig>,
+    ) { }
+
+    /**
+     * Issues a short-lived access token for the target user, marked with the
+     * admin's id. No refresh token is issued, the admin starts over once it expires.
+     */
+    async start(adminId: string, targetUserId: string, client: ClientInfo = {}): Promise<AuthUserDto & { expiresIn: string }> {
+        if (!isObjectId(targetUserId)) {
+            throw new BadRequestException('Invalid User ID format.');
+        }
+        if (adminId === targetUserId) {
+            throw new BadRequestException('You cannot impersonate yourself');
+        }
+
+        const target = await this.dbService.user.findUnique({ where: { id: targetUserId } });
+        if (!target) {
+            throw new NotFoundException(`User with ID "${targetUserId}" not found`);
+        }
+        if (!target.isActive) {
+            throw new BadRequestException('Inactive accounts cannot be impersonated');
+        }
+        if (target.role === 'ADMIN') {
+            throw new ForbiddenException('Platform admins cannot be impersonated');
+        }
+
+        const payload: AuthUserDto = {
+            id: target.id,
+            name: target.fullName,
+            username: target.username,
+            email: target.email,
+            phone: target.phoneNumber ?? undefined,
+            image: target.image ?? undefined,
+            role: target.role === 'SCHOOL_ADMIN' ? 'ADMIN' : target.role ?? undefined,
+            impersonatedBy: adminId,
+        };
+        const accessToken = await this.jwtService.signAsync(payload, {
+            expiresIn: this.tokenConfiguration.impersonationTokenTtl,
+        });
+
+        await this.record({
+            adminId,
+            targetUserId: target.id,
+            action: 'start',
+            method: 'POST',
+            path: `/auth/impersonate/${target.id}`,
+            statusCode: 200,
+        }, client);
+
+        return { ...payload, accessToken, expiresIn: this.tokenConfiguration.impersonationTokenTtl };
+    }
+
+    /**
+     * Writes an audit entry. Failures are logged so they never break the request itself.
+     */
+    async record(entry: ImpersonationAuditEntry, client: ClientInfo = {}): Promise<void> {
+        try {
+            await this.dbService.impersonationAuditLog.create({
+                data: { ...entry, ipAddress: client.ipAddress, userAgent: client.userAgent },
+            });
+        } catch (error) {
+            this.logger.error(`Failed to record impersonation audit entry: ${error.message}`, error.stack);
+        }
+    }
+
+    /**
+     * Lists the audit entries where the user was either the admin or the target, most recent first.
+     */
+    async findLogs(userId: string, take = 100): Promise<ImpersonationAuditLog[]> {
+        if (!isObjectId(userId)) {
+            throw new BadRequestException('Invalid User ID format.');
+        }
+        return this.dbService.impersonationAuditLog.findMany({
+            where: { OR: [{ adminId: userId }, { targetUserId: userId }] },
+            orderBy: { createdAt: 'desc' },
+            take,
+        });
+    }
+}
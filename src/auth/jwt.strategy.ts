@@ -1,25 +1,58 @@
-import { Injectable } from "@nestjs/common";
+import { Injectable, UnauthorizedException } from "@nestjs/common";
+import { Request } from "express";
 import { PassportStrategy } from "@nestjs/passport";
 import { Strategy ,ExtractJwt} from "passport-jwt";
 import { AuthUserDto } from "src/user/dto/user.dto";
+import { DbService } from "src/db/db.service";
+import { SessionService } from "./session.service";
 
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-    constructor() {
+    constructor(
+        private readonly dbService: DbService,
+        private readonly sessionService: SessionService,
+    ) {
         super({
             jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
             ignoreExpiration: false,
             secretOrKey: process.env.SECRET_KEY,
+            passReqToCallback: true,
         })
     }
 
-    async validate(payload: AuthUserDto) {
+    async validate(request: Request, payload: AuthUserDto & { iat?: number }) {
+        // Reject tokens of deactivated accounts and tokens issued before a logout from all devices
+        const user = await this.dbService.user.findUnique({
+            where: { id: payload.id },
+            select: { isActive: true, sessionsRevokedAt: true, mustChangePassword: true },
+        });
+        if (!user || !user.isActive) throw new UnauthorizedException();
+        if (user.sessionsRevokedAt && (payload.iat ?? 0) < Math.floor(user.sessionsRevokedAt.getTime() / 1000)) {
+            throw new UnauthorizedException();
+        }
+        // Impersonation tokens stay valid only while the admin who issued them still is one
+        if (payload.impersonatedBy) {
+            const admin = await this.dbService.user.findUnique({
+                where: { id: payload.impersonatedBy },
+                select: { isActive: true, role: true },
+            });
+            if (!admin || !admin.isActive || admin.role !== 'ADMIN') throw new UnauthorizedException();
+        }
+        // Reject tokens of a session that was ended, e.g. from another device
+        if (payload.sessionId && !await this.sessionService.touch(payload.sessionId, { ipAddress: request.ip })) {
+            throw new UnauthorizedException();
+        }
+
         return {
             id: payload.id,
             email: payload.email,
             role: payload.role,
-            name: payload.name
+            name: payload.name,
+            sessionId: payload.sessionId,
+            impersonatedBy: payload.impersonatedBy,
+            // Read from the database, so that the restriction ends as soon as the password is changed
+            mustChangePassword: user.mustChangePassword || undefined,
         }
     }
-}
\ No newline at end of file
+}
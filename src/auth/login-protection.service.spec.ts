@@ -0,0 +1,120 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LoginProtectionService } from './login-protection.service';
+import { DbService } from '../db/db.service';
+import loginProtectionConfig from './config/login-protection.config';
+
+describe('LoginProtectionService', () => {
+  let service: LoginProtectionService;
+  let db: {
+    loginAttempt: { findMany: jest.Mock; create: jest.Mock };
+    user: { findUnique: jest.Mock; update: jest.Mock };
+  };
+  const config = loginProtectionConfig();
+  const client = { ipAddress: '203.0.113.7', userAgent: 'jest' };
+
+  const expectTooManyAttempts = async (attempt: Promise<void>) => {
+    const error = await attempt.then(() => undefined, (caught: HttpException) => caught);
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error!.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    return error!.getResponse() as { message: string; retryAfterSeconds: number };
+  };
+
+  beforeEach(async () => {
+    db = {
+      loginAttempt: { findMany: jest.fn().mockResolvedValue([]), create: jest.fn() },
+      user: { findUnique: jest.fn().mockResolvedValue(null), update: jest.fn() },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginProtectionService,
+        { provide: DbService, useValue: db },
+        { provide: loginProtectionConfig.KEY, useValue: config },
+      ],
+    }).compile();
+
+    service = module.get<LoginProtectionService>(LoginProtectionService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('lets an account without failures try', async () => {
+    db.user.findUnique.mockResolvedValue({ failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null });
+
+    await expect(service.assertCanAttempt('user@example.com', client)).resolves.toBeUndefined();
+  });
+
+  it('refuses a locked account until the lock ends', async () => {
+    db.user.findUnique.mockResolvedValue({
+      failedLoginCount: config.maxFailedAttempts,
+      lastFailedLoginAt: new Date(),
+      lockedUntil: new Date(Date.now() + 10 * 60 * 1000),
+    });
+
+    const response = await expectTooManyAttempts(service.assertCanAttempt('user@example.com', client));
+    expect(response.message).toContain('temporarily locked');
+    expect(response.retryAfterSeconds).toBeGreaterThan(9 * 60);
+  });
+
+  it('doubles the wait after every failure', async () => {
+    const lastFailedLoginAt = new Date();
+    db.user.findUnique.mockResolvedValue({ failedLoginCount: 3, lastFailedLoginAt, lockedUntil: null });
+
+    const response = await expectTooManyAttempts(service.assertCanAttempt('user@example.com', client));
+    expect(response.retryAfterSeconds).toBe(config.backoffBaseSeconds * 4);
+  });
+
+  it('allows the next attempt once the backoff elapsed', async () => {
+    db.user.findUnique.mockResolvedValue({
+      failedLoginCount: 3,
+      lastFailedLoginAt: new Date(Date.now() - config.backoffMaxSeconds * 1000),
+      lockedUntil: null,
+    });
+
+    await expect(service.assertCanAttempt('user@example.com', client)).resolves.toBeUndefined();
+  });
+
+  it('refuses an IP address with too many failures before looking up the account', async () => {
+    db.loginAttempt.findMany.mockResolvedValue(
+      Array.from({ length: config.maxFailedAttemptsPerIp }, () => ({ createdAt: new Date() })),
+    );
+
+    const response = await expectTooManyAttempts(service.assertCanAttempt('user@example.com', client));
+    expect(response.retryAfterSeconds).toBe(config.ipWindowMinutes * 60);
+    expect(db.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('locks the account once it reaches the limit, longer on every further failure', async () => {
+    db.user.update.mockResolvedValueOnce({ failedLoginCount: config.maxFailedAttempts + 1 });
+
+    await service.recordFailure('user@example.com', client, 'invalid_credentials', { id: 'user-1' });
+
+    const { lockedUntil } = db.user.update.mock.calls[1][0].data;
+    const lockMinutes = (lockedUntil.getTime() - Date.now()) / 60_000;
+    expect(lockMinutes).toBeGreaterThan(config.lockMinutes * 2 - 1);
+    expect(lockMinutes).toBeLessThanOrEqual(config.lockMinutes * 2);
+  });
+
+  it('does not lock the account below the limit', async () => {
+    db.user.update.mockResolvedValueOnce({ failedLoginCount: 1 });
+
+    await service.recordFailure('user@example.com', client, 'invalid_credentials', { id: 'user-1' });
+
+    expect(db.loginAttempt.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ email: 'user@example.com', userId: 'user-1', success: false }),
+    });
+    expect(db.user.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears the counters after a successful login', async () => {
+    await service.recordSuccess({ id: 'user-1', email: 'user@example.com' }, client);
+
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: expect.objectContaining({ failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null }),
+    });
+  });
+});
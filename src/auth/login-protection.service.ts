@@ -0,0 +1,152 @@
+import { HttpException, HttpStatus, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { LoginAttempt, User } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import { isObjectId } from '../common/utils/school-membership.util';
+import loginProtectionConfig from './config/login-protection.config';
+import { ClientInfo } from './decorators/client-info.decorator';
+
+export type LoginFailureReason = 'invalid_credentials' | 'inactive_account' | 'invalid_two_factor_code';
+
+/**
+ * Tracks login attempts per account and per IP address, and refuses new
+ * attempts while a backoff delay or an account lock is in effect.
+ */
+@Injectable()
+export class LoginProtectionService {
+    constructor(
+        private readonly dbService: DbService,
+        @Inject(loginProtectionConfig.KEY)
+        private readonly config: ConfigType<typeof loginProtectionConfig>,
+    ) { }
+
+    /**
+     * Throws 429 Too Many Requests when the account or the IP address has to wait before trying again.
+     */
+    async assertCanAttempt(email: string, client: ClientInfo): Promise<void> {
+        const now = Date.now();
+
+        if (client.ipAddress) {
+            const windowStart = new Date(now - this.config.ipWindowMinutes * 60 * 1000);
+            const ipFailures = await this.dbService.loginAttempt.findMany({
+                where: { ipAddress: client.ipAddress, success: false, createdAt: { gte: windowStart } },
+                orderBy: { createdAt: 'desc' },
+                select: { createdAt: true },
+            });
+
+            if (ipFailures.length >= this.config.maxFailedAttemptsPerIp) {
+                this.throwTooManyAttempts(this.config.ipWindowMinutes * 60, 'Too many failed login attempts from your network');
+            }
+            // Every IP gets the account allowance before its own backoff starts
+            const extraFailures = ipFailures.length - this.config.maxFailedAttempts;
+            if (extraFailures > 0) {
+                this.assertBackoffElapsed(extraFailures, ipFailures[0].createdAt, now);
+            }
+        }
+
+        const user = await this.dbService.user.findUnique({
+            where: { email },
+            select: { failedLoginCount: true, lastFailedLoginAt: true, lockedUntil: true },
+        });
+        if (!user) return;
+
+        if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+            this.throwTooManyAttempts(
+                Math.ceil((user.lockedUntil.getTime() - now) / 1000),
+                'This account is temporarily locked after too many failed login attempts',
+            );
+        }
+        if (user.failedLoginCount > 0 && user.lastFailedLoginAt) {
+            this.assertBackoffElapsed(user.failedLoginCount, user.lastFailedLoginAt, now);
+        }
+    }
+
+    /**
+     * Records a failed attempt and locks the account once it reached the limit.
+     * Every failure past the limit doubles the lock duration.
+     */
+    async recordFailure(email: string, client: ClientInfo, reason: LoginFailureReason, user?: Pick<User, 'id'> | null): Promise<void> {
+        await this.dbService.loginAttempt.create({
+            data: { email, userId: user?.id, ipAddress: client.ipAddress, userAgent: client.userAgent, success: false, reason },
+        });
+        if (!user) return;
+
+        const updated = await this.dbService.user.update({
+            where: { id: user.id },
+            data: { failedLoginCount: { increment: 1 }, lastFailedLoginAt: new Date() },
+            select: { failedLoginCount: true },
+        });
+
+        const overLimit = updated.failedLoginCount - this.config.maxFailedAttempts;
+        if (overLimit >= 0) {
+            const lockMinutes = Math.min(this.config.lockMinutes * 2 ** overLimit, this.config.maxLockMinutes);
+            await this.dbService.user.update({
+                where: { id: user.id },
+                data: { lockedUntil: new Date(Date.now() + lockMinutes * 60 * 1000) },
+            });
+        }
+    }
+
+    /**
+     * Records a successful attempt, clears the failure counters and sets `lastLogin`.
+     */
+    async recordSuccess(user: Pick<User, 'id' | 'email'>, client: ClientInfo): Promise<void> {
+        await Promise.all([
+            this.dbService.loginAttempt.create({
+                data: { email: user.email, userId: user.id, ipAddress: client.ipAddress, userAgent: client.userAgent, success: true },
+            }),
+            this.dbService.user.update({
+                where: { id: user.id },
+                data: { lastLogin: new Date(), failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+            }),
+        ]);
+    }
+
+    /**
+     * Lifts the lock and the backoff of an account.
+     */
+    async unlock(userId: string): Promise<{ message: string }> {
+        if (!isObjectId(userId)) {
+            throw new NotFoundException(`User with ID "${userId}" not found`);
+        }
+        const user = await this.dbService.user.findUnique({ where: { id: userId }, select: { id: true } });
+        if (!user) {
+            throw new NotFoundException(`User with ID "${userId}" not found`);
+        }
+
+        await this.dbService.user.update({
+            where: { id: userId },
+            data: { failedLoginCount: 0, lastFailedLoginAt: null, lockedUntil: null },
+        });
+        return { message: 'Account unlocked' };
+    }
+
+    /**
+     * Lists the most recent login attempts of an account.
+     */
+    async findAttempts(userId: string, take = 50): Promise<LoginAttempt[]> {
+        if (!isObjectId(userId)) {
+            throw new NotFoundException(`User with ID "${userId}" not found`);
+        }
+        return this.dbService.loginAttempt.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' },
+            take,
+        });
+    }
+
+    private assertBackoffElapsed(failures: number, lastFailureAt: Date, now: number): void {
+        const delaySeconds = Math.min(
+            this.config.backoffBaseSeconds * 2 ** (failures - 1),
+            this.config.backoffMaxSeconds,
+        );
+        const retryAt = lastFailureAt.getTime() + delaySeconds * 1000;
+        if (retryAt > now) {
+            this.throwTooManyAttempts(Math.ceil((retryAt - now) / 1000), 'Too many failed login attempts, wait before trying again');
+        }
+    }
+
+    private throwTooManyAttempts(retryAfterSeconds: number, message: string): never {
+        throw new HttpException({ message, retryAfterSeconds }, HttpStatus.TOO_MANY_REQUESTS);
+    }
+}
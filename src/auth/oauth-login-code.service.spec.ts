@@ -0,0 +1,91 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { OAuthLoginCodeService } from './oauth-login-code.service';
+import { DbService } from '../db/db.service';
+import { hashToken } from '../common/utils/hash.util';
+import tokenConfig from './config/token.config';
+
+describe('OAuthLoginCodeService', () => {
+  let service: OAuthLoginCodeService;
+  let db: { oAuthLoginCode: { create: jest.Mock; findUnique: jest.Mock; updateMany: jest.Mock } };
+
+  const loginCodeWith = (fields: Record<string, unknown>) => ({
+    id: 'code-1',
+    userId: 'user-1',
+    provider: 'google',
+    codeHash: hashToken('login-code'),
+    usedAt: null,
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    db = {
+      oAuthLoginCode: {
+        create: jest.fn(),
+        findUnique: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthLoginCodeService,
+        { provide: DbService, useValue: db },
+        { provide: tokenConfig.KEY, useValue: { oauthLoginCodeTtlSeconds: 60 } },
+      ],
+    }).compile();
+
+    service = module.get<OAuthLoginCodeService>(OAuthLoginCodeService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('stores only the hash of an issued code', async () => {
+    const code = await service.issue('user-1', 'google');
+
+    const { data } = db.oAuthLoginCode.create.mock.calls[0][0];
+    expect(data).toEqual({ userId: 'user-1', provider: 'google', codeHash: hashToken(code), expiresAt: expect.any(Date) });
+    expect(data.expiresAt.getTime() - Date.now()).toBeCloseTo(60 * 1000, -3);
+  });
+
+  it('returns the user of a code and marks it as used', async () => {
+    db.oAuthLoginCode.findUnique.mockResolvedValue(loginCodeWith({}));
+
+    await expect(service.consume('login-code')).resolves.toBe('user-1');
+    expect(db.oAuthLoginCode.findUnique).toHaveBeenCalledWith({ where: { codeHash: hashToken('login-code') } });
+    expect(db.oAuthLoginCode.updateMany).toHaveBeenCalledWith({
+      where: { id: 'code-1', usedAt: null },
+      data: { usedAt: expect.any(Date) },
+    });
+  });
+
+  it('rejects a code that was already used', async () => {
+    db.oAuthLoginCode.findUnique.mockResolvedValue(loginCodeWith({ usedAt: new Date() }));
+
+    await expect(service.consume('login-code')).rejects.toThrow(UnauthorizedException);
+    expect(db.oAuthLoginCode.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects a code used by a concurrent request', async () => {
+    db.oAuthLoginCode.findUnique.mockResolvedValue(loginCodeWith({}));
+    db.oAuthLoginCode.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.consume('login-code')).rejects.toThrow('Invalid or expired login code');
+  });
+
+  it('rejects an expired code', async () => {
+    db.oAuthLoginCode.findUnique.mockResolvedValue(loginCodeWith({ expiresAt: new Date(Date.now() - 1000) }));
+
+    await expect(service.consume('login-code')).rejects.toThrow(UnauthorizedException);
+    expect(db.oAuthLoginCode.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown code', async () => {
+    db.oAuthLoginCode.findUnique.mockResolvedValue(null);
+
+    await expect(service.consume('unknown-code')).rejects.toThrow(UnauthorizedException);
+  });
+});
@@ -0,0 +1,57 @@
+import { Inject, Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { DbService } from '../db/db.service';
+import { hashToken } from '../common/utils/hash.util';
+import { generateSecureToken } from '../common/utils/characters.util';
+import tokenConfig from './config/token.config';
+
+/**
+ * Short-lived, single-use codes handed to the frontend after an OAuth sign in,
+ * so tokens never travel in a redirect URL.
+ */
+@Injectable()
+export class OAuthLoginCodeService {
+    constructor(
+        private readonly dbService: DbService,
+        @Inject(tokenConfig.KEY)
+        private readonly tokenConfiguration: ConfigType<typeof tokenConfig>,
+    ) { }
+
+    /**
+     * Creates a login code for the user. Only the hash is stored.
+     */
+    async issue(userId: string, provider: string): Promise<string> {
+        const code = generateSecureToken(32);
+        await this.dbService.oAuthLoginCode.create({
+            data: {
+                userId,
+                provider,
+                codeHash: hashToken(code),
+                expiresAt: new Date(Date.now() + this.tokenConfiguration.oauthLoginCodeTtlSeconds * 1000),
+            },
+        });
+        return code;
+    }
+
+    /**
+     * Marks the code as used and returns the user it was issued for.
+     */
+    async consume(code: string): Promise<string> {
+        const existing = await this.dbService.oAuthLoginCode.findUnique({
+            where: { codeHash: hashToken(code) },
+        });
+        if (!existing || existing.usedAt || existing.expiresAt <= new Date()) {
+            throw new UnauthorizedException('Invalid or expired login code');
+        }
+
+        const consumed = await this.dbService.oAuthLoginCode.updateMany({
+            where: { id: existing.id, usedAt: null },
+            data: { usedAt: new Date() },
+        });
+        if (consumed.count === 0) {
+            throw new UnauthorizedException('Invalid or expired login code');
+        }
+
+        return existing.userId;
+    }
+}
@@ -0,0 +1,46 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs';
+import { PasswordPolicyService } from './password-policy.service';
+import passwordPolicyConfig from './config/password-policy.config';
+
+describe('PasswordPolicyService', () => {
+  let service: PasswordPolicyService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordPolicyService,
+        { provide: passwordPolicyConfig.KEY, useValue: passwordPolicyConfig() },
+      ],
+    }).compile();
+
+    service = module.get<PasswordPolicyService>(PasswordPolicyService);
+    await module.init();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should reject common passwords', async () => {
+    const violations = await service.check('Password123!');
+    expect(violations.map(violation => violation.code)).toContain('common_password');
+  });
+
+  it('should reject passwords containing the username', async () => {
+    const violations = await service.check('Xk9mariaQz', { username: 'maria' });
+    expect(violations.map(violation => violation.code)).toEqual(['contains_personal_info']);
+  });
+
+  it('should refuse to start without the common password list', () => {
+    jest.spyOn(fs, 'readFileSync').mockImplementation(() => {
+      throw new Error('ENOENT');
+    });
+    const withoutList = new PasswordPolicyService(passwordPolicyConfig());
+    expect(() => withoutList.onModuleInit()).toThrow('Could not load the common password list');
+  });
+});
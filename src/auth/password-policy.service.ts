@@ -0,0 +1,159 @@
+import { BadRequestException, Inject, Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { verifyPassword } from '../common/utils/hash.util';
+import passwordPolicyConfig from './config/password-policy.config';
+
+export type PasswordViolationCode =
+    | 'too_short'
+    | 'too_long'
+    | 'missing_lowercase'
+    | 'missing_uppercase'
+    | 'missing_digit'
+    | 'missing_symbol'
+    | 'contains_personal_info'
+    | 'common_password'
+    | 'reused_password';
+
+export interface PasswordViolation {
+    code: PasswordViolationCode;
+    message: string;
+}
+
+export interface PasswordOwner {
+    email?: string | null;
+    username?: string | null;
+    fullName?: string | null;
+    // Current hash and previous hashes, checked against reuse
+    password?: string | null;
+    passwordHistory?: string[];
+}
+
+const COMMON_PASSWORDS_FILE = join(__dirname, 'data', 'common-passwords.txt');
+
+@Injectable()
+export class PasswordPolicyService implements OnModuleInit {
+    private commonPasswords?: Set<string>;
+
+    constructor(
+        @Inject(passwordPolicyConfig.KEY)
+        private readonly policy: ConfigType<typeof passwordPolicyConfig>,
+    ) { }
+
+    // Fails the startup rather than quietly accepting common passwords when the list is missing
+    onModuleInit() {
+        if (this.policy.rejectCommon) {
+            this.commonPasswords = this.loadCommonPasswords();
+        }
+    }
+
+    /**
+     * Lists every rule the password breaks, empty when it is acceptable.
+     */
+    async check(password: string, owner: PasswordOwner = {}): Promise<PasswordViolation[]> {
+        const violations: PasswordViolation[] = [];
+        const add = (code: PasswordViolationCode, message: string) => violations.push({ code, message });
+
+        if (password.length < this.policy.minLength) {
+            add('too_short', `Password must be at least ${this.policy.minLength} characters`);
+        }
+        if (password.length > this.policy.maxLength) {
+            add('too_long', `Password must be at most ${this.policy.maxLength} characters`);
+        }
+        if (this.policy.requireLowercase && !/[a-z]/.test(password)) {
+            add('missing_lowercase', 'Password must contain a lowercase letter');
+        }
+        if (this.policy.requireUppercase && !/[A-Z]/.test(password)) {
+            add('missing_uppercase', 'Password must contain an uppercase letter');
+        }
+        if (this.policy.requireDigit && !/\d/.test(password)) {
+            add('missing_digit', 'Password must contain a number');
+        }
+        if (this.policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+            add('missing_symbol', 'Password must contain a symbol');
+        }
+        if (this.policy.rejectPersonalInfo && this.containsPersonalInfo(password, owner)) {
+            add('contains_personal_info', 'Password must not contain your email, username or name');
+        }
+        if (this.policy.rejectCommon && this.isCommon(password)) {
+            add('common_password', 'Password is too common or has appeared in a data breach');
+        }
+        if (await this.isReused(password, owner)) {
+            add('reused_password', `Password must differ from your last ${this.policy.historySize} passwords`);
+        }
+
+        return violations;
+    }
+
+    /**
+     * Throws a 400 listing the violations when the password breaks the policy.
+     */
+    async assertValid(password: string, owner: PasswordOwner = {}): Promise<void> {
+        const violations = await this.check(password, owner);
+        if (violations.length > 0) {
+            throw new BadRequestException({
+                message: 'Password does not meet the password policy',
+                violations,
+            });
+        }
+    }
+
+    /**
+     * Builds the history to store along with a new password: the current hash
+     * moves into the history, which keeps just enough entries for the reuse check.
+     */
+    nextHistory(owner: PasswordOwner): string[] {
+        const previous = [owner.password, ...(owner.passwordHistory ?? [])].filter((hash): hash is string => !!hash);
+        // The new password itself is the last of the `historySize` passwords
+        return previous.slice(0, Math.max(this.policy.historySize - 1, 0));
+    }
+
+    private containsPersonalInfo(password: string, owner: PasswordOwner): boolean {
+        const lowered = password.toLowerCase();
+        const emailName = owner.email?.split('@')[0];
+        const nameParts = owner.fullName?.split(/\s+/) ?? [];
+        return [emailName, owner.username, ...nameParts]
+            .map(part => part?.toLowerCase().trim())
+            // Very short parts (initials, "jo"...) would reject too many passwords
+            .some(part => !!part && part.length >= 3 && lowered.includes(part));
+    }
+
+    private isCommon(password: string): boolean {
+        const commonPasswords = this.commonPasswords ??= this.loadCommonPasswords();
+        const lowered = password.toLowerCase();
+        // Also catch common words dressed up with trailing digits or symbols, e.g. "Password123!"
+        const stem = lowered.replace(/[\d\W_]+$/, '');
+        return commonPasswords.has(lowered) || (stem.length >= 4 && commonPasswords.has(stem));
+    }
+
+    private async isReused(password: string, owner: PasswordOwner): Promise<boolean> {
+        if (this.policy.historySize <= 0) return false;
+        const hashes = [owner.password, ...(owner.passwordHistory ?? [])]
+            .filter((hash): hash is string => !!hash)
+            .slice(0, this.policy.historySize);
+        for (const hash of hashes) {
+            if (await verifyPassword(password, hash).catch(() => false)) return true;
+        }
+        return false;
+    }
+
+    private loadCommonPasswords(): Set<string> {
+        let content: string;
+        try {
+            content = readFileSync(COMMON_PASSWORDS_FILE, 'utf8');
+        } catch (error) {
+            throw new Error(`Could not load the common password list from ${COMMON_PASSWORDS_FILE}: ${error.message}`);
+        }
+        const commonPasswords = new Set(
+            content
+                .split(/\r?\n/)
+                .map(line => line.trim().toLowerCase())
+                .filter(line => line && !line.startsWith('#')),
+        );
+        if (commonPasswords.size === 0) {
+            throw new Error(`The common password list at ${COMMON_PASSWORDS_FILE} is empty`);
+        }
+        return commonPasswords;
+    }
+}
@@ -0,0 +1,129 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PasswordResetService } from './password-reset.service';
+import { DbService } from '../db/db.service';
+import { MailService } from '../mail/mail.service';
+import { SessionService } from './session.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { hashToken } from '../common/utils/hash.util';
+import tokenConfig from './config/token.config';
+
+describe('PasswordResetService', () => {
+  let service: PasswordResetService;
+  let db: {
+    user: { findUnique: jest.Mock; update: jest.Mock };
+    passwordResetToken: { findUnique: jest.Mock; create: jest.Mock; updateMany: jest.Mock };
+  };
+  let mailService: { buildAppUrl: jest.Mock; send: jest.Mock };
+  let sessionService: { revokeAllForUser: jest.Mock };
+
+  const user = { id: 'user-1', email: 'jane@example.com', fullName: 'Jane Doe', isActive: true };
+  const resetTokenWith = (fields: Record<string, unknown>) => ({
+    id: 'token-1',
+    userId: 'user-1',
+    tokenHash: hashToken('reset-token'),
+    usedAt: null,
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    db = {
+      user: { findUnique: jest.fn().mockResolvedValue(user), update: jest.fn() },
+      passwordResetToken: {
+        findUnique: jest.fn(),
+        create: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    mailService = {
+      buildAppUrl: jest.fn((path: string, query: { token: string }) => `https://app.test${path}?token=${query.token}`),
+      send: jest.fn().mockResolvedValue(true),
+    };
+    sessionService = { revokeAllForUser: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordResetService,
+        { provide: DbService, useValue: db },
+        { provide: MailService, useValue: mailService },
+        { provide: SessionService, useValue: sessionService },
+        { provide: PasswordPolicyService, useValue: { assertValid: jest.fn(), nextHistory: jest.fn().mockReturnValue([]) } },
+        { provide: tokenConfig.KEY, useValue: { passwordResetTtlMinutes: 30 } },
+      ],
+    }).compile();
+
+    service = module.get<PasswordResetService>(PasswordResetService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('ends the previous links and stores only the hash of the new one', async () => {
+    await service.requestReset({ email: 'jane@example.com' });
+
+    expect(db.passwordResetToken.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', usedAt: null },
+      data: { usedAt: expect.any(Date) },
+    });
+    const token = mailService.buildAppUrl.mock.calls[0][1].token;
+    const { data } = db.passwordResetToken.create.mock.calls[0][0];
+    expect(data.tokenHash).toBe(hashToken(token));
+    expect(data.expiresAt.getTime() - Date.now()).toBeCloseTo(30 * 60 * 1000, -4);
+  });
+
+  it('gives the same answer for an email without an account', async () => {
+    db.user.findUnique.mockResolvedValue(null);
+
+    const response = await service.requestReset({ email: 'nobody@example.com' });
+
+    expect(response.message).toBe('If an account exists for this email, a reset link has been sent');
+    expect(db.passwordResetToken.create).not.toHaveBeenCalled();
+    expect(mailService.send).not.toHaveBeenCalled();
+  });
+
+  it('sets the new password, consumes the token and signs the user out everywhere', async () => {
+    db.passwordResetToken.findUnique.mockResolvedValue(resetTokenWith({}));
+
+    await service.resetPassword({ token: 'reset-token', password: 'new-password' });
+
+    expect(db.passwordResetToken.findUnique).toHaveBeenCalledWith({ where: { tokenHash: hashToken('reset-token') } });
+    expect(db.passwordResetToken.updateMany).toHaveBeenCalledWith({
+      where: { id: 'token-1', usedAt: null },
+      data: { usedAt: expect.any(Date) },
+    });
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: expect.objectContaining({ password: expect.any(String), mustChangePassword: false }),
+    });
+    expect(db.user.update.mock.calls[0][0].data.password).not.toBe('new-password');
+    expect(sessionService.revokeAllForUser).toHaveBeenCalledWith('user-1');
+  });
+
+  it('rejects a token that was already used', async () => {
+    db.passwordResetToken.findUnique.mockResolvedValue(resetTokenWith({ usedAt: new Date() }));
+
+    await expect(service.resetPassword({ token: 'reset-token', password: 'new-password' }))
+      .rejects.toThrow('Invalid or expired reset link');
+    expect(db.user.update).not.toHaveBeenCalled();
+    expect(sessionService.revokeAllForUser).not.toHaveBeenCalled();
+  });
+
+  it('rejects a token used by a concurrent request', async () => {
+    db.passwordResetToken.findUnique.mockResolvedValue(resetTokenWith({}));
+    db.passwordResetToken.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.resetPassword({ token: 'reset-token', password: 'new-password' }))
+      .rejects.toThrow(BadRequestException);
+    expect(db.user.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects an expired token', async () => {
+    db.passwordResetToken.findUnique.mockResolvedValue(resetTokenWith({ expiresAt: new Date(Date.now() - 1000) }));
+
+    await expect(service.resetPassword({ token: 'reset-token', password: 'new-password' }))
+      .rejects.toThrow(BadRequestException);
+    expect(db.passwordResetToken.updateMany).not.toHaveBeenCalled();
+  });
+});
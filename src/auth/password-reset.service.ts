@@ -0,0 +1,120 @@
+import { BadRequestException, Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { DbService } from '../db/db.service';
+import { MailService } from '../mail/mail.service';
+import { hashPassword, hashToken } from '../common/utils/hash.util';
+import { generateSecureToken } from '../common/utils/characters.util';
+import { escapeHtml } from '../common/utils/html.util';
+import { SessionService } from './session.service';
+import { PasswordPolicyService } from './password-policy.service';
+import tokenConfig from './config/token.config';
+import { ForgotPasswordDto, ForgotPasswordSchema, ResetPasswordDto, ResetPasswordSchema } from './dto/password-reset.dto';
+
+@Injectable()
+export class PasswordResetService {
+    private readonly logger = new Logger(PasswordResetService.name);
+
+    constructor(
+        private readonly dbService: DbService,
+        private readonly mailService: MailService,
+        private readonly sessionService: SessionService,
+        private readonly passwordPolicyService: PasswordPolicyService,
+        @Inject(tokenConfig.KEY)
+        private readonly tokenConfiguration: ConfigType<typeof tokenConfig>,
+    ) { }
+
+    /**
+     * Emails a reset link when an active account uses the email.
+     * The response is the same whether or not the account exists.
+     */
+    async requestReset(input: ForgotPasswordDto): Promise<{ message: string }> {
+        const validation = ForgotPasswordSchema.safeParse(input);
+        if (!validation.success) {
+            throw new BadRequestException('Invalid email provided');
+        }
+
+        const response = { message: 'If an account exists for this email, a reset link has been sent' };
+        const user = await this.dbService.user.findUnique({ where: { email: validation.data.email } });
+        if (!user || !user.isActive) return response;
+
+        // Only the latest link stays usable
+        await this.dbService.passwordResetToken.updateMany({
+            where: { userId: user.id, usedAt: null },
+            data: { usedAt: new Date() },
+        });
+
+        const token = generateSecureToken();
+        const ttlMinutes = this.tokenConfiguration.passwordResetTtlMinutes;
+        await this.dbService.passwordResetToken.create({
+            data: {
+                userId: user.id,
+                tokenHash: hashToken(token),
+                expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+            },
+        });
+
+        const link = this.mailService.buildAppUrl('/auth/reset-password', { token });
+        const sent = await this.mailService.send({
+            to: user.email,
+            subject: 'Reset your password',
+            text: `Hello ${user.fullName},\n\nReset your password by opening the link below, it expires in ${ttlMinutes} minutes:\n${link}\n\nIf you did not ask for a password reset, you can ignore this email.`,
+            html: `<p>Hello ${escapeHtml(user.fullName)},</p><p>Reset your password by opening the link below, it expires in ${ttlMinutes} minutes:</p><p><a href="${link}">Reset my password</a></p><p>If you did not ask for a password reset, you can ignore this email.</p>`,
+        });
+        if (!sent) {
+            this.logger.warn(`Password reset email could not be sent to user ${user.id}`);
+        }
+
+        return response;
+    }
+
+    /**
+     * Sets a new password with a reset token. The token can only be used once
+     * and every existing session of the user is ended.
+     */
+    async resetPassword(input: ResetPasswordDto): Promise<{ message: string }> {
+        const validation = ResetPasswordSchema.safeParse(input);
+        if (!validation.success) {
+            throw new BadRequestException({
+                message: 'Invalid password reset data provided',
+                errors: validation.error.flatten().fieldErrors,
+            });
+        }
+        const { token, password } = validation.data;
+
+        const resetToken = await this.dbService.passwordResetToken.findUnique({
+            where: { tokenHash: hashToken(token) },
+        });
+        if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+            throw new BadRequestException('Invalid or expired reset link');
+        }
+
+        const user = await this.dbService.user.findUnique({ where: { id: resetToken.userId } });
+        if (!user || !user.isActive) {
+            throw new BadRequestException('Invalid or expired reset link');
+        }
+
+        // Checked before consuming the token, so a rejected password does not burn the link
+        await this.passwordPolicyService.assertValid(password, user);
+
+        // Consume the token before the update so concurrent requests cannot use it twice
+        const consumed = await this.dbService.passwordResetToken.updateMany({
+            where: { id: resetToken.id, usedAt: null },
+            data: { usedAt: new Date() },
+        });
+        if (consumed.count === 0) {
+            throw new BadRequestException('Invalid or expired reset link');
+        }
+
+        await this.dbService.user.update({
+            where: { id: user.id },
+            data: {
+                password: await hashPassword(password),
+                passwordHistory: this.passwordPolicyService.nextHistory(user),
+                mustChangePassword: false,
+            },
+        });
+        await this.sessionService.revokeAllForUser(user.id);
+
+        return { message: 'Password has been reset, sign in with your new password' };
+    }
+}
@@ -0,0 +1,68 @@
+import { HttpStatus } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PasswordlessService } from './passwordless.service';
+import { DbService } from '../db/db.service';
+import { MailService } from '../mail/mail.service';
+import { SmsService } from '../sms/sms.service';
+import { LoginProtectionService } from './login-protection.service';
+import tokenConfig from './config/token.config';
+
+describe('PasswordlessService', () => {
+  let service: PasswordlessService;
+  let db: {
+    user: { findUnique: jest.Mock };
+    passwordlessLoginRequest: { findMany: jest.Mock; count: jest.Mock; create: jest.Mock };
+  };
+
+  beforeEach(async () => {
+    db = {
+      user: { findUnique: jest.fn().mockResolvedValue(null) },
+      passwordlessLoginRequest: {
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordlessService,
+        { provide: DbService, useValue: db },
+        { provide: MailService, useValue: {} },
+        { provide: SmsService, useValue: {} },
+        { provide: LoginProtectionService, useValue: {} },
+        { provide: tokenConfig.KEY, useValue: tokenConfig() },
+      ],
+    }).compile();
+
+    service = module.get<PasswordlessService>(PasswordlessService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('logs requests for unknown accounts by normalized identifier and IP', async () => {
+    await service.request({ identifier: ' Nobody@Example.com ' }, { ipAddress: '10.0.0.1' });
+
+    expect(db.passwordlessLoginRequest.create).toHaveBeenCalledWith({
+      data: { identifier: 'nobody@example.com', ipAddress: '10.0.0.1' },
+    });
+  });
+
+  it('limits unknown accounts like existing ones', async () => {
+    const requestedAt = new Date(Date.now() - 10 * 1000);
+    db.passwordlessLoginRequest.findMany.mockResolvedValue([{ createdAt: requestedAt }]);
+
+    await expect(service.request({ identifier: 'nobody@example.com' }, { ipAddress: '10.0.0.1' }))
+      .rejects.toMatchObject({ status: HttpStatus.TOO_MANY_REQUESTS });
+    expect(db.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('limits requests from one IP address across identifiers', async () => {
+    db.passwordlessLoginRequest.count.mockResolvedValue(tokenConfig().passwordlessMaxRequestsPerIp);
+
+    await expect(service.request({ identifier: 'someone-new' }, { ipAddress: '10.0.0.1' }))
+      .rejects.toMatchObject({ status: HttpStatus.TOO_MANY_REQUESTS });
+  });
+});
@@ -0,0 +1,255 @@
+import { BadRequestException, HttpException, HttpStatus, Inject, Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { randomInt } from 'crypto';
+import { User } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import { MailService } from '../mail/mail.service';
+import { SmsService } from '../sms/sms.service';
+import { hashToken } from '../common/utils/hash.util';
+import { generateSecureToken } from '../common/utils/characters.util';
+import { escapeHtml } from '../common/utils/html.util';
+import tokenConfig from './config/token.config';
+import { LoginProtectionService } from './login-protection.service';
+import { ClientInfo } from './decorators/client-info.decorator';
+import {
+    PasswordlessCodeDto,
+    PasswordlessCodeSchema,
+    PasswordlessRequestDto,
+    PasswordlessRequestSchema,
+} from './dto/passwordless.dto';
+
+/**
+ * Sign in without a password, with a single-use magic link sent by email or
+ * a 6-digit code sent by email or SMS.
+ */
+@Injectable()
+export class PasswordlessService {
+    private readonly logger = new Logger(PasswordlessService.name);
+
+    constructor(
+        private readonly dbService: DbService,
+        private readonly mailService: MailService,
+        private readonly smsService: SmsService,
+        private readonly loginProtectionService: LoginProtectionService,
+        @Inject(tokenConfig.KEY)
+        private readonly tokenConfiguration: ConfigType<typeof tokenConfig>,
+    ) { }
+
+    /**
+     * Sends a magic link or a login code. Only the latest one stays usable.
+     * The response does not tell whether the account exists.
+     */
+    async request(input: PasswordlessRequestDto, client: ClientInfo = {}): Promise<{ message: string }> {
+        const validation = PasswordlessRequestSchema.safeParse(input);
+        if (!validation.success) {
+            throw new BadRequestException({
+                message: 'Invalid passwordless login request',
+                errors: validation.error.flatten().formErrors,
+            });
+        }
+        const { identifier, method, channel } = validation.data;
+        const response = {
+            message: method === 'link'
+                ? 'If an account matches, a login link has been sent'
+                : 'If an account matches, a login code has been sent',
+        };
+
+        // Limited before the lookup, so the 429 does not tell whether the account exists
+        await this.assertCanRequest(identifier, client);
+
+        const user = await this.findUser(identifier);
+        if (!user || !user.isActive) return response;
+        if (channel === 'sms' && !user.phoneNumber) return response;
+
+        await this.dbService.passwordlessLoginToken.updateMany({
+            where: { userId: user.id, usedAt: null },
+            data: { usedAt: new Date() },
+        });
+
+        const sent = method === 'link'
+            ? await this.sendLink(user)
+            : await this.sendCode(user, channel);
+        if (!sent) {
+            this.logger.warn(`Passwordless ${method} could not be sent to user ${user.id} by ${channel}`);
+        }
+
+        return response;
+    }
+
+    /**
+     * Consumes a magic link and returns the user it was sent to.
+     * Opening the link proves the email address, so it is marked verified.
+     */
+    async verifyLink(token: string): Promise<User> {
+        const loginToken = await this.dbService.passwordlessLoginToken.findFirst({
+            where: { tokenHash: hashToken(token), method: 'link' },
+        });
+        if (!loginToken || loginToken.usedAt || loginToken.expiresAt <= new Date()) {
+            throw new UnauthorizedException('Invalid or expired login link');
+        }
+        if (!await this.consume(loginToken.id)) {
+            throw new UnauthorizedException('Invalid or expired login link');
+        }
+
+        const user = await this.dbService.user.findUnique({ where: { id: loginToken.userId } });
+        if (!user || !user.isActive) {
+            throw new UnauthorizedException('Invalid or expired login link');
+        }
+        if (!user.isEmailVerified) {
+            return this.dbService.user.update({ where: { id: user.id }, data: { isEmailVerified: true } });
+        }
+        return user;
+    }
+
+    /**
+     * Checks a login code and returns its user. Wrong codes count as failed
+     * logins, and a code stops working after too many wrong guesses.
+     */
+    async verifyCode(input: PasswordlessCodeDto, client: ClientInfo): Promise<User> {
+        const validation = PasswordlessCodeSchema.safeParse(input);
+        if (!validation.success) {
+            throw new BadRequestException('Invalid login code data provided');
+        }
+        const { identifier, code } = validation.data;
+
+        const user = await this.findUser(identifier);
+        if (!user || !user.isActive) {
+            throw new UnauthorizedException('Invalid or expired login code');
+        }
+        await this.loginProtectionService.assertCanAttempt(user.email, client);
+
+        const loginToken = await this.dbService.passwordlessLoginToken.findFirst({
+            where: { userId: user.id, method: 'code', usedAt: null, expiresAt: { gt: new Date() } },
+            orderBy: { createdAt: 'desc' },
+        });
+        if (!loginToken || loginToken.tokenHash !== this.hashLoginCode(user.id, code)) {
+            if (loginToken) {
+                const attempts = loginToken.attempts + 1;
+                await this.dbService.passwordlessLoginToken.update({
+                    where: { id: loginToken.id },
+                    data: {
+                        attempts,
+                        ...(attempts >= this.tokenConfiguration.passwordlessMaxCodeAttempts && { usedAt: new Date() }),
+                    },
+                });
+            }
+            await this.loginProtectionService.recordFailure(user.email, client, 'invalid_credentials', user);
+            throw new UnauthorizedException('Invalid or expired login code');
+        }
+
+        if (!await this.consume(loginToken.id)) {
+            throw new UnauthorizedException('Invalid or expired login code');
+        }
+        return user;
+    }
+
+    private async sendLink(user: User): Promise<boolean> {
+        const token = generateSecureToken();
+        const ttlMinutes = this.tokenConfiguration.passwordlessLinkTtlMinutes;
+        await this.dbService.passwordlessLoginToken.create({
+            data: {
+                userId: user.id,
+                method: 'link',
+                channel: 'email',
+                tokenHash: hashToken(token),
+                expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+            },
+        });
+
+        const link = this.mailService.buildAppUrl('/auth/magic-link', { token });
+        return this.mailService.send({
+            to: user.email,
+            subject: 'Your Space Together login link',
+            text: `Hello ${user.fullName},\n\nSign in by opening the link below, it expires in ${ttlMinutes} minutes and works once:\n${link}\n\nIf you did not ask to sign in, you can ignore this email.`,
+            html: `<p>Hello ${escapeHtml(user.fullName)},</p><p>Sign in by opening the link below, it expires in ${ttlMinutes} minutes and works once:</p><p><a href="${link}">Sign in to Space Together</a></p><p>If you did not ask to sign in, you can ignore this email.</p>`,
+        });
+    }
+
+    private async sendCode(user: User, channel: 'email' | 'sms'): Promise<boolean> {
+        const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+        const ttlMinutes = this.tokenConfiguration.passwordlessCodeTtlMinutes;
+        await this.dbService.passwordlessLoginToken.create({
+            data: {
+                userId: user.id,
+                method: 'code',
+                channel,
+                tokenHash: this.hashLoginCode(user.id, code),
+                expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+            },
+        });
+
+        const text = `Your Space Together login code is ${code}. It expires in ${ttlMinutes} minutes.`;
+        if (channel === 'sms') {
+            return this.smsService.send({ to: user.phoneNumber!, text });
+        }
+        return this.mailService.send({
+            to: user.email,
+            subject: 'Your Space Together login code',
+            text: `Hello ${user.fullName},\n\n${text}\n\nIf you did not ask to sign in, you can ignore this email.`,
+        });
+    }
+
+    /**
+     * Throws 429 when the email or username, or the IP address, asked too
+     * often, otherwise logs the request.
+     */
+    private async assertCanRequest(identifier: string, client: ClientInfo): Promise<void> {
+        const normalized = identifier.trim().toLowerCase();
+        const windowMs = this.tokenConfiguration.passwordlessRequestWindowMinutes * 60 * 1000;
+        const windowStart = new Date(Date.now() - windowMs);
+        const [recent, ipRequests] = await Promise.all([
+            this.dbService.passwordlessLoginRequest.findMany({
+                where: { identifier: normalized, createdAt: { gte: windowStart } },
+                orderBy: { createdAt: 'desc' },
+                select: { createdAt: true },
+            }),
+            client.ipAddress
+                ? this.dbService.passwordlessLoginRequest.count({
+                    where: { ipAddress: client.ipAddress, createdAt: { gte: windowStart } },
+                })
+                : 0,
+        ]);
+
+        const resendAt = recent[0] && recent[0].createdAt.getTime() + this.tokenConfiguration.passwordlessResendSeconds * 1000;
+        if (resendAt && resendAt > Date.now()) {
+            this.throwTooManyRequests(Math.ceil((resendAt - Date.now()) / 1000));
+        }
+        if (recent.length >= this.tokenConfiguration.passwordlessMaxRequests) {
+            const oldest = recent[recent.length - 1].createdAt.getTime();
+            this.throwTooManyRequests(Math.ceil((oldest + windowMs - Date.now()) / 1000));
+        }
+        if (ipRequests >= this.tokenConfiguration.passwordlessMaxRequestsPerIp) {
+            this.throwTooManyRequests(windowMs / 1000);
+        }
+
+        await this.dbService.passwordlessLoginRequest.create({
+            data: { identifier: normalized, ipAddress: client.ipAddress },
+        });
+    }
+
+    private async consume(id: string): Promise<boolean> {
+        const consumed = await this.dbService.passwordlessLoginToken.updateMany({
+            where: { id, usedAt: null },
+            data: { usedAt: new Date() },
+        });
+        return consumed.count > 0;
+    }
+
+    private async findUser(identifier: string): Promise<User | null> {
+        return identifier.includes('@')
+            ? this.dbService.user.findUnique({ where: { email: identifier } })
+            : this.dbService.user.findUnique({ where: { username: identifier } });
+    }
+
+    // Codes are short, so the user id is mixed in to keep hashes distinct across accounts
+    private hashLoginCode(userId: string, code: string): string {
+        return hashToken(`${userId}:${code}`);
+    }
+
+    private throwTooManyRequests(retryAfterSeconds: number): never {
+        throw new HttpException(
+            { message: 'Too many login requests, wait before asking again', retryAfterSeconds },
+            HttpStatus.TOO_MANY_REQUESTS,
+        );
+    }
+}
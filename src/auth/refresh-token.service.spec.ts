@@ -0,0 +1,85 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RefreshTokenService } from './refresh-token.service';
+import { SessionService } from './session.service';
+import { DbService } from '../db/db.service';
+import tokenConfig from './config/token.config';
+
+describe('RefreshTokenService', () => {
+  let service: RefreshTokenService;
+  let sessionService: { revokeByFamily: jest.Mock };
+  let db: { refreshToken: { findUnique: jest.Mock; create: jest.Mock; updateMany: jest.Mock } };
+
+  beforeEach(async () => {
+    sessionService = { revokeByFamily: jest.fn() };
+    db = {
+      refreshToken: {
+        findUnique: jest.fn(),
+        create: jest.fn().mockResolvedValue({ id: 'token-2' }),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshTokenService,
+        { provide: DbService, useValue: db },
+        { provide: SessionService, useValue: sessionService },
+        { provide: tokenConfig.KEY, useValue: { refreshTokenTtlDays: 30 } },
+      ],
+    }).compile();
+
+    service = module.get<RefreshTokenService>(RefreshTokenService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('replaces a valid token with a new one in the same family', async () => {
+    db.refreshToken.findUnique.mockResolvedValue({
+      id: 'token-1', userId: 'user-1', familyId: 'family-1', revokedAt: null, expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    const rotated = await service.rotate('valid');
+
+    expect(rotated).toEqual({ userId: 'user-1', token: expect.any(String), familyId: 'family-1' });
+    expect(rotated.token).not.toBe('valid');
+    expect(db.refreshToken.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-1', familyId: 'family-1' }),
+    });
+    expect(db.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { id: 'token-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date), replacedById: 'token-2' },
+    });
+    expect(sessionService.revokeByFamily).not.toHaveBeenCalled();
+  });
+
+  it('rejects an expired token without rotating it', async () => {
+    db.refreshToken.findUnique.mockResolvedValue({
+      id: 'token-1', userId: 'user-1', familyId: 'family-1', revokedAt: null, expiresAt: new Date(Date.now() - 60_000),
+    });
+
+    await expect(service.rotate('expired')).rejects.toThrow('Refresh token has expired');
+    expect(db.refreshToken.create).not.toHaveBeenCalled();
+  });
+
+  it('ends the session when a rotated token is presented again', async () => {
+    db.refreshToken.findUnique.mockResolvedValue({
+      id: 'token-1', userId: 'user-1', familyId: 'family-1', revokedAt: new Date(), expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    await expect(service.rotate('stolen')).rejects.toThrow(UnauthorizedException);
+    expect(sessionService.revokeByFamily).toHaveBeenCalledWith('family-1');
+  });
+
+  it('ends the session when the token was rotated concurrently', async () => {
+    db.refreshToken.findUnique.mockResolvedValue({
+      id: 'token-1', userId: 'user-1', familyId: 'family-1', revokedAt: null, expiresAt: new Date(Date.now() + 60_000),
+    });
+    db.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.rotate('raced')).rejects.toThrow('Refresh token has been revoked');
+    expect(sessionService.revokeByFamily).toHaveBeenCalledWith('family-1');
+  });
+});
@@ -0,0 +1,110 @@
+import { forwardRef, Inject, Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { DbService } from '../db/db.service';
+import { hashToken } from '../common/utils/hash.util';
+import { generateSecureToken } from '../common/utils/characters.util';
+import tokenConfig from './config/token.config';
+import { SessionService } from './session.service';
+
+@Injectable()
+export class RefreshTokenService {
+    private readonly logger = new Logger(RefreshTokenService.name);
+
+    constructor(
+        private readonly dbService: DbService,
+        @Inject(tokenConfig.KEY)
+        private readonly tokenConfiguration: ConfigType<typeof tokenConfig>,
+        @Inject(forwardRef(() => SessionService))
+        private readonly sessionService: SessionService,
+    ) { }
+
+    /**
+     * Creates a refresh token for the user. Only the hash is stored, the plain
+     * token is returned once to be handed to the client.
+     * Pass a familyId to keep rotated tokens in the same login family.
+     */
+    async issue(userId: string, familyId: string = randomUUID()): Promise<{ id: string; token: string; familyId: string }> {
+        const token = generateSecureToken();
+        const expiresAt = new Date(Date.now() + this.tokenConfiguration.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+
+        const created = await this.dbService.refreshToken.create({
+            data: {
+                userId,
+                familyId,
+                tokenHash: hashToken(token),
+                expiresAt,
+            },
+        });
+
+        return { id: created.id, token, familyId };
+    }
+
+    /**
+     * Exchanges a refresh token for a new one in the same family.
+     * Presenting a token that was already rotated or revoked is treated as
+     * theft: the session owning the family is ended and the request is rejected.
+     */
+    async rotate(token: string): Promise<{ userId: string; token: string; familyId: string }> {
+        const existing = await this.dbService.refreshToken.findUnique({
+            where: { tokenHash: hashToken(token) },
+        });
+
+        if (!existing) {
+            throw new UnauthorizedException('Invalid refresh token');
+        }
+
+        if (existing.revokedAt) {
+            this.logger.warn(`Refresh token reuse detected for userId: ${existing.userId}, familyId: ${existing.familyId}`);
+            await this.sessionService.revokeByFamily(existing.familyId);
+            throw new UnauthorizedException('Refresh token has been revoked');
+        }
+
+        if (existing.expiresAt < new Date()) {
+            throw new UnauthorizedException('Refresh token has expired');
+        }
+
+        const next = await this.issue(existing.userId, existing.familyId);
+        const { count } = await this.dbService.refreshToken.updateMany({
+            where: { id: existing.id, revokedAt: null },
+            data: { revokedAt: new Date(), replacedById: next.id },
+        });
+
+        // Another request rotated the same token in the meantime
+        if (count === 0) {
+            await this.sessionService.revokeByFamily(existing.familyId);
+            throw new UnauthorizedException('Refresh token has been revoked');
+        }
+
+        return { userId: existing.userId, token: next.token, familyId: next.familyId };
+    }
+
+    /**
+     * Revokes the login family the given token belongs to. Unknown tokens are ignored.
+     * @returns The revoked family, or null for an unknown token.
+     */
+    async revoke(token: string): Promise<string | null> {
+        const existing = await this.dbService.refreshToken.findUnique({
+            where: { tokenHash: hashToken(token) },
+            select: { familyId: true },
+        });
+        if (!existing) return null;
+
+        await this.revokeFamily(existing.familyId);
+        return existing.familyId;
+    }
+
+    async revokeFamily(familyId: string): Promise<void> {
+        await this.dbService.refreshToken.updateMany({
+            where: { familyId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+    }
+
+    async revokeAllForUser(userId: string): Promise<void> {
+        await this.dbService.refreshToken.updateMany({
+            where: { userId, revokedAt: null },
+            data: { revokedAt: new Date() },
+        });
+    }
+}
@@ -0,0 +1,95 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SessionService } from './session.service';
+import { DbService } from '../db/db.service';
+import { RefreshTokenService } from './refresh-token.service';
+import tokenConfig from './config/token.config';
+
+const SESSION_ID = 'aaaaaaaaaaaaaaaaaaaaaaaa';
+const OTHER_SESSION_ID = 'bbbbbbbbbbbbbbbbbbbbbbbb';
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let db: {
+    session: { findMany: jest.Mock; findFirst: jest.Mock; findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+    user: { update: jest.Mock };
+  };
+  let refreshTokenService: { revokeFamily: jest.Mock; revokeAllForUser: jest.Mock };
+
+  beforeEach(async () => {
+    db = {
+      session: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn(),
+        findUnique: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+      },
+      user: { update: jest.fn() },
+    };
+    refreshTokenService = { revokeFamily: jest.fn(), revokeAllForUser: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        { provide: DbService, useValue: db },
+        { provide: RefreshTokenService, useValue: refreshTokenService },
+        { provide: tokenConfig.KEY, useValue: { refreshTokenTtlDays: 30 } },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('lists the sessions that can still be refreshed and marks the current one', async () => {
+    db.session.findMany.mockResolvedValue([{ id: SESSION_ID }, { id: OTHER_SESSION_ID }]);
+
+    const sessions = await service.list('user-1', OTHER_SESSION_ID);
+
+    expect(sessions).toEqual([{ id: SESSION_ID, current: false }, { id: OTHER_SESSION_ID, current: true }]);
+    const { where } = db.session.findMany.mock.calls[0][0];
+    expect(where).toEqual({ userId: 'user-1', revokedAt: null, lastSeenAt: { gte: expect.any(Date) } });
+    expect(Date.now() - where.lastSeenAt.gte.getTime()).toBeCloseTo(30 * 24 * 60 * 60 * 1000, -4);
+  });
+
+  it('ends one session of the user with its refresh tokens', async () => {
+    db.session.findFirst.mockResolvedValue({ id: SESSION_ID, familyId: 'family-1' });
+
+    await expect(service.revokeForUser('user-1', SESSION_ID)).resolves.toEqual({ message: 'Session ended' });
+
+    expect(db.session.findFirst).toHaveBeenCalledWith({ where: { id: SESSION_ID, userId: 'user-1', revokedAt: null } });
+    expect(refreshTokenService.revokeFamily).toHaveBeenCalledWith('family-1');
+    expect(db.session.updateMany).toHaveBeenCalledWith({
+      where: { familyId: 'family-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+  });
+
+  it('does not end sessions of other users', async () => {
+    db.session.findFirst.mockResolvedValue(null);
+
+    await expect(service.revokeForUser('user-2', SESSION_ID)).rejects.toThrow(NotFoundException);
+    expect(refreshTokenService.revokeFamily).not.toHaveBeenCalled();
+  });
+
+  it('ends every session of the user, access tokens included', async () => {
+    await service.revokeAllForUser('user-1');
+
+    expect(refreshTokenService.revokeAllForUser).toHaveBeenCalledWith('user-1');
+    expect(db.session.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1', revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+    expect(db.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { sessionsRevokedAt: expect.any(Date) } });
+  });
+
+  it('refuses access tokens of an ended session', async () => {
+    db.session.findUnique.mockResolvedValue({ revokedAt: new Date(), lastSeenAt: new Date() });
+
+    await expect(service.touch(SESSION_ID)).resolves.toBe(false);
+  });
+});
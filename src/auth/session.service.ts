@@ -0,0 +1,126 @@
+import { forwardRef, Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Session } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import { isObjectId } from '../common/utils/school-membership.util';
+import { RefreshTokenService } from './refresh-token.service';
+import tokenConfig from './config/token.config';
+import { ClientInfo } from './decorators/client-info.decorator';
+
+// Last-seen time is only written when older than this, to spare a write per request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+export type SessionSummary = Pick<Session, 'id' | 'userAgent' | 'ipAddress' | 'createdAt' | 'lastSeenAt'> & {
+    current: boolean;
+};
+
+/**
+ * One session per login. A session owns a refresh token family, and its id is
+ * carried by the access tokens issued for it, so revoking a session ends both.
+ */
+@Injectable()
+export class SessionService {
+    constructor(
+        private readonly dbService: DbService,
+        @Inject(forwardRef(() => RefreshTokenService))
+        private readonly refreshTokenService: RefreshTokenService,
+        @Inject(tokenConfig.KEY)
+        private readonly tokenConfiguration: ConfigType<typeof tokenConfig>,
+    ) { }
+
+    async create(userId: string, client: ClientInfo = {}): Promise<Session> {
+        return this.dbService.session.create({
+            data: {
+                userId,
+                familyId: randomUUID(),
+                userAgent: client.userAgent,
+                ipAddress: client.ipAddress,
+            },
+        });
+    }
+
+    async findByFamily(familyId: string): Promise<Session | null> {
+        return this.dbService.session.findUnique({ where: { familyId } });
+    }
+
+    /**
+     * Tells whether the session is still usable and records the activity.
+     */
+    async touch(sessionId: string, client: ClientInfo = {}): Promise<boolean> {
+        if (!isObjectId(sessionId)) return false;
+
+        const session = await this.dbService.session.findUnique({
+            where: { id: sessionId },
+            select: { revokedAt: true, lastSeenAt: true },
+        });
+        if (!session || session.revokedAt) return false;
+
+        if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+            await this.dbService.session.update({
+                where: { id: sessionId },
+                data: { lastSeenAt: new Date(), ...(client.ipAddress && { ipAddress: client.ipAddress }) },
+            });
+        }
+        return true;
+    }
+
+    /**
+     * Lists the sessions of the user that can still be refreshed, most recent first.
+     */
+    async list(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+        const refreshableSince = new Date(Date.now() - this.tokenConfiguration.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+        const sessions = await this.dbService.session.findMany({
+            where: { userId, revokedAt: null, lastSeenAt: { gte: refreshableSince } },
+            orderBy: { lastSeenAt: 'desc' },
+            select: { id: true, userAgent: true, ipAddress: true, createdAt: true, lastSeenAt: true },
+        });
+        return sessions.map(session => ({ ...session, current: session.id === currentSessionId }));
+    }
+
+    /**
+     * Ends one session of the user.
+     */
+    async revokeForUser(userId: string, sessionId: string): Promise<{ message: string }> {
+        const session = isObjectId(sessionId)
+            ? await this.dbService.session.findFirst({ where: { id: sessionId, userId, revokedAt: null } })
+            : null;
+        if (!session) {
+            throw new NotFoundException(`Session with ID "${sessionId}" not found`);
+        }
+
+        await this.revokeByFamily(session.familyId);
+        return { message: 'Session ended' };
+    }
+
+    /**
+     * Ends the session owning the refresh token family.
+     */
+    async revokeByFamily(familyId: string): Promise<void> {
+        await Promise.all([
+            this.refreshTokenService.revokeFamily(familyId),
+            this.dbService.session.updateMany({
+                where: { familyId, revokedAt: null },
+                data: { revokedAt: new Date() },
+            }),
+        ]);
+    }
+
+    /**
+     * Ends every session of the user, including access tokens that have not expired yet.
+     */
+    async revokeAllForUser(userId: string): Promise<void> {
+        const now = new Date();
+        await Promise.all([
+            this.refreshTokenService.revokeAllForUser(userId),
+            this.dbService.session.updateMany({
+                where: { userId, revokedAt: null },
+                data: { revokedAt: now },
+            }),
+            this.dbService.user.update({
+                where: { id: userId },
+                data: { sessionsRevokedAt: now },
+            }),
+        ]);
+    }
+}
@@ -1,6 +1,6 @@
 import { Inject, Injectable } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
-import { Strategy, VerifyCallback } from 'passport-google-oauth20';
+import { Profile, Strategy, VerifyCallback } from 'passport-google-oauth20';
 import googleOauthConfig from '../config/google-oauth.config';
 import { ConfigType } from '@nestjs/config';
 import { AuthService } from '../auth.service';
@@ -17,25 +17,27 @@ export class GoogleStrategy extends PassportStrategy(Strategy) {
             clientSecret: googleConfiguration.clientSecret ?? '',
             callbackURL: googleConfiguration.callbackURL ?? '',
             scope: ['email', 'profile'],
-            passReqToCallback: true,
         });
     }
 
     async validate(
         accessToken: string,
         refreshToken: string,
-        profile: any,
+        profile: Profile,
         done: VerifyCallback,
     ) {
-        console.log({ profile });
-        // const user = await this.authService.validateGoogleUser({
-        //     email: profile.emails[0].value,
-        //     firstName: profile.name.givenName,
-        //     lastName: profile.name.familyName,
-        //     avatarUrl: profile.photos[0].value,
-        //     password: '',
-        // });
-        // done(null, user);
-        // return user;
+        try {
+            const email = profile.emails?.[0];
+            const user = await this.authService.validateGoogleUser({
+                googleId: profile.id,
+                email: email?.value ?? '',
+                emailVerified: email?.verified === true,
+                name: profile.displayName || email?.value || '',
+                image: profile.photos?.[0]?.value,
+            });
+            done(null, user);
+        } catch (error) {
+            done(error, false);
+        }
     }
 }
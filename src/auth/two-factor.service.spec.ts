@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { authenticator } from 'otplib';
+import { TwoFactorService } from './two-factor.service';
+import { DbService } from '../db/db.service';
+import { LoginProtectionService } from './login-protection.service';
+import { encryptSecret } from '../common/utils/encryption.util';
+import tokenConfig from './config/token.config';
+
+const config = { ...tokenConfig(), twoFactorChallengeSecret: 'challenge-secret', twoFactorEncryptionKey: 'encryption-key' };
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let secret: string;
+  let user: Record<string, any>;
+  let db: { user: { findUnique: jest.Mock; update: jest.Mock; updateMany: jest.Mock } };
+
+  // Applies the conditional writes the service relies on to the single fake user
+  const matches = (where: Record<string, any>) => {
+    if ('twoFactorChallengeId' in where && user.twoFactorChallengeId !== where.twoFactorChallengeId) return false;
+    if (where.OR) {
+      const lastStep = user.twoFactorLastTimeStep;
+      const { lt } = where.OR.find((condition: any) => condition.twoFactorLastTimeStep?.lt !== undefined).twoFactorLastTimeStep;
+      if (lastStep !== null && lastStep !== undefined && lastStep >= lt) return false;
+    }
+    if (where.twoFactorRecoveryCodes) {
+      const { has, equals } = where.twoFactorRecoveryCodes;
+      if (!user.twoFactorRecoveryCodes.includes(has)) return false;
+      if (equals && equals.join() !== user.twoFactorRecoveryCodes.join()) return false;
+    }
+    return true;
+  };
+
+  beforeEach(async () => {
+    secret = authenticator.generateSecret();
+    user = {
+      id: 'user-1',
+      email: 'ada@example.com',
+      isActive: true,
+      twoFactorEnabled: true,
+      twoFactorSecret: encryptSecret(secret, config.twoFactorEncryptionKey),
+      twoFactorRecoveryCodes: [],
+      twoFactorLastTimeStep: null,
+      twoFactorChallengeId: null,
+    };
+    db = {
+      user: {
+        findUnique: jest.fn().mockImplementation(() => Promise.resolve({ ...user })),
+        update: jest.fn().mockImplementation(({ data }) => Promise.resolve(Object.assign(user, data))),
+        updateMany: jest.fn().mockImplementation(({ where, data }) => {
+          if (!matches(where)) return Promise.resolve({ count: 0 });
+          Object.assign(user, data);
+          return Promise.resolve({ count: 1 });
+        }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: DbService, useValue: db },
+        { provide: JwtService, useValue: new JwtService({}) },
+        { provide: LoginProtectionService, useValue: { assertCanAttempt: jest.fn(), recordFailure: jest.fn() } },
+        { provide: tokenConfig.KEY, useValue: config },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('completes a login challenge with a valid code', async () => {
+    const challengeToken = await service.createChallenge(user as any);
+
+    await expect(service.verifyChallenge({ challengeToken, code: authenticator.generate(secret) }, {}))
+      .resolves.toMatchObject({ id: 'user-1' });
+    expect(user.twoFactorChallengeId).toBeNull();
+  });
+
+  it('refuses a code that was already accepted', async () => {
+    const code = authenticator.generate(secret);
+    await service.verifyChallenge({ challengeToken: await service.createChallenge(user as any), code }, {});
+
+    await expect(service.verifyChallenge({ challengeToken: await service.createChallenge(user as any), code }, {}))
+      .rejects.toThrow('Invalid authentication code');
+  });
+
+  it('refuses a challenge that was already completed', async () => {
+    const challengeToken = await service.createChallenge(user as any);
+    await service.verifyChallenge({ challengeToken, code: authenticator.generate(secret) }, {});
+    user.twoFactorLastTimeStep = null;
+
+    await expect(service.verifyChallenge({ challengeToken, code: authenticator.generate(secret) }, {}))
+      .rejects.toThrow('Invalid or expired login challenge');
+  });
+
+  it('consumes a recovery code once', async () => {
+    const { recoveryCodes } = await service.regenerateRecoveryCodes('user-1', authenticator.generate(secret));
+
+    const challengeToken = await service.createChallenge(user as any);
+    await service.verifyChallenge({ challengeToken, recoveryCode: recoveryCodes[0] }, {});
+    expect(user.twoFactorRecoveryCodes).toHaveLength(recoveryCodes.length - 1);
+
+    await expect(service.verifyChallenge({ challengeToken: await service.createChallenge(user as any), recoveryCode: recoveryCodes[0] }, {}))
+      .rejects.toThrow('Invalid authentication code');
+  });
+});
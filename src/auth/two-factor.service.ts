@@ -0,0 +1,299 @@
+import { BadRequestException, ForbiddenException, Inject, Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { authenticator } from 'otplib';
+import { randomBytes, randomUUID } from 'crypto';
+import { User } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import { hashCode, verifyCode } from '../common/utils/hash.util';
+import { decryptSecret, encryptSecret } from '../common/utils/encryption.util';
+import { requiresTwoFactor } from '../common/utils/school-membership.util';
+import tokenConfig from './config/token.config';
+import { LoginProtectionService } from './login-protection.service';
+import { ClientInfo } from './decorators/client-info.decorator';
+import { TwoFactorLoginDto, TwoFactorSetupDto } from './dto/two-factor.dto';
+
+const TWO_FACTOR_CHALLENGE_PURPOSE = 'two-factor-challenge';
+const RECOVERY_CODE_COUNT = 10;
+
+interface TwoFactorChallengePayload {
+    sub: string;
+    purpose: typeof TWO_FACTOR_CHALLENGE_PURPOSE;
+    jti?: string;
+}
+
+@Injectable()
+export class TwoFactorService {
+    constructor(
+        private readonly dbService: DbService,
+        private readonly jwtService: JwtService,
+        private readonly loginProtectionService: LoginProtectionService,
+        @Inject(tokenConfig.KEY)
+        private readonly tokenConfiguration: ConfigType<typeof tokenConfig>,
+    ) {
+        // Accept the previous and next 30 second step to absorb clock drift
+        authenticator.options = { window: 1 };
+    }
+
+    /**
+     * Starts enrollment with a new secret. 2FA only turns on once `confirm`
+     * receives a valid code for it.
+     */
+    async setup(userId: string): Promise<TwoFactorSetupDto> {
+        const user = await this.findUser(userId);
+        if (user.twoFactorEnabled) {
+            throw new BadRequestException('Two-factor authentication is already enabled');
+        }
+
+        const secret = authenticator.generateSecret();
+        await this.dbService.user.update({
+            where: { id: user.id },
+            data: { twoFactorPendingSecret: encryptSecret(secret, this.tokenConfiguration.twoFactorEncryptionKey) },
+        });
+
+        return {
+            secret,
+            otpauthUrl: authenticator.keyuri(user.email, this.tokenConfiguration.twoFactorIssuer, secret),
+        };
+    }
+
+    /**
+     * Turns 2FA on when the code matches the pending secret.
+     * @returns The recovery codes, only shown this once.
+     */
+    async confirm(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+        const user = await this.findUser(userId);
+        if (user.twoFactorEnabled) {
+            throw new BadRequestException('Two-factor authentication is already enabled');
+        }
+
+        const secret = user.twoFactorPendingSecret
+            && decryptSecret(user.twoFactorPendingSecret, this.tokenConfiguration.twoFactorEncryptionKey);
+        if (!secret) {
+            throw new BadRequestException('Start two-factor setup first');
+        }
+        const timeStep = this.matchTimeStep(code, secret);
+        if (timeStep === null) {
+            throw new BadRequestException('Invalid authentication code');
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+        await this.dbService.user.update({
+            where: { id: user.id },
+            data: {
+                twoFactorEnabled: true,
+                twoFactorSecret: user.twoFactorPendingSecret,
+                twoFactorPendingSecret: null,
+                twoFactorRecoveryCodes: await this.hashRecoveryCodes(recoveryCodes),
+                twoFactorEnabledAt: new Date(),
+                twoFactorLastTimeStep: timeStep,
+            },
+        });
+
+        return { recoveryCodes };
+    }
+
+    /**
+     * Turns 2FA off, unless a school the user manages requires it.
+     */
+    async disable(userId: string, code: string): Promise<{ message: string }> {
+        const user = await this.findEnabledUser(userId);
+        if (!await this.useCode(user, code)) {
+            throw new BadRequestException('Invalid authentication code');
+        }
+        if (await this.isRequiredFor(user.id)) {
+            throw new ForbiddenException('A school you manage requires two-factor authentication');
+        }
+
+        await this.dbService.user.update({
+            where: { id: user.id },
+            data: {
+                twoFactorEnabled: false,
+                twoFactorSecret: null,
+                twoFactorPendingSecret: null,
+                twoFactorRecoveryCodes: [],
+                twoFactorEnabledAt: null,
+                twoFactorLastTimeStep: null,
+                twoFactorChallengeId: null,
+            },
+        });
+        return { message: 'Two-factor authentication disabled' };
+    }
+
+    /**
+     * Replaces every recovery code with new ones.
+     */
+    async regenerateRecoveryCodes(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+        const user = await this.findEnabledUser(userId);
+        if (!await this.useCode(user, code)) {
+            throw new BadRequestException('Invalid authentication code');
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+        await this.dbService.user.update({
+            where: { id: user.id },
+            data: { twoFactorRecoveryCodes: await this.hashRecoveryCodes(recoveryCodes) },
+        });
+        return { recoveryCodes };
+    }
+
+    /**
+     * Signs the short-lived token that proves the first login step succeeded.
+     * Its id is kept on the user, so only the latest challenge works, and only once.
+     */
+    async createChallenge(user: Pick<User, 'id'>): Promise<string> {
+        const jti = randomUUID();
+        await this.dbService.user.update({ where: { id: user.id }, data: { twoFactorChallengeId: jti } });
+
+        const payload: TwoFactorChallengePayload = { sub: user.id, purpose: TWO_FACTOR_CHALLENGE_PURPOSE };
+        return this.jwtService.signAsync(payload, {
+            secret: this.tokenConfiguration.twoFactorChallengeSecret,
+            expiresIn: this.tokenConfiguration.twoFactorChallengeTtl,
+            jwtid: jti,
+        });
+    }
+
+    /**
+     * Completes the second login step with an authentication or recovery code.
+     * Wrong codes count as failed logins, so they are throttled like passwords.
+     * A recovery code is consumed when used, and so is the challenge once completed.
+     */
+    async verifyChallenge(input: TwoFactorLoginDto, client: ClientInfo): Promise<User> {
+        let payload: TwoFactorChallengePayload;
+        try {
+            payload = await this.jwtService.verifyAsync<TwoFactorChallengePayload>(input.challengeToken, {
+                secret: this.tokenConfiguration.twoFactorChallengeSecret,
+            });
+        } catch {
+            throw new UnauthorizedException('Invalid or expired login challenge');
+        }
+        if (payload.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE || !payload.jti) {
+            throw new UnauthorizedException('Invalid or expired login challenge');
+        }
+
+        const user = await this.dbService.user.findUnique({ where: { id: payload.sub } });
+        if (!user || !user.isActive || !user.twoFactorEnabled || user.twoFactorChallengeId !== payload.jti) {
+            throw new UnauthorizedException('Invalid or expired login challenge');
+        }
+
+        await this.loginProtectionService.assertCanAttempt(user.email, client);
+
+        const isValid = input.code
+            ? await this.useCode(user, input.code)
+            : await this.consumeRecoveryCode(user, input.recoveryCode ?? '');
+        if (!isValid) {
+            await this.loginProtectionService.recordFailure(user.email, client, 'invalid_two_factor_code', user);
+            throw new UnauthorizedException('Invalid authentication code');
+        }
+
+        // Another request completed the same challenge in the meantime
+        const { count } = await this.dbService.user.updateMany({
+            where: { id: user.id, twoFactorChallengeId: payload.jti },
+            data: { twoFactorChallengeId: null },
+        });
+        if (count === 0) {
+            throw new UnauthorizedException('Invalid or expired login challenge');
+        }
+
+        return user;
+    }
+
+    /**
+     * Tells whether a school's policy requires 2FA for the user, as the
+     * school's creator or through one of their staff roles.
+     */
+    async isRequiredFor(userId: string): Promise<boolean> {
+        const [ownedSchools, staffEntries] = await Promise.all([
+            this.dbService.school.findMany({
+                where: { creatorId: userId, isActive: true },
+                select: { twoFactorRequiredRoles: true },
+            }),
+            this.dbService.schoolStaff.findMany({
+                where: { userId, isActive: true },
+                select: { roleTitle: true, school: { select: { twoFactorRequiredRoles: true, isActive: true } } },
+            }),
+        ]);
+
+        return ownedSchools.some(school => requiresTwoFactor(school.twoFactorRequiredRoles, ['OWNER'], []))
+            || staffEntries.some(entry =>
+                entry.school.isActive && requiresTwoFactor(entry.school.twoFactorRequiredRoles, ['STAFF'], [entry.roleTitle])
+            );
+    }
+
+    /**
+     * Accepts a code at most once: its time step is recorded, and codes of
+     * that step or an earlier one are refused afterwards.
+     */
+    private async useCode(user: User, code: string): Promise<boolean> {
+        const secret = user.twoFactorSecret
+            && decryptSecret(user.twoFactorSecret, this.tokenConfiguration.twoFactorEncryptionKey);
+        const timeStep = secret ? this.matchTimeStep(code, secret) : null;
+        if (timeStep === null) return false;
+
+        const { count } = await this.dbService.user.updateMany({
+            where: {
+                id: user.id,
+                OR: [
+                    { twoFactorLastTimeStep: { isSet: false } },
+                    { twoFactorLastTimeStep: null },
+                    { twoFactorLastTimeStep: { lt: timeStep } },
+                ],
+            },
+            data: { twoFactorLastTimeStep: timeStep },
+        });
+        return count > 0;
+    }
+
+    // The time step the code belongs to, or null when it matches none within the window
+    private matchTimeStep(code: string, secret: string): number | null {
+        const delta = authenticator.checkDelta(code, secret);
+        if (delta === null) return null;
+        const { epoch, step } = authenticator.allOptions();
+        return Math.floor(epoch / 1000 / step) + delta;
+    }
+
+    private async consumeRecoveryCode(user: User, recoveryCode: string): Promise<boolean> {
+        const normalized = recoveryCode.trim().toLowerCase();
+        for (const hashed of user.twoFactorRecoveryCodes) {
+            if (await verifyCode(normalized, hashed)) {
+                // Only one request can remove the code. The list must also be unchanged,
+                // otherwise writing it back could restore a code used concurrently
+                const { count } = await this.dbService.user.updateMany({
+                    where: { id: user.id, twoFactorRecoveryCodes: { has: hashed, equals: user.twoFactorRecoveryCodes } },
+                    data: { twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(code => code !== hashed) },
+                });
+                return count > 0;
+            }
+        }
+        return false;
+    }
+
+    private generateRecoveryCodes(): string[] {
+        return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+            const code = randomBytes(5).toString('hex');
+            return `${code.slice(0, 5)}-${code.slice(5)}`;
+        });
+    }
+
+    private async hashRecoveryCodes(codes: string[]): Promise<string[]> {
+        const hashes = await Promise.all(codes.map(code => hashCode(code)));
+        if (hashes.some(hash => !hash)) {
+            throw new BadRequestException('Could not generate recovery codes, try again');
+        }
+        return hashes as string[];
+    }
+
+    private async findUser(userId: string): Promise<User> {
+        const user = await this.dbService.user.findUnique({ where: { id: userId } });
+        if (!user) throw new NotFoundException('User not found');
+        return user;
+    }
+
+    private async findEnabledUser(userId: string): Promise<User> {
+        const user = await this.findUser(userId);
+        if (!user.twoFactorEnabled) {
+            throw new BadRequestException('Two-factor authentication is not enabled');
+        }
+        return user;
+    }
+}
@@ -1,28 +1,41 @@
 import { ZodValidationPipe } from './../common/pipes/zod-validation.pipe';
-import { Controller, Get, Post, Body, Patch, Param, Delete, Query } from '@nestjs/common';
+import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UseGuards } from '@nestjs/common';
 import { ClassService } from './class.service';
 import {  CreateClassInput, CreateClassSchema } from './dto/create-class.dto';
+import { UpdateClassInput, UpdateClassSchema } from './dto/update-class.dto';
 import { ClassType } from 'generated/prisma';
+import { JwtOrApiKeyGuard } from 'src/common/guards/jwt-or-api-key.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { SchoolRoles } from 'src/auth/decorators/school-roles.decorator';
+import { ApiKeyScopes } from 'src/auth/decorators/api-key-scopes.decorator';
 
 @Controller('class')
+@UseGuards(JwtOrApiKeyGuard, RolesGuard)
 export class ClassController {
   constructor(private readonly classService: ClassService) { }
 
   @Post()
+  @Roles('TEACHER', 'SCHOOL_ADMIN', 'SCHOOL_STAFF')
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER'], optional: true })
+  @ApiKeyScopes('classes:write')
   create(@Body(new ZodValidationPipe(CreateClassSchema)) createClassDto: CreateClassInput) {
     return this.classService.create(createClassDto);
   }
 
   @Get()
+  @ApiKeyScopes('classes:read')
   findAll(
     @Query('schoolId') schoolId?: string,
     @Query('creatorId') creatorId?: string,
     @Query('classType') classType?: ClassType,
+    @Query('includeArchived') includeArchived?: string,
   ) {
-    return this.classService.findAll(schoolId, creatorId, classType);
+    return this.classService.findAll(schoolId, creatorId, classType, includeArchived === 'true');
   }
 
   @Get('/school/:schoolId/view-data')
+  @ApiKeyScopes('classes:read')
   findAllBySchoolIdNeededData(
     @Param('schoolId') schoolId: string,
   ) {
@@ -35,11 +48,18 @@ export class ClassController {
   }
 
   @Patch(':id')
-  update(@Param('id') id: string, @Body() updateClassDto: any) {
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER'], resource: 'class' })
+  @ApiKeyScopes('classes:write')
+  update(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(UpdateClassSchema)) updateClassDto: UpdateClassInput,
+  ) {
     return this.classService.update(id, updateClassDto);
   }
 
   @Delete(':id')
+  @SchoolRoles({ members: ['OWNER', 'STAFF'], resource: 'class' })
+  @ApiKeyScopes('classes:write')
   remove(@Param('id') id: string) {
     return this.classService.remove(id);
   }
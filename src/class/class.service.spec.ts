@@ -1,12 +1,45 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ClassService } from './class.service';
+import { DbService } from '../db/db.service';
+import { UploadService } from '../upload/upload.service';
+
+const now = Date.now();
+const day = 24 * 60 * 60 * 1000;
 
 describe('ClassService', () => {
   let service: ClassService;
+  let db: {
+    class: { findMany: jest.Mock; findUnique: jest.Mock; update: jest.Mock };
+    school: { findMany: jest.Mock };
+  };
 
   beforeEach(async () => {
+    db = {
+      class: { findMany: jest.fn(), findUnique: jest.fn(), update: jest.fn() },
+      school: {
+        findMany: jest.fn().mockResolvedValue([{
+          id: 'school-1',
+          academicProfile: {
+            academicYears: [{
+              yearName: '2026',
+              startDate: new Date(now - 100 * day),
+              endDate: new Date(now + 100 * day),
+              terms: [
+                { name: 'Term 1', startDate: new Date(now - 100 * day), endDate: new Date(now - 10 * day) },
+                { name: 'Term 2', startDate: new Date(now - 5 * day), endDate: new Date(now + 50 * day) },
+              ],
+            }],
+          },
+        }]),
+      },
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ClassService],
+      providers: [
+        ClassService,
+        { provide: DbService, useValue: db },
+        { provide: UploadService, useValue: {} },
+      ],
     }).compile();
 
     service = module.get<ClassService>(ClassService);
@@ -15,4 +48,28 @@ describe('ClassService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('shows school classes in the current term rather than the one they were created in', async () => {
+    db.class.findMany.mockResolvedValue([
+      { id: 'class-1', schoolId: 'school-1', academicYearName: '2026', academicTermName: 'Term 1', startDate: null, endDate: null },
+      { id: 'class-2', schoolId: 'school-1', academicYearName: '2025', academicTermName: 'Term 3', startDate: null, endDate: null },
+      { id: 'class-3', schoolId: null, academicYearName: null, academicTermName: null, startDate: null, endDate: null },
+    ]);
+
+    const classes = await service.findAll('school-1');
+
+    expect(classes.map(found => found.academicTermName)).toEqual(['Term 2', 'Term 3', null]);
+  });
+
+  it('keeps the school and the creator of a class when it is updated', async () => {
+    db.class.findUnique.mockResolvedValue({ id: 'class-1', schoolId: 'school-1', creatorId: 'owner-1', classImage: null });
+    db.class.update.mockResolvedValue({ id: 'class-1', schoolId: 'school-1', name: 'S1 B' });
+
+    await service.update('class-1', { name: 'S1 B', schoolId: 'school-2', creatorId: 'teacher-1' } as never);
+
+    const { data } = db.class.update.mock.calls[0][0];
+    expect(data).toEqual(expect.objectContaining({ name: 'S1 B' }));
+    expect(data).not.toHaveProperty('schoolId');
+    expect(data).not.toHaveProperty('creatorId');
+  });
 });
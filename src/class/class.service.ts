@@ -2,6 +2,7 @@ import { BadRequestException, Injectable, NotFoundException } from '@nestjs/comm
 import { DbService } from 'src/db/db.service';
 import { UploadService } from 'src/upload/upload.service';
 import { generateCode, generateUsername } from 'src/common/utils/characters.util';
+import { CurrentTerm, resolveCurrentTerm, withCurrentTerm } from 'src/common/utils/academic-term.util';
 import { CreateClassInput, CreateClassSchema } from './dto/create-class.dto';
 import { ClassDto } from './dto/class.dto';
 import { ClassTypeOption, Prisma } from 'generated/prisma';
@@ -26,6 +27,7 @@ export class ClassService {
     }
 
     let imageUrl = initialImage;
+    let currentTerm: CurrentTerm | null = null;
 
     try {
       // Check if school exists if schoolId is provided
@@ -34,6 +36,7 @@ export class ClassService {
         if (!school) {
           throw new NotFoundException(`School with ID "${schoolId}" not found`);
         }
+        currentTerm = resolveCurrentTerm(school.academicProfile?.academicYears ?? []);
       }
 
       // Check if creator exists if creatorId is provided
@@ -79,6 +82,12 @@ export class ClassService {
         classType: rest.classType || 'MAIN_SCHOOL_CLASS',
       };
 
+      // School classes run for the school's current term
+      if (currentTerm) {
+        data.academicTermName = currentTerm.name;
+        data.startDate = currentTerm.startDate;
+        data.endDate = currentTerm.endDate;
+      }
       if (schoolId) data.school = { connect: { id: schoolId } };
       if (creatorId) data.creator = { connect: { id: creatorId } };
       if (primaryTeacherId) data.primaryTeacher = { connect: { id: primaryTeacherId } };
@@ -114,9 +123,10 @@ export class ClassService {
     }
   }
 
-  async findAll(schoolId?: string, creatorId?: string, classType?: ClassTypeOption) {
+  async findAll(schoolId?: string, creatorId?: string, classType?: ClassTypeOption, includeArchived = false) {
     try {
-      const where: Prisma.ClassWhereInput = {};
+      // Archived classes are left out of the school's structure unless asked for
+      const where: Prisma.ClassWhereInput = includeArchived ? {} : { archivedAt: null };
 
       if (schoolId) {
         where.schoolId = schoolId;
@@ -130,7 +140,7 @@ export class ClassService {
         where.classType = classType;
       }
 
-      return await this.dbService.class.findMany({
+      const classes = await this.dbService.class.findMany({
         where,
         orderBy: { createdAt: 'desc' },
         include: {
@@ -154,6 +164,8 @@ export class ClassService {
           }
         }
       });
+      // The stored term is the one of when the class was created
+      return await withCurrentTerm(this.dbService, classes);
 
     } catch (error) {
       console.error('Error retrieving classes:', error);
@@ -167,7 +179,7 @@ export class ClassService {
   async findAllBySchoolIdNeededData(schoolId: string) {
     try {
       const classes = await this.dbService.class.findMany({
-        where: { schoolId },
+        where: { schoolId, archivedAt: null },
         orderBy: { createdAt: 'desc' },
         select: {
           id: true,
@@ -282,12 +294,13 @@ export class ClassService {
         throw new NotFoundException(`Class not found with identifier: ${identifier}`);
       }
 
-      if (classFound.classType === "PRIVATE_TUTORING") {
-        const { classCode, ...safeClass } = classFound;
+      const [withTerm] = await withCurrentTerm(this.dbService, [classFound]);
+      if (withTerm.classType === "PRIVATE_TUTORING") {
+        const { classCode, ...safeClass } = withTerm;
         return safeClass;
       }
 
-      return classFound;
+      return withTerm;
 
     } catch (error) {
       if (error instanceof NotFoundException) {
@@ -351,11 +364,9 @@ export class ClassService {
       const updatedClass = await this.dbService.class.update({
         where: { id },
         data: {
-          schoolId: updateData.schoolId,
-          creatorId: updateClassDto.creatorId,
-          classCode: updateClassDto.code,
-          name: updateClassDto.name,
-          username: updateClassDto.username,
+          classCode: updateData.code,
+          name: updateData.name,
+          username: updateData.username,
           classImage: updateData.image,
           classType: updateData.classType === null ? undefined : updateData.classType,
 
@@ -4,15 +4,7 @@ import { ClassType } from './create-class.dto';
 // Assuming ClassType enum (or const) is defined as shown above
 
 export const UpdateClassSchema = z.object({
-  // All fields are optional for update
-  schoolId: z.string({
-    invalid_type_error: "School ID must be a string.",
-  }).optional().nullable(), // Optional ObjectId string
-
-  creatorId: z.string({
-    invalid_type_error: "Creator ID must be a string.",
-  }).optional().nullable(), // Optional ObjectId string
-
+  // All fields are optional for update. The school and the creator of a class cannot be changed
   code: z.string({
     invalid_type_error: "Class code must be a string.",
   }).min(1, { message: "Class code cannot be empty." }) // Add min length validation
@@ -0,0 +1,23 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { UserProfileSyncService } from '../user/user-profile-sync.service';
+
+/**
+ * Finds the Teacher, Student and SchoolStaff rows whose copy of the user
+ * profile drifted, and fixes them.
+ *
+ * Usage: npm run users:repair-profile-copies -- [--dry-run]
+ */
+async function bootstrap() {
+  const app = await NestFactory.createApplicationContext(AppModule, { logger: ['error', 'warn', 'log'] });
+  try {
+    const report = await app.get(UserProfileSyncService).repair(process.argv.includes('--dry-run'));
+    console.log(JSON.stringify(report, null, 2));
+  } finally {
+    await app.close();
+  }
+}
+bootstrap().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,79 @@
+import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtOrApiKeyGuard } from './jwt-or-api-key.guard';
+import { DbService } from '../../db/db.service';
+import { API_KEY_SCOPES_KEY, ApiKeyScope } from '../../auth/decorators/api-key-scopes.decorator';
+import { generateApiKey, GeneratedApiKey } from '../utils/api-key.util';
+
+describe('JwtOrApiKeyGuard', () => {
+  let generated: GeneratedApiKey;
+  let db: { apiKey: { findUnique: jest.Mock; update: jest.Mock } };
+  let request: { headers: Record<string, string>; apiKey?: unknown };
+
+  const context = {
+    getHandler: () => undefined,
+    getClass: () => undefined,
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+
+  const guardRequiring = (scopes: ApiKeyScope[]) => {
+    const reflector = new Reflector();
+    jest.spyOn(reflector, 'getAllAndOverride').mockImplementation(key => key === API_KEY_SCOPES_KEY ? scopes : undefined);
+    return new JwtOrApiKeyGuard(reflector, db as unknown as DbService);
+  };
+
+  const storedKey = (overrides: Record<string, unknown> = {}) => ({
+    id: 'key-1',
+    schoolId: 'school-1',
+    scopes: ['classes:write'],
+    keyHash: generated.keyHash,
+    lastUsedAt: null,
+    expiresAt: null,
+    revokedAt: null,
+    school: { isActive: true },
+    ...overrides,
+  });
+
+  beforeAll(async () => {
+    generated = await generateApiKey();
+  });
+
+  beforeEach(() => {
+    db = { apiKey: { findUnique: jest.fn().mockResolvedValue(storedKey()), update: jest.fn() } };
+    request = { headers: { 'x-api-key': generated.key } };
+  });
+
+  it('should be defined', () => {
+    expect(new JwtOrApiKeyGuard(new Reflector(), {} as DbService)).toBeDefined();
+  });
+
+  it('accepts a key holding the scopes of the route', async () => {
+    await expect(guardRequiring(['classes:write']).canActivate(context)).resolves.toBe(true);
+    expect(request.apiKey).toEqual({ id: 'key-1', schoolId: 'school-1', scopes: ['classes:write'] });
+    expect(db.apiKey.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { prefix: generated.prefix } }));
+  });
+
+  it('refuses a key missing a scope of the route', async () => {
+    await expect(guardRequiring(['classes:write', 'staff:write']).canActivate(context))
+      .rejects.toThrow(new ForbiddenException('This API key is missing the staff:write scope'));
+  });
+
+  it('refuses keys on routes that do not accept them', async () => {
+    await expect(guardRequiring([]).canActivate(context)).rejects.toThrow('API keys are not accepted on this route');
+  });
+
+  it('refuses a revoked key', async () => {
+    db.apiKey.findUnique.mockResolvedValue(storedKey({ revokedAt: new Date() }));
+    await expect(guardRequiring(['classes:write']).canActivate(context)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('refuses an expired key', async () => {
+    db.apiKey.findUnique.mockResolvedValue(storedKey({ expiresAt: new Date(Date.now() - 1000) }));
+    await expect(guardRequiring(['classes:write']).canActivate(context)).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('refuses a key with a wrong secret', async () => {
+    request.headers['x-api-key'] = `st_${generated.prefix}_not-the-secret`;
+    await expect(guardRequiring(['classes:write']).canActivate(context)).rejects.toThrow('Invalid API key');
+  });
+});
@@ -0,0 +1,54 @@
+import { ExecutionContext, ForbiddenException, Injectable, UnauthorizedException } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { API_KEY_SCOPES_KEY, ApiKeyScope } from "../../auth/decorators/api-key-scopes.decorator";
+import { DbService } from "../../db/db.service";
+import { API_KEY_HEADER, authenticateApiKey } from "../utils/api-key.util";
+import { PassportJswAuthGuard } from "./passport-jwt.guard";
+
+/**
+ * Authenticates with a school's API key when an `X-Api-Key` header is sent,
+ * and with a JWT otherwise. Keys are only accepted on routes marked with
+ * `@ApiKeyScopes()` and must hold every scope listed there. The key is set on
+ * `request.apiKey`, and `RolesGuard` keeps it inside its own school.
+ */
+@Injectable()
+export class JwtOrApiKeyGuard extends PassportJswAuthGuard {
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly dbService: DbService,
+    ) {
+        super();
+    }
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        const request = context.switchToHttp().getRequest();
+        const rawKey = request.headers?.[API_KEY_HEADER];
+        if (!rawKey) {
+            return super.canActivate(context) as Promise<boolean>;
+        }
+
+        const requiredScopes = this.reflector.getAllAndOverride<ApiKeyScope[] | undefined>(API_KEY_SCOPES_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+        if (!requiredScopes?.length) {
+            throw new UnauthorizedException('API keys are not accepted on this route');
+        }
+        if (typeof rawKey !== 'string') {
+            throw new UnauthorizedException('Invalid API key');
+        }
+
+        const apiKey = await authenticateApiKey(this.dbService, rawKey);
+        if (!apiKey) {
+            throw new UnauthorizedException('Invalid API key');
+        }
+
+        const missingScopes = requiredScopes.filter(scope => !apiKey.scopes.includes(scope));
+        if (missingScopes.length) {
+            throw new ForbiddenException(`This API key is missing the ${missingScopes.join(', ')} scope`);
+        }
+
+        request.apiKey = apiKey;
+        return true;
+    }
+}
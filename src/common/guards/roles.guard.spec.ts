@@ -0,0 +1,99 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RolesGuard } from './roles.guard';
+import { DbService } from '../../db/db.service';
+import { SCHOOL_ROLES_KEY, SchoolRolesOptions } from '../../auth/decorators/school-roles.decorator';
+
+const USER_ID = 'aaaaaaaaaaaaaaaaaaaaaaaa';
+const MODULE_ID = 'bbbbbbbbbbbbbbbbbbbbbbbb';
+const CLASS_ID = 'cccccccccccccccccccccccc';
+const STAFF_ID = 'dddddddddddddddddddddddd';
+
+describe('RolesGuard', () => {
+  let db: {
+    user: { findUnique: jest.Mock };
+    courseContentModule: { findUnique: jest.Mock };
+    class: { findUnique: jest.Mock };
+    school: { findUnique: jest.Mock };
+    teacher: { findUnique: jest.Mock };
+    student: { findUnique: jest.Mock };
+    schoolStaff: { findMany: jest.Mock; findUnique: jest.Mock };
+  };
+
+  const contextFor = (params: Record<string, string>): ExecutionContext => ({
+    getHandler: () => undefined,
+    getClass: () => undefined,
+    switchToHttp: () => ({ getRequest: () => ({ user: { id: USER_ID }, params }) }),
+  }) as unknown as ExecutionContext;
+
+  const apiKeyContextFor = (params: Record<string, string>, body: Record<string, unknown> = {}): ExecutionContext => ({
+    getHandler: () => undefined,
+    getClass: () => undefined,
+    switchToHttp: () => ({
+      getRequest: () => ({ apiKey: { id: 'key-1', schoolId: 'school-1', scopes: ['staff:write'] }, params, body }),
+    }),
+  }) as unknown as ExecutionContext;
+
+  const guardWith = (schoolRoles: SchoolRolesOptions) => {
+    const reflector = new Reflector();
+    jest.spyOn(reflector, 'getAllAndOverride').mockImplementation(key => key === SCHOOL_ROLES_KEY ? schoolRoles : undefined);
+    return new RolesGuard(reflector, db as unknown as DbService);
+  };
+
+  beforeEach(() => {
+    db = {
+      user: { findUnique: jest.fn().mockResolvedValue({ id: USER_ID, role: 'TEACHER', isActive: true, twoFactorEnabled: false }) },
+      courseContentModule: { findUnique: jest.fn().mockResolvedValue({ authorId: null, class: { schoolId: 'school-1' } }) },
+      class: { findUnique: jest.fn().mockResolvedValue({ schoolId: 'school-1', creatorId: null }) },
+      school: { findUnique: jest.fn().mockResolvedValue({ creatorId: 'someone-else', twoFactorRequiredRoles: [] }) },
+      teacher: { findUnique: jest.fn().mockResolvedValue({ isActive: true }) },
+      student: { findUnique: jest.fn().mockResolvedValue(null) },
+      schoolStaff: { findMany: jest.fn().mockResolvedValue([]), findUnique: jest.fn().mockResolvedValue({ schoolId: 'school-1' }) },
+    };
+  });
+
+  it('should be defined', () => {
+    expect(new RolesGuard(new Reflector(), {} as DbService)).toBeDefined();
+  });
+
+  it('lets teachers of the module school through', async () => {
+    const guard = guardWith({ members: ['TEACHER'], resource: 'module' });
+    await expect(guard.canActivate(contextFor({ id: MODULE_ID }))).resolves.toBe(true);
+  });
+
+  it('refuses members of other schools on modules', async () => {
+    db.teacher.findUnique.mockResolvedValue(null);
+    const guard = guardWith({ members: ['TEACHER'], resource: 'module' });
+    await expect(guard.canActivate(contextFor({ id: MODULE_ID }))).rejects.toThrow(ForbiddenException);
+  });
+
+  it('refuses moving a module to a class of another school', async () => {
+    db.class.findUnique.mockResolvedValue({ schoolId: 'school-2', creatorId: null });
+    const guard = guardWith({
+      members: ['TEACHER'],
+      resource: 'module',
+      param: 'moduleId',
+      sameSchoolAs: { resource: 'class', param: 'classId' },
+    });
+    await expect(guard.canActivate(contextFor({ moduleId: MODULE_ID, classId: CLASS_ID })))
+      .rejects.toThrow('The class does not belong to the same school');
+  });
+
+  it('lets an API key act on records of its school', async () => {
+    const guard = guardWith({ members: ['OWNER', 'STAFF'], resource: 'schoolStaff' });
+    await expect(guard.canActivate(apiKeyContextFor({ id: STAFF_ID }, { role: 'Bursar' }))).resolves.toBe(true);
+  });
+
+  it('refuses an API key on records of another school', async () => {
+    db.schoolStaff.findUnique.mockResolvedValue({ schoolId: 'school-2' });
+    const guard = guardWith({ members: ['OWNER', 'STAFF'], resource: 'schoolStaff' });
+    await expect(guard.canActivate(apiKeyContextFor({ id: STAFF_ID }))).rejects.toThrow(ForbiddenException);
+  });
+
+  it('refuses an API key moving a record into another school', async () => {
+    const guard = guardWith({ members: ['OWNER', 'STAFF'], resource: 'schoolStaff' });
+    await expect(guard.canActivate(apiKeyContextFor({ id: STAFF_ID }, { schoolId: 'school-2' })))
+      .rejects.toThrow('This API key does not have access to this school');
+    expect(db.schoolStaff.findUnique).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,182 @@
+import { BadRequestException, CanActivate, ExecutionContext, ForbiddenException, Injectable, NotFoundException, UnauthorizedException } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { UserRole } from "generated/prisma";
+import { ROLES_KEY } from "../../auth/decorators/roles.decorator";
+import { SCHOOL_ROLES_KEY, SchoolRolesOptions, SchoolScopedResource } from "../../auth/decorators/school-roles.decorator";
+import { DbService } from "../../db/db.service";
+import { ApiKeyPrincipal } from "../utils/api-key.util";
+import { findSchoolMembership, isObjectId } from "../utils/school-membership.util";
+
+interface SchoolScope {
+    schoolId?: string | null;
+    // Creator of a record that may live outside any school (e.g. a private class)
+    ownerId?: string | null;
+}
+
+/**
+ * Checks the platform role set with `@Roles()` and the membership in the
+ * target school set with `@SchoolRoles()`. Must run after a JWT guard so
+ * that `request.user` is populated. Platform ADMINs are always let through.
+ * Requests made with a school's API key are only kept inside that school.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly dbService: DbService,
+    ) { }
+
+    async canActivate(context: ExecutionContext) {
+        const roles = this.reflector.getAllAndOverride<UserRole[] | undefined>(ROLES_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+        const schoolRoles = this.reflector.getAllAndOverride<SchoolRolesOptions | undefined>(SCHOOL_ROLES_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+        const request = context.switchToHttp().getRequest();
+        const readParam = (param: string): string | undefined =>
+            request.params?.[param] ?? request.query?.[param] ?? request.body?.[param];
+        if (request.apiKey) return this.checkApiKeySchool(request.apiKey, readParam, request.body?.schoolId, schoolRoles);
+        if (!roles?.length && !schoolRoles) return true;
+
+        if (!request.user?.id) throw new UnauthorizedException();
+
+        // The token maps SCHOOL_ADMIN to ADMIN, so read the real role from the database
+        const user = await this.dbService.user.findUnique({
+            where: { id: request.user.id },
+            select: { id: true, role: true, isActive: true, twoFactorEnabled: true },
+        });
+        if (!user || !user.isActive) throw new UnauthorizedException();
+        if (user.role === 'ADMIN') return true;
+
+        if (roles?.length && (!user.role || !roles.includes(user.role))) {
+            throw new ForbiddenException('You do not have permission to perform this action');
+        }
+
+        if (!schoolRoles) return true;
+
+        const resource = schoolRoles.resource ?? 'school';
+        const param = schoolRoles.param ?? (resource === 'school' ? 'schoolId' : 'id');
+        const id = readParam(param);
+
+        if (!id) {
+            if (schoolRoles.optional) return true;
+            throw new BadRequestException(`Missing ${param} to check school permissions`);
+        }
+
+        const scope = await this.resolveSchoolScope(resource, id);
+        await this.assertSameSchool(scope, readParam, schoolRoles);
+        if (scope.ownerId && scope.ownerId === user.id) return true;
+        if (!scope.schoolId) {
+            throw new ForbiddenException('You do not have permission to access this resource');
+        }
+
+        const membership = await findSchoolMembership(this.dbService, user.id, scope.schoolId);
+        const allowed = membership.kinds.some(kind =>
+            schoolRoles.members.includes(kind) &&
+            (kind !== 'STAFF' || !schoolRoles.staffRoles?.length ||
+                membership.staffRoles.some(role => schoolRoles.staffRoles!.includes(role)))
+        );
+        if (!allowed) {
+            throw new ForbiddenException('You do not have permission to access this school');
+        }
+        if (membership.requiresTwoFactor && !user.twoFactorEnabled) {
+            throw new ForbiddenException('This school requires two-factor authentication, enable it to continue');
+        }
+
+        request.schoolMembership = membership;
+        return true;
+    }
+
+    /**
+     * API keys have no platform role or membership, they are only let through
+     * when the target record belongs to the key's school. Routes without
+     * `@SchoolRoles()` are checked against a `schoolId` param or query. A
+     * `schoolId` in the body must be the key's school too, so that records
+     * cannot be moved into another school.
+     */
+    private async checkApiKeySchool(
+        apiKey: ApiKeyPrincipal,
+        readParam: (param: string) => string | undefined,
+        bodySchoolId: unknown,
+        schoolRoles?: SchoolRolesOptions,
+    ): Promise<boolean> {
+        if (bodySchoolId !== undefined && bodySchoolId !== apiKey.schoolId) {
+            throw new ForbiddenException('This API key does not have access to this school');
+        }
+
+        const resource = schoolRoles?.resource ?? 'school';
+        const param = schoolRoles?.param ?? (resource === 'school' ? 'schoolId' : 'id');
+        const id = readParam(param);
+        if (!id) {
+            throw new BadRequestException(`Missing ${param}, API keys can only act within their school`);
+        }
+
+        const scope = await this.resolveSchoolScope(resource, id);
+        if (scope.schoolId !== apiKey.schoolId) {
+            throw new ForbiddenException('This API key does not have access to this school');
+        }
+        await this.assertSameSchool(scope, readParam, schoolRoles);
+        return true;
+    }
+
+    private async assertSameSchool(
+        scope: SchoolScope,
+        readParam: (param: string) => string | undefined,
+        schoolRoles?: SchoolRolesOptions,
+    ): Promise<void> {
+        if (!schoolRoles?.sameSchoolAs) return;
+        const { resource, param } = schoolRoles.sameSchoolAs;
+        const id = readParam(param);
+        if (!id) {
+            throw new BadRequestException(`Missing ${param} to check school permissions`);
+        }
+        const other = await this.resolveSchoolScope(resource, id);
+        if (!other.schoolId || other.schoolId !== scope.schoolId) {
+            throw new ForbiddenException(`The ${resource} does not belong to the same school`);
+        }
+    }
+
+    private async resolveSchoolScope(resource: SchoolScopedResource, id: string): Promise<SchoolScope> {
+        if (!isObjectId(id)) {
+            throw new BadRequestException(`Invalid ${resource} ID format.`);
+        }
+
+        let scope: SchoolScope | null;
+        switch (resource) {
+            case 'school':
+                scope = await this.dbService.school.findUnique({ where: { id }, select: { id: true } })
+                    .then(school => school && { schoolId: school.id });
+                break;
+            case 'class':
+                scope = await this.dbService.class.findUnique({ where: { id }, select: { schoolId: true, creatorId: true } })
+                    .then(found => found && { schoolId: found.schoolId, ownerId: found.creatorId });
+                break;
+            case 'module':
+                scope = await this.dbService.courseContentModule.findUnique({
+                    where: { id },
+                    select: { authorId: true, class: { select: { schoolId: true } } },
+                }).then(found => found && { schoolId: found.class?.schoolId, ownerId: found.authorId });
+                break;
+            case 'student':
+                scope = await this.dbService.student.findUnique({ where: { id }, select: { schoolId: true } });
+                break;
+            case 'teacher':
+                scope = await this.dbService.teacher.findUnique({ where: { id }, select: { schoolId: true } });
+                break;
+            case 'schoolStaff':
+                scope = await this.dbService.schoolStaff.findUnique({ where: { id }, select: { schoolId: true } });
+                break;
+            case 'schoolJoinRequest':
+                scope = await this.dbService.schoolJoinRequest.findUnique({ where: { id }, select: { schoolId: true } });
+                break;
+        }
+
+        if (!scope) {
+            throw new NotFoundException(`${resource} with ID "${id}" not found`);
+        }
+        return scope;
+    }
+}
@@ -0,0 +1,64 @@
+import { CallHandler, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of } from 'rxjs';
+import { ImpersonationInterceptor } from './impersonation.interceptor';
+import { ImpersonationService } from '../../auth/impersonation.service';
+import { BLOCK_IMPERSONATION_KEY } from '../../auth/decorators/block-impersonation.decorator';
+
+describe('ImpersonationInterceptor', () => {
+  let impersonationService: { record: jest.Mock };
+  let handler: CallHandler;
+
+  const contextFor = (user: Record<string, unknown>): ExecutionContext => ({
+    getHandler: () => undefined,
+    getClass: () => undefined,
+    switchToHttp: () => ({
+      getRequest: () => ({ user, method: 'PATCH', originalUrl: '/user/target-1', headers: {} }),
+      getResponse: () => ({ statusCode: 200 }),
+    }),
+  }) as unknown as ExecutionContext;
+
+  const interceptorFor = (blocked: boolean) => {
+    const reflector = new Reflector();
+    jest.spyOn(reflector, 'getAllAndOverride').mockImplementation(key => key === BLOCK_IMPERSONATION_KEY ? blocked : undefined);
+    return new ImpersonationInterceptor(reflector, impersonationService as unknown as ImpersonationService);
+  };
+
+  beforeEach(() => {
+    impersonationService = { record: jest.fn() };
+    handler = { handle: jest.fn(() => of({ ok: true })) };
+  });
+
+  it('should be defined', () => {
+    expect(new ImpersonationInterceptor(new Reflector(), {} as ImpersonationService)).toBeDefined();
+  });
+
+  it('refuses routes marked with @BlockImpersonation and records the attempt', () => {
+    const interceptor = interceptorFor(true);
+
+    expect(() => interceptor.intercept(contextFor({ id: 'target-1', impersonatedBy: 'admin-1' }), handler))
+      .toThrow(ForbiddenException);
+    expect(handler.handle).not.toHaveBeenCalled();
+    expect(impersonationService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ adminId: 'admin-1', targetUserId: 'target-1', statusCode: 403 }),
+      expect.anything(),
+    );
+  });
+
+  it('records every impersonated request', async () => {
+    const response = interceptorFor(false).intercept(contextFor({ id: 'target-1', impersonatedBy: 'admin-1' }), handler);
+
+    await expect(lastValueFrom(response)).resolves.toEqual({ ok: true });
+    expect(impersonationService.record).toHaveBeenCalledWith(
+      { adminId: 'admin-1', targetUserId: 'target-1', action: 'request', method: 'PATCH', path: '/user/target-1', statusCode: 200 },
+      expect.anything(),
+    );
+  });
+
+  it('leaves regular requests alone, on blocked routes too', async () => {
+    const response = interceptorFor(true).intercept(contextFor({ id: 'user-1' }), handler);
+
+    await expect(lastValueFrom(response)).resolves.toEqual({ ok: true });
+    expect(impersonationService.record).not.toHaveBeenCalled();
+  });
+});
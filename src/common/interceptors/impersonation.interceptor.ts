@@ -0,0 +1,49 @@
+import { CallHandler, ExecutionContext, ForbiddenException, Injectable, NestInterceptor } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { Observable, tap } from "rxjs";
+import { BLOCK_IMPERSONATION_KEY } from "../../auth/decorators/block-impersonation.decorator";
+import { ImpersonationService } from "../../auth/impersonation.service";
+
+/**
+ * Applies to requests made with an impersonation token: refuses routes marked
+ * with `@BlockImpersonation()` and records every request in the audit log.
+ * Runs after the guards, so `request.user` is populated by then.
+ */
+@Injectable()
+export class ImpersonationInterceptor implements NestInterceptor {
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly impersonationService: ImpersonationService,
+    ) { }
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+        const request = context.switchToHttp().getRequest();
+        const adminId: string | undefined = request?.user?.impersonatedBy;
+        if (!adminId) return next.handle();
+
+        const record = (statusCode: number) => this.impersonationService.record({
+            adminId,
+            targetUserId: request.user.id,
+            action: 'request',
+            method: request.method,
+            path: request.originalUrl ?? request.url,
+            statusCode,
+        }, { ipAddress: request.ip, userAgent: request.headers?.['user-agent'] });
+
+        const blocked = this.reflector.getAllAndOverride<boolean | undefined>(BLOCK_IMPERSONATION_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+        if (blocked) {
+            void record(403);
+            throw new ForbiddenException('This action is not allowed while impersonating a user');
+        }
+
+        return next.handle().pipe(
+            tap({
+                next: () => void record(context.switchToHttp().getResponse()?.statusCode ?? 200),
+                error: error => void record(error?.status ?? 500),
+            }),
+        );
+    }
+}
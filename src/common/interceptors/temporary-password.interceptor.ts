@@ -0,0 +1,28 @@
+import { CallHandler, ExecutionContext, ForbiddenException, Injectable, NestInterceptor } from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { Observable } from "rxjs";
+import { ALLOW_TEMPORARY_PASSWORD_KEY } from "../../auth/decorators/allow-temporary-password.decorator";
+
+/**
+ * Refuses authenticated requests of users who must change their temporary
+ * password, e.g. accounts created by a roster import, except on routes marked
+ * with `@AllowTemporaryPassword()`. Admins impersonating them are let through.
+ */
+@Injectable()
+export class TemporaryPasswordInterceptor implements NestInterceptor {
+    constructor(private readonly reflector: Reflector) { }
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+        const user = context.switchToHttp().getRequest()?.user;
+        if (!user?.mustChangePassword || user.impersonatedBy) return next.handle();
+
+        const allowed = this.reflector.getAllAndOverride<boolean | undefined>(ALLOW_TEMPORARY_PASSWORD_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+        if (!allowed) {
+            throw new ForbiddenException('Change your temporary password to continue');
+        }
+        return next.handle();
+    }
+}
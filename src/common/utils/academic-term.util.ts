@@ -0,0 +1,76 @@
+import { SchoolAcademicYearInfo } from 'generated/prisma';
+import { DbService } from '../../db/db.service';
+
+export interface CurrentTerm {
+  yearName: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  // False when the school is between terms and this is the next one to start
+  inProgress: boolean;
+}
+
+/**
+ * Picks the term running at `now`, or the next one to start when the school
+ * is between terms.
+ *
+ * @param academicYears The school's academic years.
+ * @param now The moment to look at, defaults to the current time.
+ * @returns The term, or null when there is no running or upcoming term.
+ */
+export function resolveCurrentTerm(academicYears: SchoolAcademicYearInfo[], now = new Date()): CurrentTerm | null {
+  const terms = academicYears
+    .flatMap(year => year.terms.map(term => ({ yearName: year.yearName, ...term })))
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+  const running = terms.find(term => term.startDate <= now && now <= term.endDate);
+  if (running) return { ...running, inProgress: true };
+
+  const upcoming = terms.find(term => term.startDate > now);
+  return upcoming ? { ...upcoming, inProgress: false } : null;
+}
+
+/**
+ * Looks up the current term of a school, see `resolveCurrentTerm`.
+ */
+export async function findCurrentTerm(db: DbService, schoolId: string, now = new Date()): Promise<CurrentTerm | null> {
+  const school = await db.school.findUnique({ where: { id: schoolId }, select: { academicProfile: true } });
+  return resolveCurrentTerm(school?.academicProfile?.academicYears ?? [], now);
+}
+
+interface ClassTermFields {
+  schoolId: string | null;
+  academicYearName: string | null;
+  academicTermName: string | null;
+  startDate: Date | null;
+  endDate: Date | null;
+}
+
+/**
+ * Fills in the current term of each class's school, so that school classes
+ * follow the calendar instead of keeping the term they were created in.
+ * Classes of another academic year, e.g. last year's archived ones, keep
+ * their own term.
+ *
+ * @param db The database service.
+ * @param classes The classes as read from the database.
+ * @param now The moment to look at, defaults to the current time.
+ * @returns The classes, with the term fields of the current term where it applies.
+ */
+export async function withCurrentTerm<T extends ClassTermFields>(db: DbService, classes: T[], now = new Date()): Promise<T[]> {
+  const schoolIds = [...new Set(classes.map(found => found.schoolId).filter((id): id is string => !!id))];
+  if (schoolIds.length === 0) return classes;
+
+  const schools = await db.school.findMany({
+    where: { id: { in: schoolIds } },
+    select: { id: true, academicProfile: { select: { academicYears: true } } },
+  });
+  const currentTerms = new Map(schools.map(school =>
+    [school.id, resolveCurrentTerm(school.academicProfile?.academicYears ?? [], now)]));
+
+  return classes.map(found => {
+    const term = found.schoolId ? currentTerms.get(found.schoolId) : null;
+    if (!term || (found.academicYearName && found.academicYearName !== term.yearName)) return found;
+    return { ...found, academicTermName: term.name, startDate: term.startDate, endDate: term.endDate };
+  });
+}
@@ -0,0 +1,65 @@
+import { randomBytes } from 'crypto';
+import { DbService } from '../../db/db.service';
+import { generateSecureToken } from './characters.util';
+import { hashCode, verifyCode } from './hash.util';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+// Last-used time is only written when older than this, to spare a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const API_KEY_PATTERN = /^st_([0-9a-f]{16})_([A-Za-z0-9_-]+)$/;
+
+// What an authenticated API key request carries in `request.apiKey`
+export interface ApiKeyPrincipal {
+  id: string;
+  schoolId: string;
+  scopes: string[];
+}
+
+export interface GeneratedApiKey {
+  key: string;
+  prefix: string;
+  keyHash: string;
+}
+
+/**
+ * Creates a key of the form `st_<prefix>_<secret>`. The prefix is stored in
+ * clear to find the key, the secret only as an Argon2 hash.
+ */
+export async function generateApiKey(): Promise<GeneratedApiKey> {
+  const prefix = randomBytes(8).toString('hex');
+  const secret = generateSecureToken(32);
+  const keyHash = await hashCode(secret);
+  if (!keyHash) throw new Error('Failed to hash the API key');
+  return { key: `st_${prefix}_${secret}`, prefix, keyHash };
+}
+
+/**
+ * Finds the active key matching a raw `X-Api-Key` value and records its use.
+ *
+ * @param db The database service.
+ * @param rawKey The key as sent by the client.
+ * @returns The key's school and scopes, or null when the key is unknown, revoked or expired.
+ */
+export async function authenticateApiKey(db: DbService, rawKey: string): Promise<ApiKeyPrincipal | null> {
+  const match = API_KEY_PATTERN.exec(rawKey.trim());
+  if (!match) return null;
+  const [, prefix, secret] = match;
+
+  const apiKey = await db.apiKey.findUnique({
+    where: { prefix },
+    select: {
+      id: true, schoolId: true, scopes: true, keyHash: true, lastUsedAt: true,
+      expiresAt: true, revokedAt: true, school: { select: { isActive: true } },
+    },
+  });
+  if (!apiKey || apiKey.revokedAt || !apiKey.school.isActive) return null;
+  if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) return null;
+  if (!(await verifyCode(secret, apiKey.keyHash))) return null;
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await db.apiKey.update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } });
+  }
+  return { id: apiKey.id, schoolId: apiKey.schoolId, scopes: apiKey.scopes };
+}
@@ -1,13 +1,42 @@
+import { randomBytes, randomInt } from "crypto";
+
 export function generateUsername(name: string): string {
   const randomSuffix = Math.floor(100 + Math.random() * 900);
   const username = name.trim().toLowerCase().replace(/\s+/g, '_');
   return `${username}_${randomSuffix}`;
 }
 
-export function generateCode(): string {
+// School invitation codes let anyone join a school, long enough that they cannot be guessed
+export const INVITATION_CODE_LENGTH = 10;
+
+export function generateCode(length = 5): string {
   const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
   return Array.from(
-    { length: 5 },
-    () => chars[Math.floor(Math.random() * chars.length)]
+    { length },
+    () => chars[randomInt(chars.length)]
   ).join("");
-}
\ No newline at end of file
+}
+
+export function generateSecureToken(bytes = 48): string {
+  return randomBytes(bytes).toString("base64url");
+}
+
+// Look-alike characters (0/O, 1/l/I) are left out, these passwords are often copied by hand
+const PASSWORD_CHARACTER_SETS = ["abcdefghijkmnopqrstuvwxyz", "ABCDEFGHJKLMNPQRSTUVWXYZ", "23456789", "!@#$%*?"];
+
+/**
+ * Generates a random password holding at least one lowercase letter, uppercase
+ * letter, digit and symbol, so that it passes the password policy.
+ */
+export function generateTemporaryPassword(length = 12): string {
+  const all = PASSWORD_CHARACTER_SETS.join("");
+  const characters = PASSWORD_CHARACTER_SETS.map(set => set[randomInt(set.length)]);
+  while (characters.length < length) {
+    characters.push(all[randomInt(all.length)]);
+  }
+  for (let i = characters.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1);
+    [characters[i], characters[j]] = [characters[j], characters[i]];
+  }
+  return characters.join("");
+}
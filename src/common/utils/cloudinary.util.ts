@@ -0,0 +1,16 @@
+/**
+ * Reads the Cloudinary public id ("<folder>/<name>") out of an uploaded image url.
+ *
+ * @param imageUrl The url stored on the record.
+ * @returns The public id, or null when the image is not hosted on Cloudinary.
+ */
+export function extractCloudinaryPublicId(imageUrl?: string | null): string | null {
+  if (!imageUrl || !imageUrl.includes('cloudinary')) return null;
+
+  const parts = imageUrl.split('/');
+  const filename = parts[parts.length - 1];
+  const publicId = filename.split('.')[0];
+  const folder = parts[parts.length - 2];
+
+  return `${folder}/${publicId}`;
+}
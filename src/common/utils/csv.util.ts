@@ -0,0 +1,78 @@
+// Cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_PREFIXES = ['=', '+', '-', '@'];
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value) && value.every(item => typeof item !== 'object' || item === null)) {
+    return value.join('; ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+
+  const text = String(value);
+  return typeof value === 'string' && FORMULA_PREFIXES.includes(text[0]) ? `'${text}` : text;
+}
+
+function escapeCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes rows as CSV, with one column per key found in any row.
+ * Dates are written as ISO strings, lists of values joined with "; " and
+ * nested objects as JSON.
+ */
+export function toCsv(rows: Record<string, unknown>[]): string {
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  const lines = [
+    columns.map(escapeCell).join(','),
+    ...rows.map(row => columns.map(column => escapeCell(formatCell(row[column]))).join(',')),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Reads CSV text into rows of cells, handling quoted cells with commas,
+ * escaped quotes and line breaks. A leading byte order mark is ignored, empty
+ * lines are kept as rows with a single empty cell so that line numbers hold.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,66 @@
+export const DATE_FORMATS = ['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD', 'D MMMM YYYY'] as const;
+
+export type DateFormat = typeof DATE_FORMATS[number];
+
+export interface DateDisplayOptions {
+  timezone?: string | null;
+  dateFormat?: string | null;
+  language?: string | null;
+}
+
+// Used when the user has not picked a timezone, or picked one the runtime does not know
+const FALLBACK_TIMEZONE = 'UTC';
+
+const LOCALES: Record<string, string> = {
+  en: 'en-GB',
+  fr: 'fr-FR',
+  rw: 'rw-RW',
+};
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Renders a date in the user's timezone and date format, for API responses
+ * and outgoing messages. With `withTime`, the 24-hour time and the timezone
+ * name are appended, e.g. "05/03/2025 14:30 (Africa/Kigali)".
+ */
+export function formatDate(date: Date, options: DateDisplayOptions = {}, { withTime = false } = {}): string {
+  const timeZone = options.timezone && isValidTimezone(options.timezone) ? options.timezone : FALLBACK_TIMEZONE;
+  const locale = LOCALES[options.language ?? ''] ?? LOCALES.en;
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date).map(part => [part.type, part.value]),
+  );
+
+  let text: string;
+  switch (options.dateFormat) {
+    case 'MM/DD/YYYY':
+      text = `${parts.month}/${parts.day}/${parts.year}`;
+      break;
+    case 'YYYY-MM-DD':
+      text = `${parts.year}-${parts.month}-${parts.day}`;
+      break;
+    case 'D MMMM YYYY':
+      text = new Intl.DateTimeFormat(locale, { timeZone, day: 'numeric', month: 'long', year: 'numeric' }).format(date);
+      break;
+    default:
+      text = `${parts.day}/${parts.month}/${parts.year}`;
+  }
+
+  return withTime ? `${text} ${parts.hour}:${parts.minute} (${timeZone})` : text;
+}
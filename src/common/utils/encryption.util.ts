@@ -0,0 +1,38 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+
+const deriveKey = (secret: string): Buffer => createHash("sha256").update(secret).digest();
+
+/**
+ * Encrypts a short secret (e.g. a TOTP seed) that has to be read back later,
+ * so it cannot be hashed.
+ *
+ * @param plainText The value to encrypt.
+ * @param secret The application secret the key is derived from.
+ * @returns `iv.authTag.cipherText`, each part base64url encoded.
+ */
+export function encryptSecret(plainText: string, secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, deriveKey(secret), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString("base64url")).join(".");
+}
+
+/**
+ * Decrypts a value produced by `encryptSecret`.
+ *
+ * @param payload The encrypted value.
+ * @param secret The application secret the key is derived from.
+ * @returns The plain value, or null when the payload is malformed or was encrypted with another secret.
+ */
+export function decryptSecret(payload: string, secret: string): string | null {
+  try {
+    const [iv, authTag, encrypted] = payload.split(".").map(part => Buffer.from(part, "base64url"));
+    const decipher = createDecipheriv(ALGORITHM, deriveKey(secret), iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+  } catch {
+    return null;
+  }
+}
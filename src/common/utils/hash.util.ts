@@ -1,4 +1,5 @@
 import * as argon2 from "argon2";
+import { createHash } from "crypto";
 
 const SECRET_KEY = process.env.SECRETE_KEY;
 
@@ -61,3 +62,14 @@ export async function changeCode(plainCode: string): Promise<string | null> {
   // This function simply calls hashCode to get the secure representation.
   return hashCode(plainCode);
 }
+
+/**
+ * Hashes a random, high-entropy token (refresh tokens, reset links...) with SHA-256.
+ * Unlike Argon2 the result is deterministic, so the hash can be looked up directly.
+ *
+ * @param token The plain token to hash.
+ * @returns The hex encoded SHA-256 digest of the token.
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
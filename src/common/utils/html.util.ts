@@ -0,0 +1,14 @@
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escapes text chosen by users, like names, before it is placed in an HTML email.
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, character => HTML_ENTITIES[character]);
+}
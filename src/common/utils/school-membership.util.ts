@@ -0,0 +1,105 @@
+import { DbService } from '../../db/db.service';
+
+export type SchoolMemberKind = 'OWNER' | 'STAFF' | 'TEACHER' | 'STUDENT';
+
+export interface SchoolMembership {
+  schoolId: string;
+  kinds: SchoolMemberKind[];
+  staffRoles: string[];
+  // The school requires two-factor authentication for one of the roles held
+  requiresTwoFactor: boolean;
+}
+
+export const isObjectId = (value?: string | null): value is string =>
+  !!value && /^[0-9a-fA-F]{24}$/.test(value);
+
+/**
+ * Collects every way a user belongs to a school: as its creator, as staff
+ * (with the role titles held), as a teacher or as a student.
+ * Inactive role rows are ignored.
+ *
+ * @param db The database service.
+ * @param userId The user to look up.
+ * @param schoolId The school to check membership in.
+ * @returns The membership, with an empty `kinds` list when the user does not belong to the school.
+ */
+export async function findSchoolMembership(db: DbService, userId: string, schoolId: string): Promise<SchoolMembership> {
+  const [school, staffEntries, teacher, student] = await Promise.all([
+    db.school.findUnique({ where: { id: schoolId }, select: { creatorId: true, twoFactorRequiredRoles: true } }),
+    db.schoolStaff.findMany({ where: { userId, schoolId, isActive: true }, select: { roleTitle: true } }),
+    db.teacher.findUnique({ where: { userId_schoolId: { userId, schoolId } }, select: { isActive: true } }),
+    db.student.findUnique({ where: { userId_schoolId: { userId, schoolId } }, select: { isActive: true } }),
+  ]);
+
+  const kinds: SchoolMemberKind[] = [];
+  if (school?.creatorId === userId) kinds.push('OWNER');
+  if (staffEntries.length > 0) kinds.push('STAFF');
+  if (teacher?.isActive) kinds.push('TEACHER');
+  if (student?.isActive) kinds.push('STUDENT');
+
+  const staffRoles = staffEntries.map(entry => entry.roleTitle);
+  return {
+    schoolId,
+    kinds,
+    staffRoles,
+    requiresTwoFactor: requiresTwoFactor(school?.twoFactorRequiredRoles ?? [], kinds, staffRoles),
+  };
+}
+
+/**
+ * Tells whether a school's two-factor policy applies to a member. The policy
+ * lists staff role titles, and "SCHOOL_ADMIN" for the school's creator.
+ */
+export function requiresTwoFactor(requiredRoles: string[], kinds: SchoolMemberKind[], staffRoles: string[]): boolean {
+  if (requiredRoles.length === 0) return false;
+  if (kinds.includes('OWNER') && requiredRoles.includes('SCHOOL_ADMIN')) return true;
+  return staffRoles.some(role => requiredRoles.includes(role));
+}
+
+export interface SchoolMembershipSummary {
+  id: string;
+  name: string;
+  username: string;
+  logo: string | null;
+  kinds: SchoolMemberKind[];
+  staffRoles: string[];
+}
+
+/**
+ * Lists every active school a user holds a staff, teacher or student entry in,
+ * merging the entries of the same school into a single summary.
+ *
+ * @param db The database service.
+ * @param userId The user to look up.
+ * @returns One summary per school, in no particular order.
+ */
+export async function findUserSchools(db: DbService, userId: string): Promise<SchoolMembershipSummary[]> {
+  const schoolSelect = { id: true, name: true, username: true, logo: true, isActive: true };
+  const [staffEntries, teacherEntries, studentEntries] = await Promise.all([
+    db.schoolStaff.findMany({ where: { userId, isActive: true }, select: { roleTitle: true, school: { select: schoolSelect } } }),
+    db.teacher.findMany({ where: { userId, isActive: true }, select: { school: { select: schoolSelect } } }),
+    db.student.findMany({ where: { userId, isActive: true }, select: { school: { select: schoolSelect } } }),
+  ]);
+
+  const summaries = new Map<string, SchoolMembershipSummary>();
+  const add = (school: typeof staffEntries[number]['school'], kind: SchoolMemberKind, staffRole?: string) => {
+    if (!school.isActive) return;
+    const summary = summaries.get(school.id) ?? {
+      id: school.id,
+      name: school.name,
+      username: school.username,
+      logo: school.logo,
+      kinds: [],
+      staffRoles: [],
+    };
+    if (!summary.kinds.includes(kind)) summary.kinds.push(kind);
+    if (staffRole) summary.staffRoles.push(staffRole);
+    summaries.set(school.id, summary);
+  };
+
+  staffEntries.forEach(entry => add(entry.school, 'STAFF', entry.roleTitle));
+  teacherEntries.forEach(entry => add(entry.school, 'TEACHER'));
+  studentEntries.forEach(entry => add(entry.school, 'STUDENT'));
+
+  return [...summaries.values()];
+}
@@ -0,0 +1,8 @@
+import { registerAs } from "@nestjs/config"
+
+export default registerAs("invitationCode", () => ({
+    // Wrong codes allowed within the window, every guess costs several hash checks
+    maxFailuresPerUser: Number(process.env.INVITATION_CODE_MAX_FAILURES_PER_USER ?? 5),
+    maxFailuresPerSchool: Number(process.env.INVITATION_CODE_MAX_FAILURES_PER_SCHOOL ?? 50),
+    failureWindowMinutes: Number(process.env.INVITATION_CODE_FAILURE_WINDOW_MINUTES ?? 15),
+}))
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { SchoolJoinRequestRole } from 'generated/prisma';
+
+export const InvitationCodeRoleSchema = z.preprocess(
+  role => typeof role === 'string' ? role.toUpperCase() : role,
+  z.nativeEnum(SchoolJoinRequestRole, { errorMap: () => ({ message: 'Role must be STUDENT, TEACHER, STAFF or PARENT' }) }),
+);
+
+export const IssueInvitationCodeSchema = z.object({
+  expiresAt: z.coerce.date().refine(date => date > new Date(), {
+    message: 'Expiry date must be in the future',
+  }).optional(),
+  maxUses: z.number().int().min(1, { message: 'A code must allow at least one use' }).optional(),
+});
+
+export type IssueInvitationCodeDto = z.infer<typeof IssueInvitationCodeSchema>;
+
+export interface InvitationCodeStatus {
+  role: SchoolJoinRequestRole;
+  active: boolean;
+  expiresAt: Date | null;
+  maxUses: number | null;
+  uses: number;
+  createdAt: Date | null;
+}
+
+// Only returned when the code is generated, the school keeps its hash
+export interface IssuedInvitationCode extends InvitationCodeStatus {
+  code: string;
+}
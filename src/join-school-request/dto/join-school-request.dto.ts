@@ -15,7 +15,14 @@ export type CreateJoinSchoolRequestDto = z.infer<typeof CreateJoinSchoolRequest>
 export const sendAdministrationJoinRequestsSchema = z.object({
   attempted: z.number(),
   created: z.number(),
-  message: z.string().min(1)
+  message: z.string().min(1),
+  invitations: z.array(z.object({
+    requestId: z.string(),
+    email: z.string(),
+    role: z.enum(['TEACHER', 'STUDENT', 'STAFF', 'PARENT']),
+    link: z.string(),
+    emailSent: z.boolean(),
+  })),
 })
 
 export type sendAdministrationJoinRequestsDto = z.infer<typeof sendAdministrationJoinRequestsSchema>
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+export const SchoolInvitationTokenSchema = z.object({
+  token: z.string().min(1, { message: 'Invitation token is required' }),
+});
+
+export type SchoolInvitationTokenDto = z.infer<typeof SchoolInvitationTokenSchema>;
+
+// Registration of a new person from an invitation, the email comes from the invitation itself
+export const InvitationRegisterSchema = SchoolInvitationTokenSchema.extend({
+  name: z.string().trim().min(1, { message: 'Name is required' }).optional(),
+  password: z.string().min(8, { message: 'Minimum 8 characters' }),
+});
+
+export type InvitationRegisterDto = z.infer<typeof InvitationRegisterSchema>;
@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { InvitationCodeController } from './invitation-code.controller';
+import { InvitationCodeService } from './invitation-code.service';
+import { DbService } from '../db/db.service';
+
+describe('InvitationCodeController', () => {
+  let controller: InvitationCodeController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [InvitationCodeController],
+      providers: [
+        { provide: InvitationCodeService, useValue: {} },
+        { provide: DbService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<InvitationCodeController>(InvitationCodeController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,64 @@
+import { Body, Controller, Delete, Get, Param, Post, Query, Request, UseGuards } from '@nestjs/common';
+import { SchoolJoinRequestRole } from 'generated/prisma';
+import { InvitationCodeService } from './invitation-code.service';
+import {
+  InvitationCodeRoleSchema,
+  IssueInvitationCodeDto,
+  IssueInvitationCodeSchema,
+} from './dto/invitation-code.dto';
+import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
+import { PassportJswAuthGuard } from '../common/guards/passport-jwt.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { SchoolRoles } from '../auth/decorators/school-roles.decorator';
+import { AuthUserDto } from '../user/dto/user.dto';
+
+// People join with a code through POST /school-join-requests/join
+@Controller('school/:schoolId/invitation-codes')
+@UseGuards(PassportJswAuthGuard, RolesGuard)
+@SchoolRoles({ members: ['OWNER', 'STAFF'] })
+export class InvitationCodeController {
+  constructor(private readonly invitationCodeService: InvitationCodeService) { }
+
+  @Get()
+  findAll(@Param('schoolId') schoolId: string) {
+    return this.invitationCodeService.findAll(schoolId);
+  }
+
+  // GET /school/:schoolId/invitation-codes/usages?role=STUDENT
+  @Get('usages')
+  findUsages(
+    @Param('schoolId') schoolId: string,
+    @Query('role', new ZodValidationPipe(InvitationCodeRoleSchema.optional())) role?: SchoolJoinRequestRole,
+  ) {
+    return this.invitationCodeService.findUsages(schoolId, role);
+  }
+
+  // The plain code is only in this response
+  @Post(':role')
+  generate(
+    @Request() request: { user: AuthUserDto },
+    @Param('schoolId') schoolId: string,
+    @Param('role', new ZodValidationPipe(InvitationCodeRoleSchema)) role: SchoolJoinRequestRole,
+    @Body(new ZodValidationPipe(IssueInvitationCodeSchema)) issueInvitationCodeDto: IssueInvitationCodeDto,
+  ) {
+    return this.invitationCodeService.generate(schoolId, role, request.user.id, issueInvitationCodeDto);
+  }
+
+  @Post(':role/rotate')
+  rotate(
+    @Request() request: { user: AuthUserDto },
+    @Param('schoolId') schoolId: string,
+    @Param('role', new ZodValidationPipe(InvitationCodeRoleSchema)) role: SchoolJoinRequestRole,
+    @Body(new ZodValidationPipe(IssueInvitationCodeSchema)) issueInvitationCodeDto: IssueInvitationCodeDto,
+  ) {
+    return this.invitationCodeService.rotate(schoolId, role, request.user.id, issueInvitationCodeDto);
+  }
+
+  @Delete(':role')
+  revoke(
+    @Param('schoolId') schoolId: string,
+    @Param('role', new ZodValidationPipe(InvitationCodeRoleSchema)) role: SchoolJoinRequestRole,
+  ) {
+    return this.invitationCodeService.revoke(schoolId, role);
+  }
+}
@@ -0,0 +1,118 @@
+import { HttpStatus } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { InvitationCodeService } from './invitation-code.service';
+import { SchoolInvitationService } from './school-invitation.service';
+import { DbService } from '../db/db.service';
+import { hashCode } from '../common/utils/hash.util';
+import invitationCodeConfig from './config/invitation-code.config';
+
+describe('InvitationCodeService', () => {
+  let service: InvitationCodeService;
+  let teacherCodeHash: string;
+  let tx: {
+    schoolInvitationCode: { updateMany: jest.Mock };
+    schoolInvitationCodeUsage: { create: jest.Mock };
+  };
+  let db: {
+    school: { findUnique: jest.Mock };
+    user: { findUnique: jest.Mock };
+    schoolInvitationCode: { findFirst: jest.Mock };
+    schoolInvitationCodeFailure: { count: jest.Mock; create: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let schoolInvitationService: { addMember: jest.Mock };
+
+  beforeAll(async () => {
+    teacherCodeHash = (await hashCode('TEACHCODE1'))!;
+  });
+
+  beforeEach(async () => {
+    tx = {
+      schoolInvitationCode: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      schoolInvitationCodeUsage: { create: jest.fn() },
+    };
+    db = {
+      school: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'school-1', name: 'Green Hills', requireVerifiedEmailToJoin: false, teacherInvitationCode: teacherCodeHash,
+        }),
+      },
+      user: { findUnique: jest.fn().mockResolvedValue({ id: 'user-1', isEmailVerified: true }) },
+      schoolInvitationCode: { findFirst: jest.fn().mockResolvedValue({ id: 'code-1', maxUses: 30, uses: 2 }) },
+      schoolInvitationCodeFailure: { count: jest.fn().mockResolvedValue(0), create: jest.fn() },
+      $transaction: jest.fn(callback => callback(tx)),
+    };
+    schoolInvitationService = { addMember: jest.fn().mockResolvedValue({ id: 'teacher-1' }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InvitationCodeService,
+        { provide: SchoolInvitationService, useValue: schoolInvitationService },
+        { provide: DbService, useValue: db },
+        { provide: invitationCodeConfig.KEY, useValue: { maxFailuresPerUser: 5, maxFailuresPerSchool: 50, failureWindowMinutes: 15 } },
+      ],
+    }).compile();
+
+    service = module.get<InvitationCodeService>(InvitationCodeService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('records a wrong code', async () => {
+    await expect(service.redeem('user-1', 'green-hills', 'WRONGCODE1')).rejects.toThrow('Invalid code');
+    expect(db.schoolInvitationCodeFailure.create).toHaveBeenCalledWith({ data: { schoolId: 'school-1', userId: 'user-1' } });
+  });
+
+  it('refuses codes once the user entered too many wrong ones', async () => {
+    db.schoolInvitationCodeFailure.count.mockImplementation(({ where }) => Promise.resolve(where.userId ? 5 : 0));
+
+    await expect(service.redeem('user-1', 'green-hills', 'WRONGCODE1')).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+    expect(db.schoolInvitationCodeFailure.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses codes once the school received too many wrong ones', async () => {
+    db.schoolInvitationCodeFailure.count.mockImplementation(({ where }) => Promise.resolve(where.schoolId ? 50 : 0));
+
+    await expect(service.redeem('user-2', 'green-hills', 'WRONGCODE1')).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+  });
+
+  it('counts the use and adds the user to the school', async () => {
+    const redeemed = await service.redeem('user-1', 'green-hills', ' teachcode1 ');
+
+    expect(redeemed).toEqual({ schoolId: 'school-1', role: 'TEACHER', membership: { id: 'teacher-1' } });
+    expect(tx.schoolInvitationCode.updateMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({
+        id: 'code-1',
+        revokedAt: null,
+        uses: { lt: 30 },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: expect.any(Date) } }],
+      }),
+      data: { uses: { increment: 1 } },
+    });
+    expect(tx.schoolInvitationCodeUsage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ codeId: 'code-1', userId: 'user-1', role: 'TEACHER' }),
+    });
+  });
+
+  it('refuses a code that expired or reached its maximum uses', async () => {
+    tx.schoolInvitationCode.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.redeem('user-1', 'green-hills', 'TEACHCODE1')).rejects.toThrow('used too many times');
+    expect(schoolInvitationService.addMember).not.toHaveBeenCalled();
+    expect(tx.schoolInvitationCodeUsage.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a revoked code like a wrong one', async () => {
+    db.schoolInvitationCode.findFirst.mockResolvedValue(null);
+
+    await expect(service.redeem('user-1', 'green-hills', 'TEACHCODE1')).rejects.toThrow('Invalid code');
+    expect(db.schoolInvitationCodeFailure.create).toHaveBeenCalled();
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+});
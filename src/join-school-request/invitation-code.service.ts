@@ -0,0 +1,289 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  School,
+  SchoolInvitationCode,
+  SchoolJoinRequest,
+  SchoolJoinRequestRole,
+  SchoolStaff,
+  Student,
+  Teacher,
+} from 'generated/prisma';
+import { ConfigType } from '@nestjs/config';
+import { DbService } from '../db/db.service';
+import { generateCode, INVITATION_CODE_LENGTH } from '../common/utils/characters.util';
+import { hashCode, verifyCode } from '../common/utils/hash.util';
+import { SchoolInvitationService } from './school-invitation.service';
+import {
+  InvitationCodeStatus,
+  IssueInvitationCodeDto,
+  IssuedInvitationCode,
+} from './dto/invitation-code.dto';
+import invitationCodeConfig from './config/invitation-code.config';
+
+// Where the hash of each role's code is kept on School
+const CODE_FIELDS = {
+  STUDENT: 'studentInvitationCode',
+  TEACHER: 'teacherInvitationCode',
+  STAFF: 'staffInvitationCode',
+  PARENT: 'parentInvitationCode',
+} as const satisfies Record<SchoolJoinRequestRole, keyof School>;
+
+const CODE_ROLES = Object.keys(CODE_FIELDS) as SchoolJoinRequestRole[];
+
+export interface RedeemedInvitationCode {
+  schoolId: string;
+  role: SchoolJoinRequestRole;
+  // Parents are not members yet, their request waits for the school's approval
+  membership?: Teacher | Student | SchoolStaff;
+  joinRequest?: SchoolJoinRequest;
+}
+
+/**
+ * Each school has one code per role that people can join it with. Codes are
+ * only shown when generated, the school keeps their hash. A code can expire
+ * and be limited to a number of uses, and every use is logged. Wrong codes
+ * are counted per user and per school, and guessing is refused past a limit.
+ */
+@Injectable()
+export class InvitationCodeService {
+  constructor(
+    private readonly dbService: DbService,
+    private readonly schoolInvitationService: SchoolInvitationService,
+    @Inject(invitationCodeConfig.KEY)
+    private readonly config: ConfigType<typeof invitationCodeConfig>,
+  ) { }
+
+  async findAll(schoolId: string): Promise<InvitationCodeStatus[]> {
+    const codes = await this.dbService.schoolInvitationCode.findMany({
+      where: { schoolId, revokedAt: null },
+    });
+    return CODE_ROLES.map(role => this.toStatus(role, codes.find(code => code.role === role)));
+  }
+
+  async generate(
+    schoolId: string,
+    role: SchoolJoinRequestRole,
+    createdById: string,
+    dto: IssueInvitationCodeDto,
+  ): Promise<IssuedInvitationCode> {
+    if (await this.findActive(schoolId, role)) {
+      throw new ConflictException(`The school already has a ${role.toLowerCase()} code, rotate it to get a new one`);
+    }
+    return this.issue(schoolId, role, createdById, dto);
+  }
+
+  /**
+   * Replaces the code, the previous one stops working right away.
+   * Limits that are left out are kept from the previous code.
+   */
+  async rotate(
+    schoolId: string,
+    role: SchoolJoinRequestRole,
+    createdById: string,
+    dto: IssueInvitationCodeDto,
+  ): Promise<IssuedInvitationCode> {
+    const active = await this.findActive(schoolId, role);
+    if (!active) {
+      throw new NotFoundException(`The school has no ${role.toLowerCase()} code to rotate, generate one first`);
+    }
+    const keptExpiry = active.expiresAt && active.expiresAt > new Date() ? active.expiresAt : undefined;
+    return this.issue(schoolId, role, createdById, {
+      expiresAt: dto.expiresAt ?? keptExpiry,
+      maxUses: dto.maxUses ?? active.maxUses ?? undefined,
+    });
+  }
+
+  async revoke(schoolId: string, role: SchoolJoinRequestRole): Promise<{ message: string }> {
+    // The hash fields are unique, so the hash of a code nobody knows replaces the revoked one
+    const hash = await this.hash(generateCode(INVITATION_CODE_LENGTH));
+    const revoked = await this.dbService.$transaction(async (tx) => {
+      const { count } = await tx.schoolInvitationCode.updateMany({
+        where: { schoolId, role, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      if (count > 0) {
+        await tx.school.update({ where: { id: schoolId }, data: { [CODE_FIELDS[role]]: hash } });
+      }
+      return count;
+    });
+    if (revoked === 0) {
+      throw new NotFoundException(`The school has no ${role.toLowerCase()} code to revoke`);
+    }
+    return { message: `The ${role.toLowerCase()} code has been revoked` };
+  }
+
+  async findUsages(schoolId: string, role?: SchoolJoinRequestRole) {
+    return this.dbService.schoolInvitationCodeUsage.findMany({
+      where: { schoolId, ...(role && { role }) },
+      include: { user: { select: { id: true, fullName: true, email: true, image: true } } },
+      orderBy: { usedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Joins the school with one of its codes, the code decides the role.
+   * Students, teachers and staff become members right away, parents get a
+   * join request for the school to approve.
+   */
+  async redeem(userId: string, username: string, code: string): Promise<RedeemedInvitationCode> {
+    const [school, user] = await Promise.all([
+      this.dbService.school.findUnique({ where: { username } }),
+      this.dbService.user.findUnique({ where: { id: userId } }),
+    ]);
+    if (!school) throw new BadRequestException("School not found, check if you write username correctly");
+    if (!user) throw new BadRequestException("Sorry, Your account doesn't exit, create new ones");
+    if (school.requireVerifiedEmailToJoin && !user.isEmailVerified) {
+      throw new ForbiddenException(`${school.name} requires a verified email address to join, verify your email first`);
+    }
+
+    await this.assertCanRedeem(school.id, user.id);
+    const role = await this.matchRole(school, code.trim().toUpperCase());
+    const active = role && await this.findActive(school.id, role);
+    if (!role || !active) {
+      await this.dbService.schoolInvitationCodeFailure.create({ data: { schoolId: school.id, userId: user.id } });
+      throw new BadRequestException("Invalid code, please check if you write it correctly");
+    }
+
+    return this.dbService.$transaction(async (tx) => {
+      // The limits are checked by the write that counts the use, so concurrent joins cannot go past them
+      const counted = await tx.schoolInvitationCode.updateMany({
+        where: {
+          id: active.id,
+          revokedAt: null,
+          maxUses: active.maxUses,
+          OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+          ...(active.maxUses !== null && { uses: { lt: active.maxUses } }),
+        },
+        data: { uses: { increment: 1 } },
+      });
+      if (counted.count === 0) {
+        throw new BadRequestException('This code has expired or has been used too many times, ask the school for a new one');
+      }
+
+      let result: RedeemedInvitationCode;
+      if (role === 'PARENT') {
+        const joinRequest = await tx.schoolJoinRequest.create({
+          data: {
+            schoolId: school.id,
+            userId: user.id,
+            requesterName: user.fullName,
+            requesterEmail: user.email,
+            requesterPhone: user.phoneNumber,
+            requestedRole: role,
+            isFromUser: true,
+          },
+        });
+        result = { schoolId: school.id, role, joinRequest };
+      } else {
+        const membership = await this.schoolInvitationService.addMember(
+          tx,
+          { schoolId: school.id, requestedRole: role, staffRoleTitle: null },
+          user,
+        );
+        result = { schoolId: school.id, role, membership };
+      }
+
+      await tx.schoolInvitationCodeUsage.create({
+        data: {
+          codeId: active.id,
+          schoolId: school.id,
+          userId: user.id,
+          role,
+          joinRequestId: result.joinRequest?.id,
+        },
+      });
+      return result;
+    });
+  }
+
+  private async issue(
+    schoolId: string,
+    role: SchoolJoinRequestRole,
+    createdById: string,
+    dto: IssueInvitationCodeDto,
+  ): Promise<IssuedInvitationCode> {
+    const school = await this.dbService.school.findUnique({ where: { id: schoolId }, select: { id: true } });
+    if (!school) {
+      throw new NotFoundException(`School with ID "${schoolId}" not found`);
+    }
+
+    const code = generateCode(INVITATION_CODE_LENGTH);
+    const hash = await this.hash(code);
+    const created = await this.dbService.$transaction(async (tx) => {
+      await tx.schoolInvitationCode.updateMany({
+        where: { schoolId, role, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+      await tx.school.update({ where: { id: schoolId }, data: { [CODE_FIELDS[role]]: hash } });
+      return tx.schoolInvitationCode.create({
+        data: { schoolId, role, expiresAt: dto.expiresAt, maxUses: dto.maxUses, createdById },
+      });
+    });
+    return { ...this.toStatus(role, created), code };
+  }
+
+  /**
+   * Throws 429 Too Many Requests when the user, or anyone for this school,
+   * entered too many wrong codes recently.
+   */
+  private async assertCanRedeem(schoolId: string, userId: string): Promise<void> {
+    const since = new Date(Date.now() - this.config.failureWindowMinutes * 60 * 1000);
+    const [userFailures, schoolFailures] = await Promise.all([
+      this.dbService.schoolInvitationCodeFailure.count({ where: { userId, createdAt: { gte: since } } }),
+      this.dbService.schoolInvitationCodeFailure.count({ where: { schoolId, createdAt: { gte: since } } }),
+    ]);
+    if (userFailures >= this.config.maxFailuresPerUser || schoolFailures >= this.config.maxFailuresPerSchool) {
+      throw new HttpException(
+        {
+          message: 'Too many wrong invitation codes, wait before trying again',
+          retryAfterSeconds: this.config.failureWindowMinutes * 60,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private async matchRole(school: School, code: string): Promise<SchoolJoinRequestRole | null> {
+    for (const role of CODE_ROLES) {
+      const hash = school[CODE_FIELDS[role]];
+      if (hash && await verifyCode(code, hash)) return role;
+    }
+    return null;
+  }
+
+  private findActive(schoolId: string, role: SchoolJoinRequestRole): Promise<SchoolInvitationCode | null> {
+    return this.dbService.schoolInvitationCode.findFirst({
+      where: { schoolId, role, revokedAt: null },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private async hash(code: string): Promise<string> {
+    const hash = await hashCode(code);
+    if (!hash) {
+      throw new InternalServerErrorException('Could not generate the invitation code, please try again');
+    }
+    return hash;
+  }
+
+  private toStatus(role: SchoolJoinRequestRole, code?: SchoolInvitationCode): InvitationCodeStatus {
+    return {
+      role,
+      active: !!code && (!code.expiresAt || code.expiresAt > new Date()) && (code.maxUses === null || code.uses < code.maxUses),
+      expiresAt: code?.expiresAt ?? null,
+      maxUses: code?.maxUses ?? null,
+      uses: code?.uses ?? 0,
+      createdAt: code?.createdAt ?? null,
+    };
+  }
+}
@@ -2,15 +2,22 @@ import { Controller, Get, Post, Body, Patch, Param, Delete, Query, ParseUUIDPipe
 import { UpdateSchoolJoinRequestDto, UpdateSchoolJoinRequestSchema } from './dto/update-school-join-request.dto';
 import { GetRequestsFilterDto, GetRequestsFilterSchema } from './dto/filter-school-join-request.dto';
 import { SchoolJoinRequestService } from './join-school-request.service';
+import { InvitationCodeService } from './invitation-code.service';
 import { CreateJoinSchoolRequest, CreateJoinSchoolRequestDto } from './dto/join-school-request.dto';
 import { ZodValidationPipe } from 'src/common/pipes/zod-validation.pipe';
 import { PassportJswAuthGuard } from 'src/common/guards/passport-jwt.guard';
 import { AuthUserDto } from 'src/user/dto/user.dto';
 import { JoinSchoolDto, JoinSchoolSchema } from '../school/dto/join-school-schema';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { SchoolRoles } from 'src/auth/decorators/school-roles.decorator';
 
 @Controller('school-join-requests')
+@UseGuards(PassportJswAuthGuard, RolesGuard)
 export class SchoolJoinRequestController {
-  constructor(private readonly schoolJoinRequestService: SchoolJoinRequestService) { }
+  constructor(
+    private readonly schoolJoinRequestService: SchoolJoinRequestService,
+    private readonly invitationCodeService: InvitationCodeService,
+  ) { }
 
   // CREATE (assuming you have this)
   @Post()
@@ -22,18 +29,19 @@ export class SchoolJoinRequestController {
   // READ - Get all requests (with optional filtering via query params)
   // GET /school-join-requests?schoolId=...&status=...
   @Get()
+  @SchoolRoles({ members: ['OWNER', 'STAFF'], optional: true })
   @UsePipes(new ZodValidationPipe(GetRequestsFilterSchema))
   findAll(@Query() filterDto: GetRequestsFilterDto) {
     return this.schoolJoinRequestService.findAll(filterDto);
   }
 
+  // The code decides the role the user joins with
   @Post('/join')
-  @UseGuards(PassportJswAuthGuard)
   async join(
     @Request() request: { user: AuthUserDto },
     @Body(new ZodValidationPipe(JoinSchoolSchema)) joinSchoolDto: JoinSchoolDto,
   ) {
-    return await this.schoolJoinRequestService.joinSchoolByCodeAndUsername(request.user, joinSchoolDto);
+    return await this.invitationCodeService.redeem(request.user.id, joinSchoolDto.username, joinSchoolDto.code);
   }
 
   // READ - Get a single request by ID
@@ -50,6 +58,7 @@ export class SchoolJoinRequestController {
   // Choose one approach. Using the filter endpoint is often more flexible.
 
   @Get('by-school/:schoolId')
+  @SchoolRoles({ members: ['OWNER', 'STAFF'] })
   findBySchoolId(@Param('schoolId') schoolId: string) {
     return this.schoolJoinRequestService.findBySchoolId(schoolId);
   }
@@ -75,6 +84,7 @@ export class SchoolJoinRequestController {
   // UPDATE - Update request fields
   // PATCH /school-join-requests/:id
   @Patch(':id')
+  @SchoolRoles({ members: ['OWNER', 'STAFF'], resource: 'schoolJoinRequest' })
   @UsePipes(new ZodValidationPipe(UpdateSchoolJoinRequestSchema))
   update(@Param('id') id: string, @Body() updateSchoolJoinRequestDto: UpdateSchoolJoinRequestDto) {
     return this.schoolJoinRequestService.update(id, updateSchoolJoinRequestDto);
@@ -83,7 +93,6 @@ export class SchoolJoinRequestController {
   // UPDATE - Accept a request
   // PATCH /school-join-requests/:id/accept
   @Patch(':id/accept')
-  @UseGuards(PassportJswAuthGuard)
   acceptRequest(
     @Request() request: { user: AuthUserDto },
     @Param('id') id: string
@@ -94,7 +103,7 @@ export class SchoolJoinRequestController {
   // UPDATE - Reject a request
   // PATCH /school-join-requests/:id/reject
   @Patch(':id/reject')
-  // Use ParseUUIDPipe or similar if needed
+  @SchoolRoles({ members: ['OWNER', 'STAFF'], resource: 'schoolJoinRequest' })
   rejectRequest(@Param('id') id: string) {
     return this.schoolJoinRequestService.rejectRequest(id);
   }
@@ -102,7 +111,7 @@ export class SchoolJoinRequestController {
   // DELETE - Remove a request
   // DELETE /school-join-requests/:id
   @Delete(':id')
-  // Use ParseUUIDPipe or similar if needed
+  @SchoolRoles({ members: ['OWNER', 'STAFF'], resource: 'schoolJoinRequest' })
   remove(@Param('id') id: string) {
     return this.schoolJoinRequestService.remove(id);
   }
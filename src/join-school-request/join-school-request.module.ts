@@ -1,11 +1,20 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { SchoolJoinRequestService } from './join-school-request.service';
 import { SchoolJoinRequestController } from './join-school-request.controller';
+import { SchoolInvitationService } from './school-invitation.service';
+import { SchoolInvitationController } from './school-invitation.controller';
+import { InvitationCodeService } from './invitation-code.service';
+import { InvitationCodeController } from './invitation-code.controller';
 import { DbModule } from 'src/db/db.module';
+import { MailModule } from 'src/mail/mail.module';
+import tokenConfig from 'src/auth/config/token.config';
+import invitationCodeConfig from './config/invitation-code.config';
 
 @Module({
-  controllers: [SchoolJoinRequestController],
-  providers: [SchoolJoinRequestService],
-  imports : [DbModule]
+  controllers: [SchoolJoinRequestController, SchoolInvitationController, InvitationCodeController],
+  providers: [SchoolJoinRequestService, SchoolInvitationService, InvitationCodeService],
+  imports : [DbModule, MailModule, ConfigModule.forFeature(tokenConfig), ConfigModule.forFeature(invitationCodeConfig)],
+  exports: [SchoolInvitationService]
 })
 export class JoinSchoolRequestModule {}
@@ -14,8 +14,6 @@ import { UpdateSchoolJoinRequestDto } from './dto/update-school-join-request.dto
 import { GetRequestsFilterDto } from './dto/filter-school-join-request.dto';
 import { CreateJoinSchoolRequest, CreateJoinSchoolRequestDto } from './dto/join-school-request.dto';
 import { validSchoolStaffRoles } from 'src/lib/context/school.context';
-import { JoinSchoolDto, JoinSchoolSchema } from '../school/dto/join-school-schema';
-import { verifyCode } from 'src/common/utils/hash.util';
 
 
 @Injectable()
@@ -312,142 +310,4 @@ export class SchoolJoinRequestService {
       data,
     });
   }
-
-  async joinSchoolByCodeAndUsername(user: AuthUserDto, data: JoinSchoolDto) {
-    const validation = JoinSchoolSchema.safeParse(data);
-    if (!validation.success) throw new BadRequestException("Validation data for join school");
-    const { username, code } = validation.data;
-
-    try {
-      const [school, requestUser] = await Promise.all([
-        this.dbService.school.findUnique({ where: { username } }),
-        this.dbService.user.findUnique({ where: { id: user.id } })
-      ]);
-      if (!school) throw new BadRequestException("School not found, check if you write username correctly");
-      if (!requestUser) throw new BadRequestException("Sorry, Your account doesn't exit, create new ones");
-      switch (user.role) {
-        case "STUDENT":
-          if (!school.studentsCode) throw new BadRequestException(`${school.name} doesn't have join school student code, use other method`)
-          const isCodeValid = await verifyCode(code, school.studentsCode);
-          if (isCodeValid) {
-            if (!school.requiredVerificationToJoinByCode) {
-              const student = await this.dbService.student.create({
-                data: {
-                  schoolId: school.id,
-                  name: requestUser.name,
-                  email: requestUser.email,
-                  phone: requestUser.phone,
-                  userId: requestUser.id,
-                  image: requestUser.image,
-                  age: requestUser.age,
-                  gender: requestUser.gender,
-                }
-              })
-              const payload = {
-                sub: student.id,
-                schoolId: student.schoolId,
-                name: student.name,
-                email: student.email,
-                classId: student.classId,
-              };
-
-              const token = this.jwtService.sign(payload);
-
-              return {
-                token,
-                student,
-              };
-            }
-            const request = await this.dbService.schoolJoinRequest.create({
-              data: {
-                email: user.email,
-                name: user.name,
-                phone: user.phone,
-                fromUser: true,
-                schoolId: school.id,
-                userId: user.id,
-                role: "STUDENT",
-              },
-            });
-            return { request };
-          }
-          else {
-            throw new BadRequestException("Invalid code, please check if you write it correctly")
-          }
-        case "TEACHER":
-          if (!school.teachersCode) throw new BadRequestException(`${school.name} doesn't have join school teacher code, use other method`)
-          const isCodeValidTeacher = await verifyCode(code, school.teachersCode);
-          if (isCodeValidTeacher) {
-            if (!school.requiredVerificationToJoinByCode) {
-              const teacher = await this.dbService.teacher.create({
-                data: {
-                  schoolId: school.id,
-                  name: requestUser.name,
-                  email: requestUser.email,
-                  phone: requestUser.phone,
-                  userId: requestUser.id,
-                  image: requestUser.image,
-                  gender: requestUser.gender,
-                  age: requestUser.age,
-                }
-              })
-              const payload = {
-                sub: teacher.id,
-                schoolId: teacher.schoolId,
-                name: teacher.name,
-                email: teacher.email,
-              };
-
-              const token = this.jwtService.sign(payload);
-
-              return {
-                token,
-                teacher,
-              };
-            }
-
-            const request = await this.dbService.schoolJoinRequest.create({
-              data: {
-                email: user.email,
-                name: user.name,
-                phone: user.phone,
-                fromUser: true,
-                schoolId: school.id,
-                userId: user.id,
-                role: "TEACHER",
-              },
-            });
-            return request;
-          } else {
-            throw new BadRequestException("Invalid code, please check if you write it correctly")
-          }
-        case "SCHOOLSTAFF":
-          if (!school.schoolStaffsCode) throw new BadRequestException(`${school.name} doesn't have join school staff code, use other method`)
-          const isCodeValidStaff = await verifyCode(code, school.schoolStaffsCode);
-          if (isCodeValidStaff) {
-            const request = await this.dbService.schoolJoinRequest.create({
-              data: {
-                email: requestUser.email,
-                name: requestUser.name,
-                phone: requestUser.phone,
-                schoolId: school.id,
-                fromUser: true,
-                userId: requestUser.id,
-                role: "SCHOOLSTAFF",
-              },
-            });
-            return request;
-          } else {
-            throw new BadRequestException("Invalid code, please check if you write it correctly")
-          }
-        default:
-          throw new BadRequestException("Invalid role, please check if you write it correctly")
-      }
-    } catch (error) {
-      throw new NotFoundException({
-        message: 'Something went wrong while retrieving schools',
-        error: error.message, // Provide error message in response
-      });
-    }
-  }
 }
\ No newline at end of file
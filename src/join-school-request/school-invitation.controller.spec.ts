@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SchoolInvitationController } from './school-invitation.controller';
+import { SchoolInvitationService } from './school-invitation.service';
+
+describe('SchoolInvitationController', () => {
+  let controller: SchoolInvitationController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SchoolInvitationController],
+      providers: [{ provide: SchoolInvitationService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<SchoolInvitationController>(SchoolInvitationController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
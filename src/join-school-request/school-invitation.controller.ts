@@ -0,0 +1,33 @@
+import { BadRequestException, Body, Controller, Get, Post, Query, Request, UseGuards } from '@nestjs/common';
+import { SchoolInvitationService } from './school-invitation.service';
+import { SchoolInvitationTokenDto, SchoolInvitationTokenSchema } from './dto/school-invitation.dto';
+import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
+import { PassportJswAuthGuard } from '../common/guards/passport-jwt.guard';
+import { BlockImpersonation } from '../auth/decorators/block-impersonation.decorator';
+import { AuthUserDto } from '../user/dto/user.dto';
+
+// New people register through POST /auth/register/invitation instead
+@Controller('school-invitations')
+export class SchoolInvitationController {
+  constructor(private readonly schoolInvitationService: SchoolInvitationService) { }
+
+  // GET /school-invitations?token=...
+  @Get()
+  preview(@Query('token') token?: string) {
+    if (!token) {
+      throw new BadRequestException('Invitation token is required');
+    }
+    return this.schoolInvitationService.preview(token);
+  }
+
+  // POST /school-invitations/accept, for users who already have an account
+  @Post('accept')
+  @UseGuards(PassportJswAuthGuard)
+  @BlockImpersonation()
+  accept(
+    @Request() request: { user: AuthUserDto },
+    @Body(new ZodValidationPipe(SchoolInvitationTokenSchema)) body: SchoolInvitationTokenDto,
+  ) {
+    return this.schoolInvitationService.claim(body.token, request.user.id);
+  }
+}
@@ -0,0 +1,121 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import { SchoolJoinRequest } from 'generated/prisma';
+import { SchoolInvitationService } from './school-invitation.service';
+import { DbService } from '../db/db.service';
+import { MailService } from '../mail/mail.service';
+import tokenConfig from '../auth/config/token.config';
+
+describe('SchoolInvitationService', () => {
+  let service: SchoolInvitationService;
+  const tx = {
+    schoolJoinRequest: { updateMany: jest.fn() },
+    teacher: { upsert: jest.fn() },
+    user: { update: jest.fn() },
+  };
+  const dbService = {
+    schoolJoinRequest: { update: jest.fn(), findUnique: jest.fn() },
+    user: { findUnique: jest.fn() },
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) => callback(tx)),
+  };
+  const jwtService = {
+    signAsync: jest.fn().mockResolvedValue('token'),
+    verifyAsync: jest.fn(),
+  };
+  const pendingTeacherInvitation = {
+    id: 'request-1',
+    schoolId: 'school-1',
+    requesterEmail: 'invitee@example.com',
+    requestedRole: 'TEACHER',
+    status: 'PENDING',
+    invitedByUserId: 'owner-1',
+    school: { id: 'school-1', name: 'Green Hills', logo: null, creatorId: 'owner-1' },
+  };
+  const invitee = { id: 'user-1', email: 'Invitee@example.com', fullName: 'Invitee', role: null };
+  const mailService = {
+    buildAppUrl: jest.fn().mockReturnValue('https://app.test/auth/invitation?token=token'),
+    send: jest.fn().mockResolvedValue(true),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jwtService.verifyAsync.mockResolvedValue({ sub: 'request-1', email: 'invitee@example.com', purpose: 'school-invitation' });
+    dbService.schoolJoinRequest.findUnique.mockResolvedValue(pendingTeacherInvitation);
+    dbService.user.findUnique.mockResolvedValue(invitee);
+    tx.schoolJoinRequest.updateMany.mockResolvedValue({ count: 1 });
+    tx.teacher.upsert.mockResolvedValue({ id: 'teacher-1' });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchoolInvitationService,
+        { provide: DbService, useValue: dbService },
+        { provide: JwtService, useValue: jwtService },
+        { provide: MailService, useValue: mailService },
+        { provide: tokenConfig.KEY, useValue: { schoolInvitationSecret: 'secret', schoolInvitationTtl: '7d' } },
+      ],
+    }).compile();
+
+    service = module.get<SchoolInvitationService>(SchoolInvitationService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('escapes names in the invitation email', async () => {
+    const request = {
+      id: 'request-1',
+      requesterEmail: 'invitee@example.com',
+      requesterName: '<img src=x>',
+      requestedRole: 'STAFF',
+      staffRoleTitle: 'Head & "Bursar"',
+    } as SchoolJoinRequest;
+
+    await service.send(request, { name: '<script>alert(1)</script> Academy' });
+
+    const { html } = mailService.send.mock.calls[0][0];
+    expect(html).toContain('Hello &lt;img src=x&gt;');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt; Academy');
+    expect(html).toContain('Head &amp; &quot;Bursar&quot;');
+    expect(html).not.toContain('<script>');
+  });
+
+  it('approves the invitation and adds the invitee to the school', async () => {
+    const claimed = await service.claim('token', 'user-1');
+
+    expect(claimed).toEqual({ schoolId: 'school-1', role: 'TEACHER', membership: { id: 'teacher-1' } });
+    expect(tx.schoolJoinRequest.updateMany).toHaveBeenCalledWith({
+      where: { id: 'request-1', status: 'PENDING' },
+      data: expect.objectContaining({ status: 'APPROVED', userId: 'user-1', processedByUserId: 'owner-1' }),
+    });
+    expect(tx.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { role: 'TEACHER' } });
+    expect(tx.user.update).toHaveBeenCalledWith({ where: { id: 'user-1' }, data: { isEmailVerified: true } });
+  });
+
+  it('refuses an invitation claimed by another request in the meantime', async () => {
+    tx.schoolJoinRequest.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.claim('token', 'user-1')).rejects.toThrow('This invitation has already been used or withdrawn');
+    expect(tx.teacher.upsert).not.toHaveBeenCalled();
+  });
+
+  it('refuses a user with another email address', async () => {
+    dbService.user.findUnique.mockResolvedValue({ ...invitee, email: 'someone-else@example.com' });
+
+    await expect(service.claim('token', 'user-1')).rejects.toThrow(ForbiddenException);
+    expect(dbService.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses an invitation that is no longer pending', async () => {
+    dbService.schoolJoinRequest.findUnique.mockResolvedValue({ ...pendingTeacherInvitation, status: 'APPROVED' });
+
+    await expect(service.claim('token', 'user-1')).rejects.toThrow(BadRequestException);
+  });
+
+  it('refuses a link that was not signed for an invitation', async () => {
+    jwtService.verifyAsync.mockResolvedValue({ sub: 'request-1', email: 'invitee@example.com', purpose: 'email-verification' });
+
+    await expect(service.claim('token', 'user-1')).rejects.toThrow('Invalid or expired invitation link');
+  });
+});
@@ -0,0 +1,281 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import {
+  Prisma,
+  School,
+  SchoolJoinRequest,
+  SchoolJoinRequestRole,
+  SchoolStaff,
+  Student,
+  Teacher,
+  User,
+  UserRole,
+} from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import { MailService } from '../mail/mail.service';
+import { escapeHtml } from '../common/utils/html.util';
+import tokenConfig from '../auth/config/token.config';
+
+const SCHOOL_INVITATION_PURPOSE = 'school-invitation';
+
+// Title given to STAFF invitees when the request does not name one
+const DEFAULT_STAFF_ROLE_TITLE = 'Staff';
+
+// Platform role given to invitees that do not have one yet
+const PLATFORM_ROLES: Partial<Record<SchoolJoinRequestRole, UserRole>> = {
+  TEACHER: 'TEACHER',
+  STUDENT: 'STUDENT',
+  STAFF: 'SCHOOL_STAFF',
+};
+
+interface SchoolInvitationPayload {
+  sub: string;
+  email: string;
+  purpose: typeof SCHOOL_INVITATION_PURPOSE;
+}
+
+type InvitationRequest = SchoolJoinRequest & { school: Pick<School, 'id' | 'name' | 'logo' | 'creatorId'> };
+
+export interface SentInvitation {
+  requestId: string;
+  email: string;
+  role: SchoolJoinRequestRole;
+  link: string;
+  emailSent: boolean;
+}
+
+export interface InvitationPreview {
+  requestId: string;
+  school: { id: string; name: string; logo: string | null };
+  email: string;
+  name: string | null;
+  role: SchoolJoinRequestRole;
+  staffRoleTitle: string | null;
+  // Whether the invitee should log in rather than register
+  hasAccount: boolean;
+}
+
+export interface ClaimedInvitation {
+  schoolId: string;
+  role: SchoolJoinRequestRole;
+  membership: Teacher | Student | SchoolStaff;
+}
+
+/**
+ * Invitations are join requests created by a school for someone else. The
+ * invitee receives a signed link and claiming it, once registered or logged
+ * in with the invited email, creates the role in the school right away.
+ */
+@Injectable()
+export class SchoolInvitationService {
+  constructor(
+    private readonly dbService: DbService,
+    private readonly jwtService: JwtService,
+    private readonly mailService: MailService,
+    @Inject(tokenConfig.KEY)
+    private readonly tokenConfiguration: ConfigType<typeof tokenConfig>,
+  ) { }
+
+  /**
+   * Emails the invitee a signed link to the request.
+   * The link is also returned so that it can be shared another way when the email fails.
+   */
+  async send(request: SchoolJoinRequest, school: Pick<School, 'name'>): Promise<SentInvitation> {
+    const payload: SchoolInvitationPayload = {
+      sub: request.id,
+      email: request.requesterEmail,
+      purpose: SCHOOL_INVITATION_PURPOSE,
+    };
+    const token = await this.jwtService.signAsync(payload, {
+      secret: this.tokenConfiguration.schoolInvitationSecret,
+      expiresIn: this.tokenConfiguration.schoolInvitationTtl,
+    });
+    const link = this.mailService.buildAppUrl('/auth/invitation', { token });
+    const roleName = request.staffRoleTitle ?? request.requestedRole.toLowerCase();
+    const greeting = request.requesterName ? `Hello ${request.requesterName}` : 'Hello';
+
+    const emailSent = await this.mailService.send({
+      to: request.requesterEmail,
+      subject: `You are invited to join ${school.name}`,
+      text: `${greeting},\n\n${school.name} invited you to join as ${roleName} on Space Together. Accept the invitation by opening the link below:\n${link}\n\nIf you were not expecting this invitation, you can ignore this email.`,
+      html: `<p>${escapeHtml(greeting)},</p><p>${escapeHtml(school.name)} invited you to join as ${escapeHtml(roleName)} on Space Together.</p><p><a href="${link}">Accept the invitation</a></p><p>If you were not expecting this invitation, you can ignore this email.</p>`,
+    });
+    await this.dbService.schoolJoinRequest.update({
+      where: { id: request.id },
+      data: { invitationSentAt: new Date() },
+    });
+
+    return { requestId: request.id, email: request.requesterEmail, role: request.requestedRole, link, emailSent };
+  }
+
+  /**
+   * Describes an invitation before it is claimed, so the app can offer to register or to log in.
+   */
+  async preview(token: string): Promise<InvitationPreview> {
+    const request = await this.findPendingInvitation(token);
+    const account = await this.dbService.user.findUnique({
+      where: { email: request.requesterEmail },
+      select: { id: true },
+    });
+
+    return {
+      requestId: request.id,
+      school: { id: request.school.id, name: request.school.name, logo: request.school.logo },
+      email: request.requesterEmail,
+      name: request.requesterName,
+      role: request.requestedRole,
+      staffRoleTitle: request.staffRoleTitle,
+      hasAccount: !!account,
+    };
+  }
+
+  /**
+   * Checks an invitation link and returns the pending request it points to.
+   */
+  async findPendingInvitation(token: string): Promise<InvitationRequest> {
+    let payload: SchoolInvitationPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<SchoolInvitationPayload>(token, {
+        secret: this.tokenConfiguration.schoolInvitationSecret,
+      });
+    } catch {
+      throw new BadRequestException('Invalid or expired invitation link');
+    }
+    if (payload.purpose !== SCHOOL_INVITATION_PURPOSE) {
+      throw new BadRequestException('Invalid or expired invitation link');
+    }
+
+    const request = await this.dbService.schoolJoinRequest.findUnique({
+      where: { id: payload.sub },
+      include: { school: { select: { id: true, name: true, logo: true, creatorId: true } } },
+    });
+    if (!request || request.requesterEmail !== payload.email) {
+      throw new BadRequestException('Invalid or expired invitation link');
+    }
+    if (request.status !== 'PENDING') {
+      throw new BadRequestException('This invitation has already been used or withdrawn');
+    }
+    return request;
+  }
+
+  /**
+   * Gives the user the invited role in the school and approves the request on
+   * behalf of whoever sent the invitation. Opening the link proves the user
+   * owns the invited email, so it is marked as verified too.
+   */
+  async claim(token: string, userId: string): Promise<ClaimedInvitation> {
+    const request = await this.findPendingInvitation(token);
+    if (request.requestedRole === 'PARENT') {
+      throw new BadRequestException('Parent invitations are not supported yet');
+    }
+
+    const user = await this.dbService.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    if (user.email.toLowerCase() !== request.requesterEmail.toLowerCase()) {
+      throw new ForbiddenException('This invitation was sent to another email address');
+    }
+
+    return this.dbService.$transaction(async (tx) => {
+      // Only one claim can move the request out of PENDING
+      const approved = await tx.schoolJoinRequest.updateMany({
+        where: { id: request.id, status: 'PENDING' },
+        data: {
+          status: 'APPROVED',
+          userId: user.id,
+          processedByUserId: request.invitedByUserId ?? request.school.creatorId,
+          processedAt: new Date(),
+        },
+      });
+      if (approved.count === 0) {
+        throw new BadRequestException('This invitation has already been used or withdrawn');
+      }
+
+      const membership = await this.addMember(tx, request, user);
+      await tx.user.update({ where: { id: user.id }, data: { isEmailVerified: true } });
+
+      return { schoolId: request.schoolId, role: request.requestedRole, membership };
+    });
+  }
+
+  /**
+   * Gives the user a role in the school, also used when joining with an invitation code.
+   * Users without a platform role get the one that goes with it.
+   */
+  async addMember(
+    tx: Prisma.TransactionClient,
+    request: Pick<SchoolJoinRequest, 'schoolId' | 'requestedRole' | 'staffRoleTitle'>,
+    user: User,
+  ): Promise<Teacher | Student | SchoolStaff> {
+    const membership = await this.createMembership(tx, request, user);
+    const platformRole = PLATFORM_ROLES[request.requestedRole];
+    if (!user.role && platformRole) {
+      await tx.user.update({ where: { id: user.id }, data: { role: platformRole } });
+    }
+    return membership;
+  }
+
+  // Reactivates the role when the user held it before, instead of failing on the unique index
+  private async createMembership(
+    tx: Prisma.TransactionClient,
+    request: Pick<SchoolJoinRequest, 'schoolId' | 'requestedRole' | 'staffRoleTitle'>,
+    user: User,
+  ): Promise<Teacher | Student | SchoolStaff> {
+    const { schoolId } = request;
+    const userId = user.id;
+
+    switch (request.requestedRole) {
+      case 'TEACHER':
+        return tx.teacher.upsert({
+          where: { userId_schoolId: { userId, schoolId } },
+          create: {
+            userId,
+            schoolId,
+            teacherFullName: user.fullName,
+            teacherEmail: user.email,
+            teacherPhone: user.phoneNumber,
+            teacherImage: user.image,
+          },
+          update: { isActive: true },
+        });
+      case 'STUDENT':
+        return tx.student.upsert({
+          where: { userId_schoolId: { userId, schoolId } },
+          create: {
+            userId,
+            schoolId,
+            studentFullName: user.fullName,
+            studentEmail: user.email,
+            studentImage: user.image,
+          },
+          update: { isActive: true },
+        });
+      case 'STAFF': {
+        const roleTitle = request.staffRoleTitle ?? DEFAULT_STAFF_ROLE_TITLE;
+        return tx.schoolStaff.upsert({
+          where: { userId_schoolId_roleTitle: { userId, schoolId, roleTitle } },
+          create: {
+            userId,
+            schoolId,
+            roleTitle,
+            staffFullName: user.fullName,
+            staffEmail: user.email,
+            staffPhone: user.phoneNumber,
+            staffImage: user.image,
+          },
+          update: { isActive: true },
+        });
+      }
+      default:
+        throw new BadRequestException(`Invitations for the ${request.requestedRole} role are not supported`);
+    }
+  }
+}
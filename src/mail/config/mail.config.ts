@@ -0,0 +1,19 @@
+import { registerAs } from "@nestjs/config"
+
+export type MailTransportName = 'smtp' | 'file' | 'console'
+
+export default registerAs("mail", () => ({
+  transport: (process.env.MAIL_TRANSPORT ?? 'console') as MailTransportName,
+  from: process.env.MAIL_FROM ?? 'Space Together <no-reply@spacetogether.rw>',
+  smtp: {
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT ?? 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASSWORD,
+  },
+  // Where the file transport drops messages during local development
+  fileDirectory: process.env.MAIL_FILE_DIR ?? '.tmp/mail',
+  // Frontend base url used to build links sent by email
+  appUrl: process.env.FRONTEND_URL ?? 'http://localhost:4789',
+}))
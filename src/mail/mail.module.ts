@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigType } from '@nestjs/config';
+import { MailService } from './mail.service';
+import mailConfig from './config/mail.config';
+import { MAIL_TRANSPORT, MailTransport } from './transports/mail-transport';
+import { SmtpMailTransport } from './transports/smtp.transport';
+import { FileMailTransport } from './transports/file.transport';
+import { ConsoleMailTransport } from './transports/console.transport';
+
+@Module({
+  imports: [ConfigModule.forFeature(mailConfig)],
+  providers: [
+    MailService,
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [mailConfig.KEY],
+      useFactory: (config: ConfigType<typeof mailConfig>): MailTransport => {
+        switch (config.transport) {
+          case 'smtp':
+            return new SmtpMailTransport(config.smtp);
+          case 'file':
+            return new FileMailTransport(config.fileDirectory);
+          default:
+            return new ConsoleMailTransport();
+        }
+      },
+    },
+  ],
+  exports: [MailService],
+})
+export class MailModule { }
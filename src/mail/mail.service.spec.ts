@@ -0,0 +1,29 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MailService } from './mail.service';
+import mailConfig from './config/mail.config';
+import { MAIL_TRANSPORT } from './transports/mail-transport';
+
+describe('MailService', () => {
+  let service: MailService;
+  const transport = { send: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailService,
+        { provide: MAIL_TRANSPORT, useValue: transport },
+        { provide: mailConfig.KEY, useValue: { from: 'no-reply@test.local', appUrl: 'http://localhost:4789' } },
+      ],
+    }).compile();
+
+    service = module.get<MailService>(MailService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should build links to the frontend', () => {
+    expect(service.buildAppUrl('/verify-email', { token: 'abc' })).toBe('http://localhost:4789/verify-email?token=abc');
+  });
+});
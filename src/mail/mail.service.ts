@@ -0,0 +1,39 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import mailConfig from './config/mail.config';
+import { MAIL_TRANSPORT, MailMessage, MailTransport } from './transports/mail-transport';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+    @Inject(mailConfig.KEY)
+    private readonly mailConfiguration: ConfigType<typeof mailConfig>,
+  ) { }
+
+  /**
+   * Sends a message through the configured transport.
+   * @returns false when sending failed, the error is logged instead of thrown.
+   */
+  async send(message: MailMessage): Promise<boolean> {
+    try {
+      await this.transport.send({ ...message, from: this.mailConfiguration.from });
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to send "${message.subject}" to ${message.to}: ${error.message}`, error.stack);
+      return false;
+    }
+  }
+
+  /**
+   * Builds an absolute link to a frontend page.
+   */
+  buildAppUrl(path: string, params: Record<string, string> = {}): string {
+    const url = new URL(path, this.mailConfiguration.appUrl);
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    return url.toString();
+  }
+}
@@ -0,0 +1,13 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * Logs every message instead of sending it, for local development.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    this.logger.log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+}
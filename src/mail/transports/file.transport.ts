@@ -0,0 +1,20 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage, MailTransport } from './mail-transport';
+
+/**
+ * Writes every message as a JSON file instead of sending it, for local development.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) { }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}-${safeRecipient}.json`;
+    await writeFile(
+      join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+    );
+  }
+}
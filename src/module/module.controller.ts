@@ -9,20 +9,29 @@ import {
   Query, 
   UsePipes, 
   ValidationPipe,
-  ParseUUIDPipe 
+  ParseUUIDPipe,
+  UseGuards,
+  BadRequestException
 } from '@nestjs/common';
 import { ModuleService } from './module.service';
 import { CreateModuleDto, CreateModuleSchema } from './dto/create-module.dto';
 import { UpdateModuleDto, UpdateModuleSchema } from './dto/update-module.dto';
 import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
+import { PassportJswAuthGuard } from 'src/common/guards/passport-jwt.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { SchoolRoles } from 'src/auth/decorators/school-roles.decorator';
 
 @ApiTags('Modules')
 @Controller('modules')
+@UseGuards(PassportJswAuthGuard, RolesGuard)
 export class ModuleController {
   constructor(private readonly moduleService: ModuleService) {}
 
   @Post()
+  @Roles('TEACHER', 'SCHOOL_ADMIN', 'SCHOOL_STAFF')
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER'], resource: 'class', param: 'classId', optional: true })
   @ApiOperation({ summary: 'Create a new module' })
   @ApiResponse({ status: 201, description: 'Module created successfully.' })
   @ApiResponse({ status: 400, description: 'Bad Request - Validation failed.' })
@@ -84,6 +93,8 @@ export class ModuleController {
   }
 
   @Patch(':id')
+  @Roles('TEACHER', 'SCHOOL_ADMIN', 'SCHOOL_STAFF')
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER'], resource: 'module' })
   @ApiOperation({ summary: 'Update a module' })
   @ApiParam({ name: 'id', description: 'Module ID', type: String })
   @ApiResponse({ status: 200, description: 'Module updated successfully.' })
@@ -99,6 +110,8 @@ export class ModuleController {
   }
 
   @Delete(':id')
+  @Roles('TEACHER', 'SCHOOL_ADMIN', 'SCHOOL_STAFF')
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER'], resource: 'module' })
   @ApiOperation({ summary: 'Delete a module' })
   @ApiParam({ name: 'id', description: 'Module ID', type: String })
   @ApiResponse({ status: 200, description: 'Module deleted successfully.' })
@@ -108,6 +121,8 @@ export class ModuleController {
   }
 
   @Post(':moduleId/assign-teacher/:teacherId')
+  @Roles('TEACHER', 'SCHOOL_ADMIN', 'SCHOOL_STAFF')
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER'], resource: 'module', param: 'moduleId', sameSchoolAs: { resource: 'teacher', param: 'teacherId' } })
   @ApiOperation({ summary: 'Assign a teacher to a module' })
   @ApiParam({ name: 'moduleId', description: 'Module ID', type: String })
   @ApiParam({ name: 'teacherId', description: 'Teacher ID', type: String })
@@ -121,6 +136,8 @@ export class ModuleController {
   }
 
   @Post(':moduleId/remove-teacher')
+  @Roles('TEACHER', 'SCHOOL_ADMIN', 'SCHOOL_STAFF')
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER'], resource: 'module', param: 'moduleId' })
   @ApiOperation({ summary: 'Remove teacher from a module' })
   @ApiParam({ name: 'moduleId', description: 'Module ID', type: String })
   @ApiResponse({ status: 200, description: 'Teacher removed successfully.' })
@@ -130,6 +147,8 @@ export class ModuleController {
   }
 
   @Post(':moduleId/assign-class/:classId')
+  @Roles('TEACHER', 'SCHOOL_ADMIN', 'SCHOOL_STAFF')
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER'], resource: 'module', param: 'moduleId', sameSchoolAs: { resource: 'class', param: 'classId' } })
   @ApiOperation({ summary: 'Assign a module to a class' })
   @ApiParam({ name: 'moduleId', description: 'Module ID', type: String })
   @ApiParam({ name: 'classId', description: 'Class ID', type: String })
@@ -143,6 +162,8 @@ export class ModuleController {
   }
 
   @Post(':moduleId/remove-class')
+  @Roles('TEACHER', 'SCHOOL_ADMIN', 'SCHOOL_STAFF')
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER'], resource: 'module', param: 'moduleId' })
   @ApiOperation({ summary: 'Remove module from its class' })
   @ApiParam({ name: 'moduleId', description: 'Module ID', type: String })
   @ApiResponse({ status: 200, description: 'Module removed from class successfully.' })
@@ -152,10 +173,17 @@ export class ModuleController {
   }
 
   @Post('bulk')
+  @Roles('TEACHER', 'SCHOOL_ADMIN', 'SCHOOL_STAFF')
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER'], resource: 'class', param: 'classId', optional: true })
   @ApiOperation({ summary: 'Create multiple modules in bulk' })
+  @ApiQuery({ name: 'classId', required: false, description: 'Class all the modules are created in', type: String })
   @ApiResponse({ status: 201, description: 'Bulk creation completed with results.' })
   @ApiResponse({ status: 400, description: 'Bad Request - Validation failed for one or more items.' })
-  bulkCreate(@Body() createModuleDtos: CreateModuleDto[]) {
-    return this.moduleService.bulkCreateModules(createModuleDtos);
+  bulkCreate(@Body() createModuleDtos: CreateModuleDto[], @Query('classId') classId?: string) {
+    // The class is checked once for the whole batch, so items cannot name another one
+    if (!Array.isArray(createModuleDtos) || createModuleDtos.some(dto => dto?.classId && dto.classId !== classId)) {
+      throw new BadRequestException('Modules created in bulk must all belong to the class given as the classId query');
+    }
+    return this.moduleService.bulkCreateModules(createModuleDtos.map(dto => ({ ...dto, classId: classId ?? null })));
   }
 }
\ No newline at end of file
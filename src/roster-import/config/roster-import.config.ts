@@ -0,0 +1,10 @@
+import { registerAs } from "@nestjs/config"
+
+export default registerAs("rosterImport", () => ({
+  // Where the credentials reports are written until they expire
+  directory: process.env.ROSTER_IMPORT_DIR ?? '.tmp/roster-imports',
+  ttlHours: Number(process.env.ROSTER_IMPORT_TTL_HOURS ?? 24),
+  maxRows: Number(process.env.ROSTER_IMPORT_MAX_ROWS ?? 2000),
+  // How often expired credentials reports are removed, 0 turns the sweep off
+  sweepIntervalMinutes: Number(process.env.ROSTER_IMPORT_SWEEP_MINUTES ?? 60),
+}))
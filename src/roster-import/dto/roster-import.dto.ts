@@ -0,0 +1,48 @@
+import * as z from "zod"
+import { Gender } from "generated/prisma"
+
+export const RosterRoleEnum = z.enum(["STUDENT", "TEACHER", "STAFF"], {
+  errorMap: () => ({ message: "Role must be STUDENT, TEACHER or STAFF" })
+})
+
+export type RosterRole = z.infer<typeof RosterRoleEnum>
+
+const GENDER_ALIASES: Record<string, string> = { M: "MALE", F: "FEMALE" }
+
+// Sent along with the file, as multipart form fields
+export const UploadRosterSchema = z.object({
+  // Used for the rows that have no role column or leave it empty
+  role: z.preprocess(
+    value => typeof value === "string" && value.trim() ? value.trim().toUpperCase() : undefined,
+    RosterRoleEnum.optional(),
+  ),
+})
+
+export type UploadRosterDto = z.infer<typeof UploadRosterSchema>
+
+// One row of the uploaded file, empty cells are left out before validation
+export const RosterRowSchema = z.object({
+  fullName: z.string({ required_error: "Full name is required" }).max(100, {
+    message: "Full name must be at most 100 characters"
+  }),
+  email: z.string({ required_error: "Email is required" }).toLowerCase().email({
+    message: "Invalid email address"
+  }),
+  role: z.preprocess(
+    value => typeof value === "string" ? value.toUpperCase() : value,
+    RosterRoleEnum,
+  ),
+  className: z.string().optional(),
+  roleTitle: z.string().max(100, {
+    message: "Role title must be at most 100 characters"
+  }).optional(),
+  phoneNumber: z.string().max(30, {
+    message: "Phone number must be at most 30 characters"
+  }).optional(),
+  gender: z.preprocess(
+    value => typeof value === "string" ? GENDER_ALIASES[value.toUpperCase()] ?? value.toUpperCase() : value,
+    z.nativeEnum(Gender, { errorMap: () => ({ message: "Gender must be FEMALE, MALE, OTHER or PREFER_NOT_TO_SAY" }) }).optional(),
+  ),
+})
+
+export type RosterRowDto = z.infer<typeof RosterRowSchema>
@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RosterImportController } from './roster-import.controller';
+import { RosterImportService } from './roster-import.service';
+import { DbService } from '../db/db.service';
+
+describe('RosterImportController', () => {
+  let controller: RosterImportController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [RosterImportController],
+      providers: [
+        { provide: RosterImportService, useValue: {} },
+        { provide: DbService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<RosterImportController>(RosterImportController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
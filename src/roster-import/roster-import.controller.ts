@@ -0,0 +1,53 @@
+import { Body, Controller, Get, Param, Post, Request, StreamableFile, UploadedFile, UseGuards, UseInterceptors } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { RosterImportService, UploadedRosterFile } from './roster-import.service';
+import { UploadRosterDto, UploadRosterSchema } from './dto/roster-import.dto';
+import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
+import { PassportJswAuthGuard } from '../common/guards/passport-jwt.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { SchoolRoles } from '../auth/decorators/school-roles.decorator';
+import { BlockImpersonation } from '../auth/decorators/block-impersonation.decorator';
+import { AuthUserDto } from '../user/dto/user.dto';
+
+const MAX_FILE_SIZE_BYTES = 5 * 1024 * 1024;
+
+@Controller('school/:schoolId/roster-imports')
+@UseGuards(PassportJswAuthGuard, RolesGuard)
+@SchoolRoles({ members: ['OWNER', 'STAFF'] })
+export class RosterImportController {
+  constructor(private readonly rosterImportService: RosterImportService) { }
+
+  // Only validates the file, nothing is created until the import is confirmed
+  @Post()
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_FILE_SIZE_BYTES } }))
+  preview(
+    @Request() request: { user: AuthUserDto },
+    @Param('schoolId') schoolId: string,
+    @UploadedFile() file: UploadedRosterFile | undefined,
+    @Body(new ZodValidationPipe(UploadRosterSchema)) uploadRosterDto: UploadRosterDto,
+  ) {
+    return this.rosterImportService.preview(schoolId, request.user.id, file, uploadRosterDto);
+  }
+
+  @Get(':id')
+  findOne(@Param('schoolId') schoolId: string, @Param('id') id: string) {
+    return this.rosterImportService.findOne(schoolId, id);
+  }
+
+  @Post(':id/confirm')
+  @BlockImpersonation()
+  confirm(@Param('schoolId') schoolId: string, @Param('id') id: string) {
+    return this.rosterImportService.confirm(schoolId, id);
+  }
+
+  // Can only be downloaded once, the temporary passwords are not kept after that
+  @Get(':id/credentials')
+  @BlockImpersonation()
+  async downloadCredentials(@Param('schoolId') schoolId: string, @Param('id') id: string) {
+    const { fileName, content } = await this.rosterImportService.getReport(schoolId, id);
+    return new StreamableFile(content, {
+      type: 'text/csv',
+      disposition: `attachment; filename="${fileName}"`,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { RosterImportService } from './roster-import.service';
+import { RosterImportController } from './roster-import.controller';
+import { DbModule } from '../db/db.module';
+import rosterImportConfig from './config/roster-import.config';
+
+@Module({
+  controllers: [RosterImportController],
+  providers: [RosterImportService],
+  imports: [DbModule, ConfigModule.forFeature(rosterImportConfig)]
+})
+export class RosterImportModule { }
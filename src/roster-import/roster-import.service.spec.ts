@@ -0,0 +1,110 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RosterImportService } from './roster-import.service';
+import { DbService } from '../db/db.service';
+import rosterImportConfig from './config/roster-import.config';
+
+describe('RosterImportService', () => {
+  let service: RosterImportService;
+  let db: {
+    user: { findMany: jest.Mock };
+    class: { findMany: jest.Mock };
+    rosterImport: { create: jest.Mock };
+  };
+
+  const csvFile = (...lines: string[]) => ({ originalname: 'roster.csv', buffer: Buffer.from(lines.join('\n')) });
+
+  beforeEach(async () => {
+    db = {
+      user: { findMany: jest.fn().mockResolvedValue([]) },
+      class: { findMany: jest.fn().mockResolvedValue([{ id: 'class-1', name: 'S1 A' }]) },
+      rosterImport: {
+        create: jest.fn(({ data }) => Promise.resolve({
+          id: 'import-1',
+          status: 'PENDING',
+          createdRows: 0,
+          error: null,
+          completedAt: null,
+          reportPath: null,
+          ...data,
+        })),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RosterImportService,
+        { provide: DbService, useValue: db },
+        { provide: rosterImportConfig.KEY, useValue: { directory: '.tmp/roster-imports', ttlHours: 24, maxRows: 3 } },
+      ],
+    }).compile();
+
+    service = module.get<RosterImportService>(RosterImportService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('keeps valid rows and matches classes by name', async () => {
+    const preview = await service.preview('school-1', 'owner-1', csvFile(
+      'Full Name,Email,Role,Class,Gender',
+      'Ada Lovelace,ADA@example.com,student,s1 a,f',
+    ), {});
+
+    expect(preview.validRows).toBe(1);
+    expect(preview.rows[0]).toEqual(expect.objectContaining({
+      line: 2, email: 'ada@example.com', role: 'STUDENT', classId: 'class-1', gender: 'FEMALE', errors: [],
+    }));
+  });
+
+  it('reports the errors of every row with its line in the file', async () => {
+    db.user.findMany.mockResolvedValue([{ email: 'taken@example.com' }]);
+
+    const preview = await service.preview('school-1', 'owner-1', csvFile(
+      'Name,Email,Class',
+      'Grace Hopper,grace@example.com,S9',
+      'Grace Hopper,grace@example.com,',
+      'Alan Turing,taken@example.com,',
+    ), { role: 'STUDENT' });
+
+    expect(preview.validRows).toBe(0);
+    expect(preview.rows.map(row => [row.line, row.errors])).toEqual([
+      [2, ['Unknown class "S9"']],
+      [3, ['Duplicate of the email on line 2']],
+      [4, ['Email already used by an existing account, send this person an invitation instead']],
+    ]);
+    expect(preview.duplicateEmails).toEqual(['grace@example.com']);
+    expect(preview.unknownClasses).toEqual(['S9']);
+  });
+
+  it('reports invalid cells without stopping the import', async () => {
+    const preview = await service.preview('school-1', 'owner-1', csvFile(
+      'Name,Email,Role',
+      'Ada Lovelace,not-an-email,PARENT',
+      'Katherine Johnson,katherine@example.com,staff',
+    ), {});
+
+    expect(preview.rows[0].errors).toEqual(['Invalid email address', 'Role must be STUDENT, TEACHER or STAFF']);
+    expect(preview.rows[1]).toEqual(expect.objectContaining({ role: 'STAFF', roleTitle: 'Staff', errors: [] }));
+    expect(preview.validRows).toBe(1);
+  });
+
+  it('refuses a file without the required columns', async () => {
+    await expect(service.preview('school-1', 'owner-1', csvFile('Name,Phone', 'Ada,123'), {}))
+      .rejects.toThrow('Missing columns: email, role');
+    expect(db.rosterImport.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a file with more rows than allowed', async () => {
+    const rows = Array.from({ length: 4 }, (_, index) => `Person ${index},person${index}@example.com`);
+
+    await expect(service.preview('school-1', 'owner-1', csvFile('Name,Email', ...rows), { role: 'TEACHER' }))
+      .rejects.toThrow('A file can hold at most 3 rows');
+  });
+
+  it('refuses other file types', async () => {
+    await expect(service.preview('school-1', 'owner-1', { originalname: 'roster.txt', buffer: Buffer.from('') }, {}))
+      .rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,504 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { extname, join } from 'path';
+import { Workbook } from 'exceljs';
+import { Prisma, RosterImport, RosterImportRow, UserRole } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import { parseCsv, toCsv } from '../common/utils/csv.util';
+import { generateCode, generateTemporaryPassword, generateUsername } from '../common/utils/characters.util';
+import { hashPassword } from '../common/utils/hash.util';
+import { isObjectId } from '../common/utils/school-membership.util';
+import { RosterRole, RosterRowSchema, UploadRosterDto } from './dto/roster-import.dto';
+import rosterImportConfig from './config/roster-import.config';
+
+// Imports still processing after this long were interrupted, e.g. by a restart
+const STALE_IMPORT_MS = 30 * 60 * 1000;
+
+const DEFAULT_STAFF_ROLE_TITLE = 'Staff';
+
+const PLATFORM_ROLES: Record<RosterRole, UserRole> = {
+  STUDENT: 'STUDENT',
+  TEACHER: 'TEACHER',
+  STAFF: 'SCHOOL_STAFF',
+};
+
+type RosterColumn = 'fullName' | 'email' | 'role' | 'className' | 'roleTitle' | 'phoneNumber' | 'gender';
+
+// Header cells are matched lowercased, without spaces or punctuation
+const COLUMN_ALIASES: Record<string, RosterColumn> = {
+  fullname: 'fullName',
+  name: 'fullName',
+  email: 'email',
+  emailaddress: 'email',
+  role: 'role',
+  class: 'className',
+  classname: 'className',
+  roletitle: 'roleTitle',
+  staffrole: 'roleTitle',
+  position: 'roleTitle',
+  phone: 'phoneNumber',
+  phonenumber: 'phoneNumber',
+  gender: 'gender',
+};
+
+export interface UploadedRosterFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+export interface RosterImportView {
+  id: string;
+  fileName: string;
+  status: RosterImport['status'];
+  totalRows: number;
+  validRows: number;
+  createdRows: number;
+  duplicateEmails: string[];
+  unknownClasses: string[];
+  rows: RosterImportRow[];
+  error: string | null;
+  expiresAt: Date;
+  completedAt: Date | null;
+  // Set once the accounts are created
+  reportUrl: string | null;
+}
+
+export interface RosterImportReport {
+  fileName: string;
+  content: Buffer;
+}
+
+/**
+ * Creates student, teacher and staff accounts in bulk from a CSV or XLSX
+ * file. Uploading a file only validates it and keeps the rows as a preview;
+ * the accounts are created in the background once the preview is confirmed,
+ * and the generated usernames and temporary passwords are written to a
+ * credentials report. The report can be downloaded once, and is removed
+ * when the import expires if nobody downloaded it.
+ */
+@Injectable()
+export class RosterImportService {
+  private readonly logger = new Logger(RosterImportService.name);
+
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly dbService: DbService,
+    @Inject(rosterImportConfig.KEY)
+    private readonly importConfiguration: ConfigType<typeof rosterImportConfig>,
+  ) { }
+
+  onModuleInit() {
+    const intervalMinutes = this.importConfiguration.sweepIntervalMinutes;
+    if (intervalMinutes <= 0) return;
+    this.sweepTimer = setInterval(() => void this.removeExpiredReports(), intervalMinutes * 60 * 1000);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  async preview(schoolId: string, createdById: string, file: UploadedRosterFile | undefined, dto: UploadRosterDto): Promise<RosterImportView> {
+    if (!file) {
+      throw new BadRequestException('Upload a .csv or .xlsx file in the "file" field');
+    }
+
+    const [header = [], ...lines] = await this.readCells(file);
+    const columns = header.map(cell => COLUMN_ALIASES[cell.toLowerCase().replace(/[^a-z]/g, '')]);
+    const missing = ['fullName', 'email', ...(dto.role ? [] : ['role'])]
+      .filter(column => !columns.includes(column as RosterColumn));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Missing columns: ${missing.join(', ')}`);
+    }
+
+    // Line numbers follow the file, the header being line 1
+    const entries = lines
+      .map((cells, index) => ({ line: index + 2, cells }))
+      .filter(entry => entry.cells.some(cell => cell.trim() !== ''));
+    if (entries.length === 0) {
+      throw new BadRequestException('The file has no rows to import');
+    }
+    if (entries.length > this.importConfiguration.maxRows) {
+      throw new BadRequestException(`A file can hold at most ${this.importConfiguration.maxRows} rows, split it into several imports`);
+    }
+
+    const rows = entries.map(({ line, cells }) => {
+      const values: Partial<Record<RosterColumn, string>> = {};
+      columns.forEach((column, index) => {
+        const value = cells[index]?.trim();
+        if (column && value && !values[column]) values[column] = value;
+      });
+      values.role ??= dto.role;
+      return this.validateRow(line, values);
+    });
+    await this.checkRows(schoolId, rows);
+
+    const rosterImport = await this.dbService.rosterImport.create({
+      data: {
+        schoolId,
+        createdById,
+        fileName: file.originalname,
+        rows,
+        validRows: rows.filter(row => row.errors.length === 0).length,
+        expiresAt: new Date(Date.now() + this.importConfiguration.ttlHours * 60 * 60 * 1000),
+      },
+    });
+    return this.toView(rosterImport);
+  }
+
+  async findOne(schoolId: string, id: string): Promise<RosterImportView> {
+    return this.toView(await this.findForSchool(schoolId, id));
+  }
+
+  /**
+   * Starts creating the accounts of the valid rows, the caller polls the
+   * import until it is completed.
+   */
+  async confirm(schoolId: string, id: string): Promise<RosterImportView> {
+    const rosterImport = await this.findForSchool(schoolId, id);
+    if (rosterImport.expiresAt <= new Date()) {
+      throw new BadRequestException('This import has expired, upload the file again');
+    }
+    if (rosterImport.validRows === 0) {
+      throw new BadRequestException('No row can be imported, fix the errors and upload the file again');
+    }
+    const stale = rosterImport.status === 'PROCESSING' && Date.now() - rosterImport.updatedAt.getTime() > STALE_IMPORT_MS;
+    if (rosterImport.status !== 'PREVIEWED' && !stale) {
+      throw new BadRequestException('This import has already been confirmed');
+    }
+
+    // Only one confirmation can move the import out of PREVIEWED
+    const started = await this.dbService.rosterImport.updateMany({
+      where: { id, status: rosterImport.status, updatedAt: rosterImport.updatedAt },
+      data: { status: 'PROCESSING', error: null },
+    });
+    if (started.count === 0) {
+      throw new BadRequestException('This import has already been confirmed');
+    }
+
+    // Runs after the response, errors are recorded on the import itself
+    setImmediate(() => void this.process(id));
+    return this.toView({ ...rosterImport, status: 'PROCESSING', error: null });
+  }
+
+  /**
+   * Returns the credentials report and removes it, so that the temporary
+   * passwords only ever leave the server once.
+   */
+  async getReport(schoolId: string, id: string): Promise<RosterImportReport> {
+    const rosterImport = await this.findForSchool(schoolId, id);
+    if (rosterImport.reportDownloadedAt) {
+      throw new BadRequestException('The credentials report has already been downloaded, reset the passwords of the accounts instead');
+    }
+    if (rosterImport.status !== 'COMPLETED' || !rosterImport.reportPath) {
+      throw new BadRequestException('The credentials report is not ready yet');
+    }
+    if (rosterImport.expiresAt <= new Date()) {
+      await this.removeReport(rosterImport.id, rosterImport.reportPath);
+      throw new BadRequestException('The credentials report has expired, reset the passwords of the accounts instead');
+    }
+
+    const content = await readFile(rosterImport.reportPath);
+    // Only one download can take the report
+    const taken = await this.dbService.rosterImport.updateMany({
+      where: { id, reportPath: rosterImport.reportPath },
+      data: { reportPath: null, reportDownloadedAt: new Date() },
+    });
+    if (taken.count === 0) {
+      throw new BadRequestException('The credentials report has already been downloaded, reset the passwords of the accounts instead');
+    }
+    await rm(rosterImport.reportPath, { force: true });
+
+    const baseName = rosterImport.fileName.replace(/\.[^.]+$/, '');
+    return { fileName: `${baseName}-credentials.csv`, content };
+  }
+
+  // Also runs on a timer, so that reports nobody downloaded do not stay on disk
+  async removeExpiredReports(): Promise<number> {
+    const expired = await this.dbService.rosterImport.findMany({
+      where: { reportPath: { not: null }, expiresAt: { lte: new Date() } },
+      select: { id: true, reportPath: true },
+    });
+    for (const rosterImport of expired) {
+      try {
+        await this.removeReport(rosterImport.id, rosterImport.reportPath!);
+      } catch (error) {
+        this.logger.error(`Could not remove the credentials report of roster import ${rosterImport.id}: ${error.message}`);
+      }
+    }
+    return expired.length;
+  }
+
+  /**
+   * Creates the accounts of an import one row at a time, so that a row that
+   * fails (e.g. an email registered since the preview) does not stop the others.
+   */
+  async process(id: string): Promise<void> {
+    const rosterImport = await this.dbService.rosterImport.findUniqueOrThrow({ where: { id } });
+
+    try {
+      const report: Record<string, unknown>[] = [];
+      let createdRows = 0;
+
+      for (const row of rosterImport.rows) {
+        const entry = { line: row.line, fullName: row.fullName, email: row.email, role: row.role, class: row.className ?? '' };
+        if (row.errors.length > 0) {
+          report.push({ ...entry, username: '', temporaryPassword: '', status: 'skipped', note: row.errors.join('; ') });
+          continue;
+        }
+
+        try {
+          const credentials = await this.createAccount(rosterImport, row);
+          report.push({ ...entry, ...credentials, status: 'created', note: '' });
+          createdRows++;
+        } catch (error) {
+          const note = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+            ? 'Email already used by an existing account'
+            : 'The account could not be created';
+          if (!(error instanceof Prisma.PrismaClientKnownRequestError)) {
+            this.logger.error(`Roster import ${id} failed on line ${row.line}: ${error.message}`, error.stack);
+          }
+          report.push({ ...entry, username: '', temporaryPassword: '', status: 'failed', note });
+        }
+      }
+
+      const directory = this.importConfiguration.directory;
+      const reportPath = join(directory, `${id}.csv`);
+      await mkdir(directory, { recursive: true });
+      await writeFile(reportPath, toCsv(report), { mode: 0o600 });
+
+      await this.dbService.rosterImport.update({
+        where: { id },
+        data: {
+          status: 'COMPLETED',
+          createdRows,
+          reportPath,
+          completedAt: new Date(),
+          expiresAt: new Date(Date.now() + this.importConfiguration.ttlHours * 60 * 60 * 1000),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Roster import ${id} failed: ${error.message}`, error.stack);
+      await this.dbService.rosterImport.update({
+        where: { id },
+        data: { status: 'FAILED', error: 'The import stopped before the end, check the accounts created and upload the remaining rows' },
+      }).catch(() => undefined);
+    }
+  }
+
+  private async readCells(file: UploadedRosterFile): Promise<string[][]> {
+    const extension = extname(file.originalname).toLowerCase();
+    if (extension === '.csv') {
+      return parseCsv(file.buffer.toString('utf8'));
+    }
+    if (extension !== '.xlsx') {
+      throw new BadRequestException('Upload a .csv or .xlsx file');
+    }
+
+    const workbook = new Workbook();
+    try {
+      await workbook.xlsx.load(file.buffer);
+    } catch {
+      throw new BadRequestException('The file is not a valid .xlsx workbook');
+    }
+
+    // Only the first sheet is read
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+    const cells: string[][] = [];
+    for (let line = 1; line <= sheet.rowCount; line++) {
+      const row = sheet.getRow(line);
+      cells.push(Array.from({ length: sheet.columnCount }, (_, index) => row.getCell(index + 1).text ?? ''));
+    }
+    return cells;
+  }
+
+  private validateRow(line: number, values: Partial<Record<RosterColumn, string>>): RosterImportRow {
+    const validation = RosterRowSchema.safeParse(values);
+    const row: RosterImportRow = {
+      line,
+      fullName: values.fullName ?? '',
+      email: values.email?.toLowerCase() ?? '',
+      role: values.role?.toUpperCase() ?? '',
+      className: values.className ?? null,
+      classId: null,
+      roleTitle: null,
+      phoneNumber: values.phoneNumber ?? null,
+      gender: null,
+      errors: [],
+    };
+    if (!validation.success) {
+      row.errors = validation.error.issues.map(issue => issue.message);
+      return row;
+    }
+
+    const data = validation.data;
+    return {
+      ...row,
+      role: data.role,
+      roleTitle: data.role === 'STAFF' ? data.roleTitle ?? DEFAULT_STAFF_ROLE_TITLE : null,
+      gender: data.gender ?? null,
+    };
+  }
+
+  // Flags emails repeated in the file or already registered, and classes the school does not have
+  private async checkRows(schoolId: string, rows: RosterImportRow[]): Promise<void> {
+    const emails = [...new Set(rows.map(row => row.email).filter(Boolean))];
+    const [existingUsers, classes] = await Promise.all([
+      this.dbService.user.findMany({ where: { email: { in: emails } }, select: { email: true } }),
+      this.dbService.class.findMany({ where: { schoolId }, select: { id: true, name: true } }),
+    ]);
+    const existingEmails = new Set(existingUsers.map(user => user.email.toLowerCase()));
+    const classIds = new Map<string, string | null>();
+    for (const found of classes) {
+      const key = found.name.trim().toLowerCase();
+      // Two classes with the same name cannot be told apart
+      classIds.set(key, classIds.has(key) ? null : found.id);
+    }
+
+    const firstLines = new Map<string, number>();
+    for (const row of rows) {
+      if (row.email) {
+        const firstLine = firstLines.get(row.email);
+        if (firstLine) {
+          row.errors.push(`Duplicate of the email on line ${firstLine}`);
+        } else {
+          firstLines.set(row.email, row.line);
+        }
+        if (existingEmails.has(row.email)) {
+          row.errors.push('Email already used by an existing account, send this person an invitation instead');
+        }
+      }
+
+      if (row.className) {
+        const classId = classIds.get(row.className.toLowerCase());
+        if (row.role === 'STAFF') {
+          row.errors.push('Staff members cannot be added to a class');
+        } else if (classId === undefined) {
+          row.errors.push(`Unknown class "${row.className}"`);
+        } else if (classId === null) {
+          row.errors.push(`Several classes are named "${row.className}", rename them before importing`);
+        } else {
+          row.classId = classId;
+        }
+      }
+    }
+  }
+
+  private async createAccount(rosterImport: RosterImport, row: RosterImportRow) {
+    const { schoolId, createdById } = rosterImport;
+    const role = row.role as RosterRole;
+    const temporaryPassword = generateTemporaryPassword();
+    const password = await hashPassword(temporaryPassword);
+
+    return this.dbService.$transaction(async (tx) => {
+      const user = await tx.user.create({
+        data: {
+          email: row.email,
+          username: await this.uniqueUsername(tx, row.fullName),
+          fullName: row.fullName,
+          password,
+          role: PLATFORM_ROLES[role],
+          phoneNumber: row.phoneNumber,
+          gender: row.gender,
+          mustChangePassword: true,
+        },
+      });
+      const userId = user.id;
+
+      switch (role) {
+        case 'STUDENT':
+          await tx.student.create({
+            data: { userId, schoolId, studentFullName: user.fullName, studentEmail: user.email },
+          });
+          break;
+        case 'TEACHER': {
+          const teacher = await tx.teacher.create({
+            data: {
+              userId,
+              schoolId,
+              teacherFullName: user.fullName,
+              teacherEmail: user.email,
+              teacherPhone: user.phoneNumber,
+            },
+          });
+          if (row.classId) {
+            await tx.classMember.create({
+              data: { userId, classId: row.classId, role: 'ASSISTANT_TEACHER', invitedById: createdById, teacherRoleId: teacher.id },
+            });
+          }
+          break;
+        }
+        case 'STAFF':
+          await tx.schoolStaff.create({
+            data: {
+              userId,
+              schoolId,
+              roleTitle: row.roleTitle ?? DEFAULT_STAFF_ROLE_TITLE,
+              staffFullName: user.fullName,
+              staffEmail: user.email,
+              staffPhone: user.phoneNumber,
+            },
+          });
+          break;
+      }
+      if (role === 'STUDENT' && row.classId) {
+        await tx.classMember.create({
+          data: { userId, classId: row.classId, role: 'STUDENT', invitedById: createdById },
+        });
+      }
+
+      return { username: user.username, temporaryPassword };
+    });
+  }
+
+  // Generated usernames only get a 3 digit suffix, so collisions are retried
+  private async uniqueUsername(tx: Prisma.TransactionClient, fullName: string): Promise<string> {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const username = generateUsername(fullName);
+      const taken = await tx.user.findUnique({ where: { username }, select: { id: true } });
+      if (!taken) return username;
+    }
+    return `${generateUsername(fullName)}_${generateCode().toLowerCase()}`;
+  }
+
+  private async findForSchool(schoolId: string, id: string): Promise<RosterImport> {
+    const rosterImport = isObjectId(id) ? await this.dbService.rosterImport.findUnique({ where: { id } }) : null;
+    if (!rosterImport || rosterImport.schoolId !== schoolId) {
+      throw new NotFoundException('Import not found');
+    }
+    return rosterImport;
+  }
+
+  private async removeReport(id: string, reportPath: string): Promise<void> {
+    await rm(reportPath, { force: true });
+    await this.dbService.rosterImport.update({ where: { id }, data: { reportPath: null } });
+  }
+
+  private toView(rosterImport: RosterImport): RosterImportView {
+    const emailCounts = new Map<string, number>();
+    rosterImport.rows.forEach(row => emailCounts.set(row.email, (emailCounts.get(row.email) ?? 0) + 1));
+    const unknownClasses = rosterImport.rows
+      .filter(row => row.className && !row.classId && row.role !== 'STAFF')
+      .map(row => row.className!);
+
+    const ready = rosterImport.status === 'COMPLETED' && !!rosterImport.reportPath;
+    return {
+      id: rosterImport.id,
+      fileName: rosterImport.fileName,
+      status: rosterImport.status,
+      totalRows: rosterImport.rows.length,
+      validRows: rosterImport.validRows,
+      createdRows: rosterImport.createdRows,
+      duplicateEmails: [...emailCounts].filter(([email, count]) => email && count > 1).map(([email]) => email),
+      unknownClasses: [...new Set(unknownClasses)],
+      rows: rosterImport.rows,
+      error: rosterImport.error,
+      expiresAt: rosterImport.expiresAt,
+      completedAt: rosterImport.completedAt,
+      reportUrl: ready ? `/school/${rosterImport.schoolId}/roster-imports/${rosterImport.id}/credentials` : null,
+    };
+  }
+}
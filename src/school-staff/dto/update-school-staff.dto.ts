@@ -1,11 +1,7 @@
 import { z } from 'zod';
+
+// The user and the school of a staff record cannot be changed, remove it and add a new one instead
 export const updateSchoolStaffSchema = z.object({
-    userId: z.string().refine(val => /^[0-9a-fA-F]{24}$/.test(val), {
-        message: 'Invalid userId format (must be a 24-character hex string)',
-    }).optional(),
-    schoolId: z.string().refine(val => /^[0-9a-fA-F]{24}$/.test(val), {
-        message: 'Invalid schoolId format (must be a 24-character hex string)',
-    }).optional(),
     role: z.string().min(1, 'Role cannot be empty').optional(),
     email: z.string().email('Invalid email format').optional().nullable(),
     name: z.string().min(1, 'Name cannot be empty').optional().nullable(),
@@ -1,12 +1,17 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, UsePipes, ParseUUIDPipe, HttpCode, HttpStatus, Query } from '@nestjs/common';
+import { Controller, Get, Post, Body, Patch, Param, Delete, UsePipes, ParseUUIDPipe, HttpCode, HttpStatus, Query, UseGuards } from '@nestjs/common';
 import { SchoolStaffService } from './school-staff.service';
 import { SchoolStaff } from 'generated/prisma';
 import { ZodValidationPipe } from 'src/common/pipes/zod-validation.pipe';
 import { CreateSchoolStaffDto, createSchoolStaffSchema } from './dto/create-school-staff.dto';
 import { UpdateSchoolStaffDto, updateSchoolStaffSchema } from './dto/update-school-staff.dto';
 import { FindByUserIdAndSchoolIdQuery, findByUserIdAndSchoolIdSchema } from './dto/find-school-staff-by-userId-schoolId';
+import { JwtOrApiKeyGuard } from 'src/common/guards/jwt-or-api-key.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { SchoolRoles } from 'src/auth/decorators/school-roles.decorator';
+import { ApiKeyScopes } from 'src/auth/decorators/api-key-scopes.decorator';
 
 @Controller('school-staff')
+@UseGuards(JwtOrApiKeyGuard, RolesGuard)
 export class SchoolStaffController {
   constructor(private readonly schoolStaffService: SchoolStaffService) { }
 
@@ -17,6 +22,8 @@ export class SchoolStaffController {
    * @returns The created school staff record.
    */
   @Post()
+  @SchoolRoles({ members: ['OWNER', 'STAFF'] })
+  @ApiKeyScopes('staff:write')
   @UsePipes(new ZodValidationPipe(createSchoolStaffSchema))
   async create(@Body() createSchoolStaffDto: CreateSchoolStaffDto): Promise<SchoolStaff> {
     return this.schoolStaffService.create(createSchoolStaffDto);
@@ -27,6 +34,7 @@ export class SchoolStaffController {
    * @returns A list of all school staff records.
    */
   @Get()
+  @ApiKeyScopes('staff:read')
   async findAll(
     @Query('schoolId') schoolId?: string, // Get optional schoolId from query string (?schoolId=...)
     @Query('userId') userId?: string, 
@@ -60,8 +68,12 @@ export class SchoolStaffController {
    * @returns The updated school staff record.
    */
   @Patch(':id')
-  @UsePipes(new ZodValidationPipe(updateSchoolStaffSchema))
-  async update(@Param('id') id: string, @Body() updateSchoolStaffDto: UpdateSchoolStaffDto): Promise<SchoolStaff> {
+  @SchoolRoles({ members: ['OWNER', 'STAFF'], resource: 'schoolStaff' })
+  @ApiKeyScopes('staff:write')
+  async update(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(updateSchoolStaffSchema)) updateSchoolStaffDto: UpdateSchoolStaffDto,
+  ): Promise<SchoolStaff> {
     return this.schoolStaffService.update(id, updateSchoolStaffDto);
   }
 
@@ -72,6 +84,8 @@ export class SchoolStaffController {
    * @returns The deleted school staff record.
    */
   @Delete(':id')
+  @SchoolRoles({ members: ['OWNER', 'STAFF'], resource: 'schoolStaff' })
+  @ApiKeyScopes('staff:write')
   @HttpCode(HttpStatus.NO_CONTENT) // Indicate successful deletion with no content
   async remove(@Param('id') id: string): Promise<void> {
     await this.schoolStaffService.remove(id);
@@ -108,7 +108,13 @@ export class SchoolStaffService {
 
     return this.dbService.schoolStaff.update({
       where: { id },
-      data,
+      data: {
+        roleTitle: data.role,
+        staffFullName: data.name,
+        staffEmail: data.email,
+        staffPhone: data.phone,
+        staffImage: data.image,
+      },
     });
   }
 
@@ -0,0 +1,144 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SchoolAcademicStageInfo } from 'generated/prisma';
+import { AcademicRolloverService } from './academic-rollover.service';
+import { CurriculumTemplateService } from './curriculum-template.service';
+import { DbService } from '../db/db.service';
+
+describe('AcademicRolloverService', () => {
+  let service: AcademicRolloverService;
+  let stages: SchoolAcademicStageInfo[];
+
+  const academicYears = [
+    { yearName: '2025-2026', startDate: new Date('2025-09-01'), endDate: new Date('2026-06-30'), terms: [] },
+    { yearName: '2026-2027', startDate: new Date('2026-09-01'), endDate: new Date('2027-06-30'), terms: [] },
+  ];
+  const sourceClass = (id: string, gradeLevel: string, userIds: string[]) => ({
+    id,
+    gradeLevel,
+    track: null,
+    academicYearName: '2025-2026',
+    primaryTeacherId: `teacher-of-${id}`,
+    courseContentModules: [{ title: 'Mathematics', subject: 'Mathematics', moduleType: 'CORE_CONTENT' }],
+    members: userIds.map(userId => ({ userId })),
+  });
+
+  const tx = {
+    class: { updateMany: jest.fn(), create: jest.fn() },
+    courseContentModule: { createMany: jest.fn() },
+    classMember: { createMany: jest.fn() },
+    student: { update: jest.fn(), updateMany: jest.fn() },
+    school: { update: jest.fn() },
+  };
+  const db = {
+    school: { findUnique: jest.fn() },
+    class: { findMany: jest.fn() },
+    student: { findMany: jest.fn() },
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) => callback(tx)),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AcademicRolloverService,
+        CurriculumTemplateService,
+        { provide: DbService, useValue: db },
+      ],
+    }).compile();
+
+    service = module.get<AcademicRolloverService>(AcademicRolloverService);
+
+    // The school offers the middle and high school stages of the K12 template
+    const curriculumTemplateService = module.get<CurriculumTemplateService>(CurriculumTemplateService);
+    const template = await curriculumTemplateService.resolve('school-1', 'K12');
+    stages = curriculumTemplateService.buildPlan(template, [{ key: 'middle' }, { key: 'high' }], 'Green Hills', '2025-2026').stages;
+
+    db.school.findUnique.mockResolvedValue({
+      id: 'school-1',
+      name: 'Green Hills',
+      academicProfile: { curriculumTemplate: 'K12', stages, academicYears },
+    });
+    db.class.findMany.mockResolvedValue([
+      sourceClass('grade-6', 'Grade 6', ['user-a']),
+      sourceClass('grade-8', 'Grade 8', ['user-b', 'user-c']),
+      sourceClass('grade-12', 'Grade 12', ['user-d']),
+    ]);
+    db.student.findMany.mockResolvedValue(['a', 'b', 'c', 'd'].map(letter => ({
+      id: `student-${letter}`, userId: `user-${letter}`, studentFullName: `Student ${letter.toUpperCase()}`,
+    })));
+    tx.class.create.mockImplementation(({ data }) => Promise.resolve({ id: `new-${data.gradeLevel}` }));
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('promotes students, across stages too, and graduates the last grade level', async () => {
+    const result = await service.rollover('school-1', '2026-2027', {
+      carryPrimaryTeachers: false,
+      overrides: [{ studentId: 'student-c', action: 'REPEAT' }],
+    }, true);
+
+    expect(result.fromYear).toBe('2025-2026');
+    expect(result.students.map(({ studentId, action, toGradeLevel }) => [studentId, action, toGradeLevel])).toEqual([
+      ['student-a', 'promote', 'Grade 7'],
+      ['student-b', 'promote', 'Grade 9'],
+      ['student-c', 'repeat', 'Grade 8'],
+      ['student-d', 'graduate', null],
+    ]);
+    expect(result.classes.find(change => change.gradeLevel === 'Grade 9')).toEqual(expect.objectContaining({
+      students: 1,
+      primaryTeacherId: null,
+    }));
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('creates the classes of the new year and archives the old ones', async () => {
+    await service.rollover('school-1', '2026-2027', {
+      carryPrimaryTeachers: true,
+      overrides: [{ studentId: 'student-a', action: 'TRANSFER_OUT' }],
+    });
+
+    expect(tx.class.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['grade-6', 'grade-8', 'grade-12'] } },
+      data: { archivedAt: expect.any(Date) },
+    });
+    expect(tx.class.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ gradeLevel: 'Grade 8', academicYearName: '2026-2027', primaryTeacherId: 'teacher-of-grade-8' }),
+    }));
+    expect(tx.classMember.createMany).toHaveBeenCalledWith({
+      data: [
+        { userId: 'user-b', classId: 'new-Grade 9', role: 'STUDENT' },
+        { userId: 'user-c', classId: 'new-Grade 9', role: 'STUDENT' },
+      ],
+    });
+    expect(tx.student.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['student-d'] } },
+      data: expect.objectContaining({ status: 'GRADUATED', isActive: false }),
+    });
+    expect(tx.student.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['student-a'] } },
+      data: expect.objectContaining({ status: 'TRANSFERRED_OUT', isActive: false }),
+    });
+  });
+
+  it('refuses to roll over while some students cannot be placed', async () => {
+    db.school.findUnique.mockResolvedValue({
+      id: 'school-1',
+      name: 'Green Hills',
+      // Grade 6 is no longer offered
+      academicProfile: { curriculumTemplate: 'K12', stages: stages.filter(stage => stage.key === 'high'), academicYears },
+    });
+
+    await expect(service.rollover('school-1', '2026-2027', { carryPrimaryTeachers: false, overrides: [] }))
+      .rejects.toThrow(BadRequestException);
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('refuses a year the classes are already set up for', async () => {
+    await expect(service.rollover('school-1', '2025-2026', { carryPrimaryTeachers: false, overrides: [] }, true))
+      .rejects.toThrow(ConflictException);
+  });
+});
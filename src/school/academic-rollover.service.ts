@@ -0,0 +1,377 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, SchoolAcademicStageInfo, SchoolAcademicYearInfo } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import { generateCode, generateUsername } from '../common/utils/characters.util';
+import { resolveCurrentTerm } from '../common/utils/academic-term.util';
+import { AcademicClassPlan, CurriculumTemplateService } from './curriculum-template.service';
+import {
+    AcademicRolloverDto,
+    AcademicRolloverResultDto,
+    RolloverClassChange,
+    RolloverOverrideDto,
+    RolloverStudentChange,
+} from './dto/academic-rollover.dto';
+
+// The rollover writes every class, module and membership in one transaction
+const ROLLOVER_TIMEOUT_MS = 60 * 1000;
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const placement = (gradeLevel: string, track: string | null) => `${gradeLevel}|${track ?? ''}`.toLowerCase();
+
+const sourceClassSelect = {
+    id: true,
+    gradeLevel: true,
+    track: true,
+    academicYearName: true,
+    primaryTeacherId: true,
+    courseContentModules: {
+        where: { archivedAt: null },
+        select: {
+            title: true,
+            description: true,
+            orderInClass: true,
+            moduleType: true,
+            subject: true,
+            estimatedLearningHours: true,
+            isVisibleToStudents: true,
+        },
+    },
+    members: { where: { role: 'STUDENT', isActive: true }, select: { userId: true } },
+} satisfies Prisma.ClassSelect;
+
+type SourceClass = Prisma.ClassGetPayload<{ select: typeof sourceClassSelect }>;
+
+interface RolloverTarget {
+    change: RolloverClassChange;
+    planned: AcademicClassPlan;
+    source?: SourceClass;
+}
+
+interface StudentToPlace {
+    id: string;
+    userId: string;
+    studentFullName: string | null;
+}
+
+/**
+ * Moves a school into its next academic year: the classes set up from the
+ * curriculum template are cloned into the new year, students are promoted
+ * to the next grade level, or graduate after the last stage, and last
+ * year's classes are archived.
+ */
+@Injectable()
+export class AcademicRolloverService {
+    constructor(
+        private readonly dbService: DbService,
+        private readonly curriculumTemplateService: CurriculumTemplateService,
+    ) { }
+
+    /**
+     * @param schoolId The school to roll over.
+     * @param toYearName One of the school's academic years, the classes are created for it.
+     * @param dto Whether to keep the class teachers, and the students who repeat or leave.
+     * @param dryRun Returns the changes without writing anything.
+     */
+    async rollover(
+        schoolId: string,
+        toYearName: string,
+        dto: AcademicRolloverDto,
+        dryRun = false,
+    ): Promise<AcademicRolloverResultDto> {
+        const school = await this.dbService.school.findUnique({
+            where: { id: schoolId },
+            select: { id: true, name: true, academicProfile: true },
+        });
+        if (!school) {
+            throw new NotFoundException(`School with ID "${schoolId}" not found`);
+        }
+
+        const profile = school.academicProfile;
+        if (!profile?.curriculumTemplate || profile.stages.length === 0) {
+            throw new BadRequestException('Set up the academic structure of the school before rolling it over');
+        }
+        const toYear = profile.academicYears.find(year => sameName(year.yearName, toYearName));
+        if (!toYear) {
+            throw new NotFoundException(`Academic year "${toYearName}" not found`);
+        }
+
+        const sources = await this.dbService.class.findMany({
+            where: { schoolId, archivedAt: null, gradeLevel: { not: null } },
+            select: sourceClassSelect,
+            orderBy: { createdAt: 'asc' },
+        });
+        if (sources.length === 0) {
+            throw new BadRequestException('There are no classes to roll over, run the academic setup first');
+        }
+        const fromYear = this.findFromYear(sources, profile.academicYears, toYear);
+
+        const template = await this.curriculumTemplateService.resolve(schoolId, profile.curriculumTemplate);
+        const plan = this.curriculumTemplateService.buildPlan(
+            template,
+            profile.stages.map(stage => ({
+                key: stage.key,
+                tracks: stage.tracks,
+                coreSubjects: stage.coreSubjects,
+                optionSubjects: stage.optionSubjects,
+                passMark: stage.passMark ?? undefined,
+            })),
+            school.name,
+            toYear.yearName,
+        );
+
+        const sourceByPlacement = new Map<string, SourceClass>();
+        for (const source of sources) {
+            const key = placement(source.gradeLevel!, source.track);
+            if (!sourceByPlacement.has(key)) sourceByPlacement.set(key, source);
+        }
+        const targets: RolloverTarget[] = plan.classes.map(planned => {
+            const source = sourceByPlacement.get(placement(planned.gradeLevel, planned.track));
+            return {
+                planned,
+                source,
+                change: {
+                    id: null,
+                    name: planned.name,
+                    gradeLevel: planned.gradeLevel,
+                    track: planned.track,
+                    fromClassId: source?.id ?? null,
+                    primaryTeacherId: dto.carryPrimaryTeachers ? source?.primaryTeacherId ?? null : null,
+                    modules: source ? source.courseContentModules.length : planned.modules.length,
+                    students: 0,
+                },
+            };
+        });
+
+        const students = await this.placeStudents(schoolId, sources, targets, profile.stages, dto.overrides);
+
+        const result: AcademicRolloverResultDto = {
+            dryRun,
+            fromYear: fromYear?.yearName ?? null,
+            toYear: toYear.yearName,
+            classes: targets.map(target => target.change),
+            archivedClasses: sources.length,
+            students,
+        };
+        if (dryRun) return result;
+
+        const unplaced = students.filter(student => student.problem);
+        if (unplaced.length > 0) {
+            throw new BadRequestException({
+                message: 'Some students cannot be placed, add an override for each of them',
+                students: unplaced,
+            });
+        }
+
+        await this.dbService.$transaction(
+            db => this.applyRollover(db, school.id, toYear, sources, targets, students),
+            { timeout: ROLLOVER_TIMEOUT_MS },
+        );
+        return result;
+    }
+
+    // Last year is the one the classes were set up for, classes set up before years were tracked have none
+    private findFromYear(
+        sources: SourceClass[],
+        academicYears: SchoolAcademicYearInfo[],
+        toYear: SchoolAcademicYearInfo,
+    ): SchoolAcademicYearInfo | undefined {
+        if (sources.some(source => source.academicYearName && sameName(source.academicYearName, toYear.yearName))) {
+            throw new ConflictException(`The classes of ${toYear.yearName} are already set up`);
+        }
+        const fromYearName = sources.find(source => source.academicYearName)?.academicYearName;
+        const fromYear = fromYearName ? academicYears.find(year => sameName(year.yearName, fromYearName)) : undefined;
+        if (fromYear && toYear.startDate <= fromYear.startDate) {
+            throw new BadRequestException(`${toYear.yearName} must start after ${fromYear.yearName} to roll over into it`);
+        }
+        return fromYear;
+    }
+
+    private async placeStudents(
+        schoolId: string,
+        sources: SourceClass[],
+        targets: RolloverTarget[],
+        stages: SchoolAcademicStageInfo[],
+        overrides: RolloverOverrideDto[],
+    ): Promise<RolloverStudentChange[]> {
+        // Members without a student record in the school are not part of its enrollment
+        const students = await this.dbService.student.findMany({
+            where: {
+                schoolId,
+                status: 'ACTIVE',
+                userId: { in: [...new Set(sources.flatMap(source => source.members.map(member => member.userId)))] },
+            },
+            select: { id: true, userId: true, studentFullName: true },
+        });
+        const studentByUser = new Map(students.map(student => [student.userId, student]));
+
+        const overrideByStudent = new Map(overrides.map(override => [override.studentId, override]));
+        const unknown = overrides.find(override => !students.some(student => student.id === override.studentId));
+        if (unknown) {
+            throw new BadRequestException(`Student "${unknown.studentId}" is not in any of the classes to roll over`);
+        }
+
+        const changes: RolloverStudentChange[] = [];
+        const placed = new Set<string>();
+        for (const source of sources) {
+            for (const member of source.members) {
+                const student = studentByUser.get(member.userId);
+                // A student listed in several classes is placed from the first one
+                if (!student || placed.has(student.id)) continue;
+                placed.add(student.id);
+                changes.push(this.placeStudent(student, source, targets, stages, overrideByStudent.get(student.id)));
+            }
+        }
+        return changes;
+    }
+
+    private placeStudent(
+        student: StudentToPlace,
+        source: SourceClass,
+        targets: RolloverTarget[],
+        stages: SchoolAcademicStageInfo[],
+        override?: RolloverOverrideDto,
+    ): RolloverStudentChange {
+        const fromGradeLevel = source.gradeLevel!;
+        const change: RolloverStudentChange = {
+            studentId: student.id,
+            userId: student.userId,
+            fullName: student.studentFullName,
+            fromClassId: source.id,
+            fromGradeLevel,
+            action: 'promote',
+            toGradeLevel: null,
+            toTrack: null,
+            toClassName: null,
+        };
+        if (override?.action === 'TRANSFER_OUT') {
+            return { ...change, action: 'transfer_out' };
+        }
+
+        let stage = stages.find(found => found.gradeLevels.includes(fromGradeLevel));
+        if (!stage) {
+            return { ...change, problem: `The school no longer offers ${fromGradeLevel}` };
+        }
+
+        let toGradeLevel = fromGradeLevel;
+        if (override?.action === 'REPEAT') {
+            change.action = 'repeat';
+        } else {
+            const index = stage.gradeLevels.indexOf(fromGradeLevel);
+            if (index < stage.gradeLevels.length - 1) {
+                toGradeLevel = stage.gradeLevels[index + 1];
+            } else {
+                const nextStage = stages.find(found => found.key === stage!.nextStage);
+                if (!nextStage) return { ...change, action: 'graduate' };
+                stage = nextStage;
+                toGradeLevel = nextStage.gradeLevels[0];
+            }
+        }
+        change.toGradeLevel = toGradeLevel;
+
+        // Students keep their track, they pick one when moving on to a stage split by track
+        let toTrack: string | null = null;
+        if (stage.tracks.length > 0) {
+            const wanted = override?.track ?? source.track;
+            toTrack = stage.tracks.find(track => wanted && sameName(track, wanted))
+                ?? (stage.tracks.length === 1 ? stage.tracks[0] : null);
+            if (!toTrack) {
+                return { ...change, problem: `Pick one of ${stage.tracks.join(', ')} for ${toGradeLevel}` };
+            }
+        }
+        change.toTrack = toTrack;
+
+        const target = targets.find(found => placement(found.change.gradeLevel, found.change.track) === placement(toGradeLevel, toTrack));
+        if (!target) {
+            return { ...change, problem: `There is no ${toGradeLevel} ${toTrack ?? ''} class`.trim() };
+        }
+        target.change.students++;
+        change.toClassName = target.change.name;
+        return change;
+    }
+
+    private async applyRollover(
+        db: Prisma.TransactionClient,
+        schoolId: string,
+        toYear: SchoolAcademicYearInfo,
+        sources: SourceClass[],
+        targets: RolloverTarget[],
+        students: RolloverStudentChange[],
+    ): Promise<void> {
+        const now = new Date();
+        // The classes start in the running term of the new year, or its first one
+        const term = resolveCurrentTerm([toYear]);
+
+        await db.class.updateMany({
+            where: { id: { in: sources.map(source => source.id) } },
+            data: { archivedAt: now },
+        });
+
+        for (const target of targets) {
+            const { change, planned, source } = target;
+            const created = await db.class.create({
+                data: {
+                    name: change.name,
+                    username: generateUsername(change.name),
+                    schoolId,
+                    classCode: generateCode(),
+                    classType: 'MAIN_SCHOOL_CLASS',
+                    gradeLevel: change.gradeLevel,
+                    track: change.track,
+                    academicYearName: toYear.yearName,
+                    academicTermName: term?.name,
+                    startDate: term?.startDate,
+                    endDate: term?.endDate,
+                    primaryTeacherId: change.primaryTeacherId,
+                },
+                select: { id: true },
+            });
+            change.id = created.id;
+
+            const modules = source
+                ? source.courseContentModules
+                : planned.modules.map(module => ({ title: module.title, subject: module.title, moduleType: module.moduleType }));
+            if (modules.length > 0) {
+                await db.courseContentModule.createMany({
+                    data: modules.map(module => ({ ...module, classId: created.id, moduleCode: generateCode() })),
+                });
+            }
+        }
+
+        const classIdByName = new Map(targets.map(target => [target.change.name, target.change.id!]));
+        const enrolled = students.filter(student => student.toClassName);
+        if (enrolled.length > 0) {
+            await db.classMember.createMany({
+                data: enrolled.map(student => ({
+                    userId: student.userId,
+                    classId: classIdByName.get(student.toClassName!)!,
+                    role: 'STUDENT' as const,
+                })),
+            });
+        }
+        for (const student of enrolled) {
+            await db.student.update({
+                where: { id: student.studentId },
+                data: { currentGradeLevelName: student.toGradeLevel },
+            });
+        }
+
+        for (const [action, status] of [['graduate', 'GRADUATED'], ['transfer_out', 'TRANSFERRED_OUT']] as const) {
+            const leaving = students.filter(student => student.action === action).map(student => student.studentId);
+            if (leaving.length > 0) {
+                await db.student.updateMany({
+                    where: { id: { in: leaving } },
+                    data: { status, isActive: false, leftAt: now },
+                });
+            }
+        }
+
+        await db.school.update({
+            where: { id: schoolId },
+            data: {
+                totalClasses: targets.length,
+                totalModules: targets.reduce((total, target) => total + target.change.modules, 0),
+            },
+        });
+    }
+}
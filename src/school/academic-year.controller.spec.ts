@@ -0,0 +1,26 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AcademicYearController } from './academic-year.controller';
+import { AcademicYearService } from './academic-year.service';
+import { AcademicRolloverService } from './academic-rollover.service';
+import { DbService } from '../db/db.service';
+
+describe('AcademicYearController', () => {
+  let controller: AcademicYearController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [AcademicYearController],
+      providers: [
+        { provide: AcademicYearService, useValue: {} },
+        { provide: AcademicRolloverService, useValue: {} },
+        { provide: DbService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<AcademicYearController>(AcademicYearController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,102 @@
+import { Body, Controller, Delete, Get, Param, Patch, Post, Query, UseGuards } from '@nestjs/common';
+import { AcademicYearService } from './academic-year.service';
+import { AcademicRolloverService } from './academic-rollover.service';
+import { AcademicRolloverDto, AcademicRolloverSchema } from './dto/academic-rollover.dto';
+import {
+  CreateAcademicYearDto,
+  CreateAcademicYearSchema,
+  CreateTermDto,
+  CreateTermSchema,
+  UpdateAcademicYearDto,
+  UpdateAcademicYearSchema,
+  UpdateTermDto,
+  UpdateTermSchema,
+} from './dto/academic-year.dto';
+import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
+import { PassportJswAuthGuard } from '../common/guards/passport-jwt.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { SchoolRoles } from '../auth/decorators/school-roles.decorator';
+
+// Years and terms are addressed by name, e.g. /school/:id/academic-years/2025-2026/terms/Term 1
+@Controller('school/:id/academic-years')
+@UseGuards(PassportJswAuthGuard, RolesGuard)
+@SchoolRoles({ members: ['OWNER', 'STAFF'], param: 'id' })
+export class AcademicYearController {
+  constructor(
+    private readonly academicYearService: AcademicYearService,
+    private readonly academicRolloverService: AcademicRolloverService,
+  ) { }
+
+  @Get()
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER', 'STUDENT'], param: 'id' })
+  findAll(@Param('id') schoolId: string) {
+    return this.academicYearService.findAll(schoolId);
+  }
+
+  @Get('current')
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER', 'STUDENT'], param: 'id' })
+  findCurrent(@Param('id') schoolId: string) {
+    return this.academicYearService.findCurrent(schoolId);
+  }
+
+  @Post()
+  create(
+    @Param('id') schoolId: string,
+    @Body(new ZodValidationPipe(CreateAcademicYearSchema)) createAcademicYearDto: CreateAcademicYearDto,
+  ) {
+    return this.academicYearService.create(schoolId, createAcademicYearDto);
+  }
+
+  @Patch(':yearName')
+  update(
+    @Param('id') schoolId: string,
+    @Param('yearName') yearName: string,
+    @Body(new ZodValidationPipe(UpdateAcademicYearSchema)) updateAcademicYearDto: UpdateAcademicYearDto,
+  ) {
+    return this.academicYearService.update(schoolId, yearName, updateAcademicYearDto);
+  }
+
+  @Delete(':yearName')
+  remove(@Param('id') schoolId: string, @Param('yearName') yearName: string) {
+    return this.academicYearService.remove(schoolId, yearName);
+  }
+
+  // Moves the school's classes and students into this year. `dryRun=true` only returns the changes
+  @Post(':yearName/rollover')
+  rollover(
+    @Param('id') schoolId: string,
+    @Param('yearName') yearName: string,
+    @Body(new ZodValidationPipe(AcademicRolloverSchema)) academicRolloverDto: AcademicRolloverDto,
+    @Query('dryRun') dryRun?: string,
+  ) {
+    return this.academicRolloverService.rollover(schoolId, yearName, academicRolloverDto, dryRun === 'true');
+  }
+
+  @Post(':yearName/terms')
+  addTerm(
+    @Param('id') schoolId: string,
+    @Param('yearName') yearName: string,
+    @Body(new ZodValidationPipe(CreateTermSchema)) createTermDto: CreateTermDto,
+  ) {
+    return this.academicYearService.addTerm(schoolId, yearName, createTermDto);
+  }
+
+  @Patch(':yearName/terms/:termName')
+  updateTerm(
+    @Param('id') schoolId: string,
+    @Param('yearName') yearName: string,
+    @Param('termName') termName: string,
+    @Body(new ZodValidationPipe(UpdateTermSchema)) updateTermDto: UpdateTermDto,
+  ) {
+    return this.academicYearService.updateTerm(schoolId, yearName, termName, updateTermDto);
+  }
+
+  @Delete(':yearName/terms/:termName')
+  removeTerm(
+    @Param('id') schoolId: string,
+    @Param('yearName') yearName: string,
+    @Param('termName') termName: string,
+  ) {
+    return this.academicYearService.removeTerm(schoolId, yearName, termName);
+  }
+}
@@ -0,0 +1,69 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from 'generated/prisma';
+import { AcademicYearService } from './academic-year.service';
+import { DbService } from '../db/db.service';
+
+const year2026 = {
+  yearName: '2026',
+  startDate: new Date('2026-01-05'),
+  endDate: new Date('2026-11-20'),
+  terms: [{ name: 'Term 1', startDate: new Date('2026-01-05'), endDate: new Date('2026-04-03') }],
+};
+
+describe('AcademicYearService', () => {
+  let service: AcademicYearService;
+  let db: { school: { findUnique: jest.Mock; update: jest.Mock }; $transaction: jest.Mock };
+
+  beforeEach(async () => {
+    db = {
+      school: {
+        findUnique: jest.fn().mockImplementation(() => Promise.resolve({ academicProfile: { academicYears: [structuredClone(year2026)] } })),
+        update: jest.fn(),
+      },
+      $transaction: jest.fn(),
+    };
+    db.$transaction.mockImplementation(run => run(db));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AcademicYearService,
+        { provide: DbService, useValue: db },
+      ],
+    }).compile();
+
+    service = module.get<AcademicYearService>(AcademicYearService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('only writes the academic years of the profile', async () => {
+    await service.addTerm('school-1', '2026', {
+      name: 'Term 2',
+      startDate: new Date('2026-04-20'),
+      endDate: new Date('2026-07-17'),
+    });
+
+    const { data } = db.school.update.mock.calls[0][0];
+    expect(Object.keys(data.academicProfile)).toEqual(['upsert']);
+    expect(data.academicProfile.upsert.update).toEqual({ academicYears: [expect.objectContaining({ yearName: '2026' })] });
+    expect(data.academicProfile.upsert.update.academicYears[0].terms.map(term => term.name)).toEqual(['Term 1', 'Term 2']);
+  });
+
+  it('refuses overlapping terms without writing', async () => {
+    await expect(service.addTerm('school-1', '2026', {
+      name: 'Term 2',
+      startDate: new Date('2026-03-01'),
+      endDate: new Date('2026-05-01'),
+    })).rejects.toThrow('overlap');
+    expect(db.school.update).not.toHaveBeenCalled();
+  });
+
+  it('reports a concurrent change as a conflict', async () => {
+    db.$transaction.mockRejectedValue(new Prisma.PrismaClientKnownRequestError('Write conflict', { code: 'P2034', clientVersion: 'test' }));
+
+    await expect(service.remove('school-1', '2026')).rejects.toThrow(ConflictException);
+  });
+});
@@ -0,0 +1,219 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, SchoolAcademicYearInfo, SchoolTerm } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import { CurrentTerm, resolveCurrentTerm } from '../common/utils/academic-term.util';
+import {
+    AcademicYearView,
+    CreateAcademicYearDto,
+    CreateTermDto,
+    UpdateAcademicYearDto,
+    UpdateTermDto,
+} from './dto/academic-year.dto';
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const overlaps = (a: { startDate: Date; endDate: Date }, b: { startDate: Date; endDate: Date }) =>
+    a.startDate <= b.endDate && b.startDate <= a.endDate;
+
+/**
+ * Academic years and their terms, stored on the school's academic profile.
+ * Years cannot overlap, and each year's terms must fit inside it without
+ * overlapping each other, so that at most one term is current at a time.
+ * Every change reads and writes the years in one transaction, so concurrent
+ * changes cannot overwrite each other.
+ */
+@Injectable()
+export class AcademicYearService {
+    constructor(private readonly dbService: DbService) { }
+
+    async findAll(schoolId: string): Promise<AcademicYearView[]> {
+        const years = await this.findYears(schoolId);
+        const current = resolveCurrentTerm(years);
+        return years.map(year => this.toView(year, current));
+    }
+
+    async findCurrent(schoolId: string): Promise<CurrentTerm> {
+        const current = resolveCurrentTerm(await this.findYears(schoolId));
+        if (!current) {
+            throw new NotFoundException('There is no current or upcoming term, add the academic year and its terms first');
+        }
+        return current;
+    }
+
+    async create(schoolId: string, dto: CreateAcademicYearDto): Promise<AcademicYearView> {
+        return this.save(schoolId, years => {
+            if (years.some(year => sameName(year.yearName, dto.yearName))) {
+                throw new ConflictException(`Academic year "${dto.yearName}" already exists`);
+            }
+            years.push(dto);
+            return dto.yearName;
+        });
+    }
+
+    async update(schoolId: string, yearName: string, dto: UpdateAcademicYearDto): Promise<AcademicYearView> {
+        return this.save(schoolId, years => {
+            const index = this.indexOfYear(years, yearName);
+            const updated = { ...years[index], ...this.definedFields(dto) };
+            if (years.some((year, other) => other !== index && sameName(year.yearName, updated.yearName))) {
+                throw new ConflictException(`Academic year "${updated.yearName}" already exists`);
+            }
+            years[index] = updated;
+            return updated.yearName;
+        });
+    }
+
+    async remove(schoolId: string, yearName: string): Promise<{ message: string }> {
+        await this.change(schoolId, years => {
+            years.splice(this.indexOfYear(years, yearName), 1);
+        });
+        return { message: `Academic year "${yearName}" deleted` };
+    }
+
+    async addTerm(schoolId: string, yearName: string, dto: CreateTermDto): Promise<AcademicYearView> {
+        return this.save(schoolId, years => {
+            const year = years[this.indexOfYear(years, yearName)];
+            if (year.terms.some(term => sameName(term.name, dto.name))) {
+                throw new ConflictException(`Term "${dto.name}" already exists in ${year.yearName}`);
+            }
+            year.terms = [...year.terms, dto];
+            return year.yearName;
+        });
+    }
+
+    async updateTerm(schoolId: string, yearName: string, termName: string, dto: UpdateTermDto): Promise<AcademicYearView> {
+        return this.save(schoolId, years => {
+            const year = years[this.indexOfYear(years, yearName)];
+            const index = this.indexOfTerm(year, termName);
+            const updated = { ...year.terms[index], ...this.definedFields(dto) };
+            if (year.terms.some((term, other) => other !== index && sameName(term.name, updated.name))) {
+                throw new ConflictException(`Term "${updated.name}" already exists in ${year.yearName}`);
+            }
+            year.terms[index] = updated;
+            return year.yearName;
+        });
+    }
+
+    async removeTerm(schoolId: string, yearName: string, termName: string): Promise<AcademicYearView> {
+        return this.save(schoolId, years => {
+            const year = years[this.indexOfYear(years, yearName)];
+            year.terms.splice(this.indexOfTerm(year, termName), 1);
+            return year.yearName;
+        });
+    }
+
+    private async findYears(schoolId: string, db: Prisma.TransactionClient = this.dbService): Promise<SchoolAcademicYearInfo[]> {
+        const school = await db.school.findUnique({
+            where: { id: schoolId },
+            select: { academicProfile: { select: { academicYears: true } } },
+        });
+        if (!school) {
+            throw new NotFoundException(`School with ID "${schoolId}" not found`);
+        }
+        return school.academicProfile?.academicYears ?? [];
+    }
+
+    // Applies the change, then returns the view of the year it names
+    private async save(
+        schoolId: string,
+        apply: (years: SchoolAcademicYearInfo[]) => string,
+    ): Promise<AcademicYearView> {
+        let yearName = '';
+        const saved = await this.change(schoolId, years => {
+            yearName = apply(years);
+        });
+        const year = saved.find(found => found.yearName === yearName)!;
+        return this.toView(year, resolveCurrentTerm(saved));
+    }
+
+    /**
+     * Reads the years, lets `apply` change them in place, then validates and
+     * stores them. Only `academicYears` is written, the rest of the profile is
+     * left alone, and a concurrent change makes the transaction fail.
+     */
+    private async change(
+        schoolId: string,
+        apply: (years: SchoolAcademicYearInfo[]) => void,
+    ): Promise<SchoolAcademicYearInfo[]> {
+        try {
+            return await this.dbService.$transaction(async (tx) => {
+                const years = await this.findYears(schoolId, tx);
+                apply(years);
+                this.assertValid(years);
+
+                const sorted = years
+                    .map(year => ({ ...year, terms: [...year.terms].sort((a, b) => a.startDate.getTime() - b.startDate.getTime()) }))
+                    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+                await tx.school.update({
+                    where: { id: schoolId },
+                    data: { academicProfile: { upsert: { set: { academicYears: sorted }, update: { academicYears: sorted } } } },
+                });
+                return sorted;
+            });
+        } catch (error) {
+            // P2034: the write conflicted with another transaction
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+                throw new ConflictException('The academic years were changed at the same time, please try again');
+            }
+            throw error;
+        }
+    }
+
+    private assertValid(years: SchoolAcademicYearInfo[]): void {
+        years.forEach((year, index) => {
+            if (year.startDate >= year.endDate) {
+                throw new BadRequestException(`Academic year "${year.yearName}" must end after it starts`);
+            }
+            const clash = years.find((other, otherIndex) => otherIndex !== index && overlaps(year, other));
+            if (clash) {
+                throw new BadRequestException(`Academic years "${year.yearName}" and "${clash.yearName}" overlap`);
+            }
+
+            year.terms.forEach((term, termIndex) => {
+                if (term.startDate >= term.endDate) {
+                    throw new BadRequestException(`Term "${term.name}" must end after it starts`);
+                }
+                if (term.startDate < year.startDate || term.endDate > year.endDate) {
+                    throw new BadRequestException(`Term "${term.name}" must fall within the ${year.yearName} academic year`);
+                }
+                const termClash = year.terms.find((other, otherIndex) => otherIndex !== termIndex && overlaps(term, other));
+                if (termClash) {
+                    throw new BadRequestException(`Terms "${term.name}" and "${termClash.name}" overlap`);
+                }
+            });
+        });
+    }
+
+    private indexOfYear(years: SchoolAcademicYearInfo[], yearName: string): number {
+        const index = years.findIndex(year => sameName(year.yearName, yearName));
+        if (index < 0) {
+            throw new NotFoundException(`Academic year "${yearName}" not found`);
+        }
+        return index;
+    }
+
+    private indexOfTerm(year: SchoolAcademicYearInfo, termName: string): number {
+        const index = year.terms.findIndex(term => sameName(term.name, termName));
+        if (index < 0) {
+            throw new NotFoundException(`Term "${termName}" not found in ${year.yearName}`);
+        }
+        return index;
+    }
+
+    private definedFields<T extends object>(dto: T): Partial<T> {
+        return Object.fromEntries(Object.entries(dto).filter(([, value]) => value !== undefined)) as Partial<T>;
+    }
+
+    private toView(year: SchoolAcademicYearInfo, current: CurrentTerm | null): AcademicYearView {
+        const isCurrentYear = current?.yearName === year.yearName;
+        return {
+            yearName: year.yearName,
+            startDate: year.startDate,
+            endDate: year.endDate,
+            isCurrent: isCurrentYear,
+            terms: year.terms.map((term: SchoolTerm) => ({
+                ...term,
+                isCurrent: isCurrentYear && current?.name === term.name,
+            })),
+        };
+    }
+}
@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CurriculumTemplateController } from './curriculum-template.controller';
+import { CurriculumTemplateService } from './curriculum-template.service';
+import { DbService } from '../db/db.service';
+
+describe('CurriculumTemplateController', () => {
+  let controller: CurriculumTemplateController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CurriculumTemplateController],
+      providers: [
+        { provide: CurriculumTemplateService, useValue: {} },
+        { provide: DbService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<CurriculumTemplateController>(CurriculumTemplateController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,48 @@
+import { Body, Controller, Delete, Get, Param, Put, Request, UploadedFile, UseGuards, UseInterceptors } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { CurriculumTemplateService, UploadedTemplateFile } from './curriculum-template.service';
+import { PassportJswAuthGuard } from '../common/guards/passport-jwt.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { SchoolRoles } from '../auth/decorators/school-roles.decorator';
+import { AuthUserDto } from '../user/dto/user.dto';
+
+const MAX_FILE_SIZE_BYTES = 1024 * 1024;
+
+// Built-in templates are listed along with the ones uploaded by the school
+@Controller('school/:schoolId/curriculum-templates')
+@UseGuards(PassportJswAuthGuard, RolesGuard)
+@SchoolRoles({ members: ['OWNER', 'STAFF'] })
+export class CurriculumTemplateController {
+  constructor(private readonly curriculumTemplateService: CurriculumTemplateService) { }
+
+  @Get()
+  findAll(@Param('schoolId') schoolId: string) {
+    return this.curriculumTemplateService.findAll(schoolId);
+  }
+
+  @Get(':key')
+  findOne(@Param('schoolId') schoolId: string, @Param('key') key: string) {
+    return this.curriculumTemplateService.findOne(schoolId, key);
+  }
+
+  // The template is the JSON body, or a .json, .yaml or .yml file sent as `file`.
+  // Its key comes from the template, uploading the same key again replaces it
+  @Put()
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_FILE_SIZE_BYTES } }))
+  upsert(
+    @Request() request: { user: AuthUserDto },
+    @Param('schoolId') schoolId: string,
+    @UploadedFile() file: UploadedTemplateFile | undefined,
+    @Body() body: unknown,
+  ) {
+    const curriculumTemplateDto = file
+      ? this.curriculumTemplateService.parseFile(file)
+      : this.curriculumTemplateService.validate(body);
+    return this.curriculumTemplateService.upsert(schoolId, request.user.id, curriculumTemplateDto);
+  }
+
+  @Delete(':key')
+  remove(@Param('schoolId') schoolId: string, @Param('key') key: string) {
+    return this.curriculumTemplateService.remove(schoolId, key);
+  }
+}
@@ -0,0 +1,97 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CurriculumTemplateService } from './curriculum-template.service';
+import { DbService } from '../db/db.service';
+import { stringify } from 'yaml';
+
+describe('CurriculumTemplateService', () => {
+  let service: CurriculumTemplateService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CurriculumTemplateService,
+        { provide: DbService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<CurriculumTemplateService>(CurriculumTemplateService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('loads the built-in templates', async () => {
+    await expect(service.resolve('school-1')).resolves.toHaveProperty('key');
+  });
+
+  it('reads an uploaded YAML template the same way as JSON', async () => {
+    const definition = await service.resolve('school-1');
+
+    const fromYaml = service.parseFile({ originalname: 'custom.yml', buffer: Buffer.from(stringify(definition)) });
+    const fromJson = service.parseFile({ originalname: 'custom.json', buffer: Buffer.from(JSON.stringify(definition)) });
+
+    expect(fromYaml).toEqual(fromJson);
+  });
+
+  it('rejects other file types and unreadable files', () => {
+    expect(() => service.parseFile({ originalname: 'custom.txt', buffer: Buffer.from('{}') }))
+      .toThrow(BadRequestException);
+    expect(() => service.parseFile({ originalname: 'custom.yaml', buffer: Buffer.from('key: [') }))
+      .toThrow(BadRequestException);
+  });
+
+  describe('buildPlan', () => {
+    it('plans a class per grade level and track with the stage subjects', async () => {
+      const template = await service.resolve('school-1', 'REB');
+
+      const plan = service.buildPlan(
+        template,
+        [{ key: 'o_level', optionSubjects: ['French'] }, { key: 'a_level', tracks: ['pcm', 'Robotics'], passMark: 60 }],
+        'Green Hills',
+        '2026',
+      );
+
+      expect(plan.classes.map(planned => planned.name)).toEqual([
+        'S1 GreenHills 2026', 'S2 GreenHills 2026', 'S3 GreenHills 2026',
+        'S4 PCM GreenHills 2026', 'S4 Robotics GreenHills 2026',
+        'S5 PCM GreenHills 2026', 'S5 Robotics GreenHills 2026',
+        'S6 PCM GreenHills 2026', 'S6 Robotics GreenHills 2026',
+      ]);
+      const pcm = plan.classes.find(planned => planned.name === 'S4 PCM GreenHills 2026')!;
+      expect(pcm.modules).toEqual(expect.arrayContaining([
+        { title: 'Physics', moduleType: 'CORE_CONTENT' },
+        { title: 'ICT', moduleType: 'SUPPLEMENTARY' },
+      ]));
+      // Tracks the template does not list are kept, with their name as their subject
+      expect(plan.classes.find(planned => planned.track === 'Robotics')!.modules)
+        .toContainEqual({ title: 'Robotics', moduleType: 'CORE_CONTENT' });
+      expect(plan.classes[0].modules).toContainEqual({ title: 'French', moduleType: 'SUPPLEMENTARY' });
+      // The template pass mark applies unless the school sets its own
+      expect(plan.stages.map(stage => [stage.key, stage.nextStage, stage.passMark])).toEqual([
+        ['o_level', 'a_level', 50],
+        ['a_level', null, 60],
+      ]);
+    });
+
+    it('graduates students after the last stage the school offers', async () => {
+      const template = await service.resolve('school-1', 'REB');
+
+      const plan = service.buildPlan(template, [{ key: 'primary' }], 'Green Hills', '2026');
+
+      expect(plan.stages[0].nextStage).toBeNull();
+    });
+
+    it('refuses stages the template does not have, repeated stages and missing tracks', async () => {
+      const template = await service.resolve('school-1', 'REB');
+
+      expect(() => service.buildPlan(template, [{ key: 'college' }], 'Green Hills', '2026'))
+        .toThrow('template has no "college" stage');
+      expect(() => service.buildPlan(template, [{ key: 'primary' }, { key: 'primary' }], 'Green Hills', '2026'))
+        .toThrow('Stage "primary" is listed more than once');
+      expect(() => service.buildPlan(template, [{ key: 'a_level' }], 'Green Hills', '2026'))
+        .toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { readdirSync, readFileSync } from 'fs';
+import { extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { CurriculumTemplate, SchoolAcademicStageInfo } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import {
+    CurriculumStageDto,
+    CurriculumTemplateDto,
+    CurriculumTemplateSchema,
+    CurriculumTemplateSummary,
+} from './dto/curriculum-template.dto';
+import { AcademicStageSelectionDto } from './dto/school-academic.dto';
+
+const CURRICULA_DIRECTORY = join(__dirname, 'curricula');
+
+// Templates can be written in JSON or YAML
+const TEMPLATE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+export const DEFAULT_CURRICULUM_TEMPLATE = 'REB';
+
+export type AcademicModuleType = 'CORE_CONTENT' | 'SUPPLEMENTARY';
+
+export interface AcademicClassPlan {
+    name: string;
+    stageKey: string;
+    gradeLevel: string;
+    track: string | null;
+    modules: { title: string; moduleType: AcademicModuleType }[];
+}
+
+export interface UploadedTemplateFile {
+    originalname: string;
+    buffer: Buffer;
+}
+
+export interface AcademicPlan {
+    template: { key: string; name: string; frameworks: string[] };
+    academicYear: string;
+    stages: SchoolAcademicStageInfo[];
+    classes: AcademicClassPlan[];
+}
+
+/**
+ * Curriculum templates describe the grade levels, class naming, subjects and
+ * pass marks of a curriculum. Built-in templates are JSON or YAML files
+ * shipped in `curricula/`, schools can also upload their own.
+ */
+@Injectable()
+export class CurriculumTemplateService {
+    private readonly logger = new Logger(CurriculumTemplateService.name);
+    private builtIns?: Map<string, CurriculumTemplateDto>;
+
+    constructor(private readonly dbService: DbService) { }
+
+    async findAll(schoolId: string): Promise<CurriculumTemplateSummary[]> {
+        const custom = await this.dbService.curriculumTemplate.findMany({
+            where: { schoolId },
+            orderBy: { name: 'asc' },
+        });
+        return [
+            ...[...this.getBuiltIns().values()].map(template => this.toSummary(template, false)),
+            ...custom.map(template => this.toSummary(this.parseStored(template), true)),
+        ];
+    }
+
+    async findOne(schoolId: string, key: string): Promise<CurriculumTemplateDto & { custom: boolean }> {
+        const builtIn = this.getBuiltIns().get(key.toUpperCase());
+        if (builtIn) return { ...builtIn, custom: false };
+        return { ...(await this.findCustom(schoolId, key)), custom: true };
+    }
+
+    /**
+     * Creates or replaces one of the school's templates. Classes already set
+     * up from it are left as they are until the academic setup is run again.
+     */
+    async upsert(schoolId: string, createdById: string, dto: CurriculumTemplateDto): Promise<CurriculumTemplateSummary> {
+        if (this.getBuiltIns().has(dto.key)) {
+            throw new BadRequestException(`"${dto.key}" is a built-in template, pick another key`);
+        }
+
+        const definition = JSON.parse(JSON.stringify(dto));
+        const template = await this.dbService.curriculumTemplate.upsert({
+            where: { schoolId_key: { schoolId, key: dto.key } },
+            create: { schoolId, key: dto.key, name: dto.name, definition, createdById },
+            update: { name: dto.name, definition },
+        });
+        return this.toSummary(this.parseStored(template), true);
+    }
+
+    /**
+     * Reads an uploaded .json, .yaml or .yml template and validates it.
+     */
+    parseFile(file: UploadedTemplateFile): CurriculumTemplateDto {
+        let definition: unknown;
+        try {
+            definition = this.parseDocument(file.buffer.toString('utf8'), file.originalname);
+        } catch (error) {
+            if (error instanceof BadRequestException) throw error;
+            throw new BadRequestException(`The file could not be read: ${error.message}`);
+        }
+        return this.validate(definition);
+    }
+
+    /**
+     * Validates a template definition, with the same errors as the request validation.
+     */
+    validate(definition: unknown): CurriculumTemplateDto {
+        const validation = CurriculumTemplateSchema.safeParse(definition);
+        if (!validation.success) {
+            throw new BadRequestException({
+                error: validation.error.errors.map(error => error.message),
+                message: "Invalid data",
+                statusCode: 422,
+            });
+        }
+        return validation.data;
+    }
+
+    async remove(schoolId: string, key: string): Promise<{ message: string }> {
+        const removed = await this.dbService.curriculumTemplate.deleteMany({
+            where: { schoolId, key: key.toUpperCase() },
+        });
+        if (removed.count === 0) {
+            throw new NotFoundException(`Curriculum template "${key}" not found`);
+        }
+        return { message: 'Curriculum template deleted' };
+    }
+
+    async resolve(schoolId: string, key: string = DEFAULT_CURRICULUM_TEMPLATE): Promise<CurriculumTemplateDto> {
+        const { custom: _, ...template } = await this.findOne(schoolId, key);
+        return template;
+    }
+
+    /**
+     * Lists the classes, with their modules, that the stages picked by a school
+     * make up. Nothing is written, the plan is applied by the academic setup.
+     *
+     * @param template The curriculum template.
+     * @param selections The stages offered by the school, with their overrides.
+     * @param schoolName Used in the class names.
+     * @param academicYear Used in the class names, e.g. "2025-2026".
+     */
+    buildPlan(
+        template: CurriculumTemplateDto,
+        selections: AcademicStageSelectionDto[],
+        schoolName: string,
+        academicYear: string,
+    ): AcademicPlan {
+        const selected = new Map<string, AcademicStageSelectionDto>();
+        for (const selection of selections) {
+            if (!template.stages.some(stage => stage.key === selection.key)) {
+                throw new BadRequestException(`The ${template.name} template has no "${selection.key}" stage`);
+            }
+            if (selected.has(selection.key)) {
+                throw new BadRequestException(`Stage "${selection.key}" is listed more than once`);
+            }
+            selected.set(selection.key, selection);
+        }
+
+        const stages: SchoolAcademicStageInfo[] = [];
+        const classes: AcademicClassPlan[] = [];
+        // Stages follow the template order, so that classes come out in promotion order
+        for (const stage of template.stages) {
+            const selection = selected.get(stage.key);
+            if (!selection) continue;
+
+            const coreSubjects = selection.coreSubjects ?? stage.coreSubjects;
+            const optionSubjects = selection.optionSubjects ?? stage.optionSubjects;
+            const tracks = this.pickTracks(stage, selection);
+
+            stages.push({
+                key: stage.key,
+                name: stage.name,
+                gradeLevels: stage.gradeLevels,
+                tracks: tracks.map(track => track.name),
+                coreSubjects,
+                optionSubjects,
+                passMark: selection.passMark ?? stage.passMark ?? null,
+                // Students of the last grade level graduate when the school does not offer the next stage
+                nextStage: stage.nextStage && selected.has(stage.nextStage) ? stage.nextStage : null,
+            });
+
+            for (const gradeLevel of stage.gradeLevels) {
+                for (const track of tracks.length > 0 ? tracks : [null]) {
+                    const name = stage.classNamePattern
+                        .replace('{grade}', gradeLevel)
+                        .replace('{track}', track?.name ?? '')
+                        .replace('{school}', schoolName.replace(/\s+/g, ''))
+                        .replace('{year}', academicYear)
+                        .replace(/\s+/g, ' ')
+                        .trim();
+                    const trackSubjects = track ? (track.subjects.length > 0 ? track.subjects : [track.name]) : [];
+
+                    const modules = new Map<string, AcademicModuleType>();
+                    [...coreSubjects, ...trackSubjects].forEach(title => modules.set(title, 'CORE_CONTENT'));
+                    optionSubjects.forEach(title => { if (!modules.has(title)) modules.set(title, 'SUPPLEMENTARY'); });
+
+                    classes.push({
+                        name,
+                        stageKey: stage.key,
+                        gradeLevel,
+                        track: track?.name ?? null,
+                        modules: [...modules].map(([title, moduleType]) => ({ title, moduleType })),
+                    });
+                }
+            }
+        }
+
+        return {
+            template: { key: template.key, name: template.name, frameworks: template.frameworks },
+            academicYear,
+            stages,
+            classes,
+        };
+    }
+
+    // Tracks the template does not list are kept, with the track name as their only subject
+    private pickTracks(stage: CurriculumStageDto, selection: AcademicStageSelectionDto) {
+        if (!stage.trackLabel) return [];
+        const names = [...new Set(selection.tracks ?? [])];
+        if (names.length === 0) {
+            throw new BadRequestException(`Pick at least one ${stage.trackLabel.toLowerCase()} for ${stage.name}`);
+        }
+        return names.map(name =>
+            stage.tracks.find(track => track.name.toLowerCase() === name.toLowerCase()) ?? { name, subjects: [] },
+        );
+    }
+
+    private async findCustom(schoolId: string, key: string): Promise<CurriculumTemplateDto> {
+        const template = await this.dbService.curriculumTemplate.findUnique({
+            where: { schoolId_key: { schoolId, key: key.toUpperCase() } },
+        });
+        if (!template) {
+            throw new NotFoundException(`Curriculum template "${key}" not found`);
+        }
+        return this.parseStored(template);
+    }
+
+    private parseStored(template: CurriculumTemplate): CurriculumTemplateDto {
+        return CurriculumTemplateSchema.parse(template.definition);
+    }
+
+    private getBuiltIns(): Map<string, CurriculumTemplateDto> {
+        if (!this.builtIns) {
+            this.builtIns = new Map();
+            const files = readdirSync(CURRICULA_DIRECTORY).filter(name => TEMPLATE_EXTENSIONS.includes(extname(name).toLowerCase()));
+            for (const file of files) {
+                try {
+                    const template = CurriculumTemplateSchema.parse(
+                        this.parseDocument(readFileSync(join(CURRICULA_DIRECTORY, file), 'utf8'), file),
+                    );
+                    this.builtIns.set(template.key, template);
+                } catch (error) {
+                    this.logger.error(`Could not load the curriculum template ${file}: ${error.message}`);
+                }
+            }
+        }
+        return this.builtIns;
+    }
+
+    private parseDocument(content: string, fileName: string): unknown {
+        const extension = extname(fileName).toLowerCase();
+        if (!TEMPLATE_EXTENSIONS.includes(extension)) {
+            throw new BadRequestException('Upload a .json, .yaml or .yml file');
+        }
+        return extension === '.json' ? JSON.parse(content) : parseYaml(content);
+    }
+
+    private toSummary(template: CurriculumTemplateDto, custom: boolean): CurriculumTemplateSummary {
+        return {
+            key: template.key,
+            name: template.name,
+            description: template.description,
+            frameworks: template.frameworks,
+            stages: template.stages.map(stage => ({
+                key: stage.key,
+                name: stage.name,
+                gradeLevels: stage.gradeLevels,
+                trackLabel: stage.trackLabel,
+            })),
+            custom,
+        };
+    }
+}
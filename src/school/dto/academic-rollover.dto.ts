@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+export const RolloverStudentActionEnum = z.enum(['PROMOTE', 'REPEAT', 'TRANSFER_OUT']);
+
+export const RolloverOverrideSchema = z.object({
+    studentId: z.string().regex(/^[0-9a-fA-F]{24}$/, { message: "Invalid student ID" }),
+    action: RolloverStudentActionEnum,
+    // Needed when a student moves on to a stage with several tracks, e.g. from S3 to an S4 combination
+    track: z.string().trim().min(1).optional(),
+});
+
+export type RolloverOverrideDto = z.infer<typeof RolloverOverrideSchema>;
+
+export const AcademicRolloverSchema = z.object({
+    carryPrimaryTeachers: z.boolean().default(false),
+    overrides: z.array(RolloverOverrideSchema).default([]),
+});
+
+export type AcademicRolloverDto = z.infer<typeof AcademicRolloverSchema>;
+
+export type RolloverStudentAction = 'promote' | 'repeat' | 'graduate' | 'transfer_out';
+
+export interface RolloverClassChange {
+    id: string | null; // Null until the class is created
+    name: string;
+    gradeLevel: string;
+    track: string | null;
+    fromClassId: string | null; // The class of last year it is cloned from
+    primaryTeacherId: string | null;
+    modules: number;
+    students: number;
+}
+
+export interface RolloverStudentChange {
+    studentId: string;
+    userId: string;
+    fullName: string | null;
+    fromClassId: string;
+    fromGradeLevel: string;
+    action: RolloverStudentAction;
+    toGradeLevel: string | null;
+    toTrack: string | null;
+    toClassName: string | null;
+    // Set when the student cannot be placed, the rollover is refused until it is resolved
+    problem?: string;
+}
+
+// What the rollover did, or would do when run as a dry run
+export interface AcademicRolloverResultDto {
+    dryRun: boolean;
+    fromYear: string | null;
+    toYear: string;
+    classes: RolloverClassChange[];
+    archivedClasses: number;
+    students: RolloverStudentChange[];
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+const NameSchema = z.string().trim().min(1, { message: "Name is required" }).max(50, {
+    message: "Name must be at most 50 characters"
+});
+
+const endsAfterStart = (period: { startDate?: Date; endDate?: Date }) =>
+    !period.startDate || !period.endDate || period.startDate < period.endDate;
+
+const endsAfterStartMessage = { message: "End date must be after the start date", path: ["endDate"] };
+
+const TermFieldsSchema = z.object({
+    name: NameSchema,
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+});
+
+export const CreateTermSchema = TermFieldsSchema.refine(endsAfterStart, endsAfterStartMessage);
+
+export type CreateTermDto = z.infer<typeof CreateTermSchema>;
+
+export const UpdateTermSchema = TermFieldsSchema.partial().refine(endsAfterStart, endsAfterStartMessage);
+
+export type UpdateTermDto = z.infer<typeof UpdateTermSchema>;
+
+const AcademicYearFieldsSchema = z.object({
+    yearName: NameSchema,
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    terms: z.array(CreateTermSchema).max(6, {
+        message: "An academic year can have at most 6 terms"
+    }),
+});
+
+export const CreateAcademicYearSchema = AcademicYearFieldsSchema.extend({
+    terms: AcademicYearFieldsSchema.shape.terms.default([]),
+}).refine(endsAfterStart, endsAfterStartMessage);
+
+export type CreateAcademicYearDto = z.infer<typeof CreateAcademicYearSchema>;
+
+// Sending `terms` replaces all of the year's terms
+export const UpdateAcademicYearSchema = AcademicYearFieldsSchema.partial().refine(endsAfterStart, endsAfterStartMessage);
+
+export type UpdateAcademicYearDto = z.infer<typeof UpdateAcademicYearSchema>;
+
+export interface AcademicTermView {
+    name: string;
+    startDate: Date;
+    endDate: Date;
+    isCurrent: boolean;
+}
+
+export interface AcademicYearView {
+    yearName: string;
+    startDate: Date;
+    endDate: Date;
+    isCurrent: boolean;
+    terms: AcademicTermView[];
+}
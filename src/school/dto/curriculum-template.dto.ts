@@ -0,0 +1,75 @@
+import { z } from 'zod';
+
+const SubjectListSchema = z.array(z.string().trim().min(1)).default([]);
+
+export const CurriculumTrackSchema = z.object({
+    name: z.string().trim().min(1, { message: "Track name is required" }),
+    // The track's own subjects, the track name is used as its only subject when empty
+    subjects: SubjectListSchema,
+});
+
+export const CurriculumStageSchema = z.object({
+    key: z.string().regex(/^[a-z0-9_]+$/, {
+        message: "Stage key must only hold lowercase letters, digits and underscores"
+    }),
+    name: z.string().trim().min(1, { message: "Stage name is required" }),
+    // In promotion order, e.g. ["P1", "P2", ...]
+    gradeLevels: z.array(z.string().trim().min(1)).min(1, {
+        message: "A stage needs at least one grade level"
+    }),
+    // Placeholders: {grade}, {track}, {school} (name without spaces) and {year}
+    classNamePattern: z.string().default("{grade} {school} {year}"),
+    coreSubjects: SubjectListSchema,
+    optionSubjects: SubjectListSchema,
+    // When set, one class is created per grade level and per track picked by the school
+    trackLabel: z.string().trim().min(1).optional(),
+    tracks: z.array(CurriculumTrackSchema).default([]),
+    passMark: z.number().min(0).max(100).optional(),
+    nextStage: z.string().optional(),
+}).superRefine((stage, ctx) => {
+    if (!stage.classNamePattern.includes("{grade}")) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["classNamePattern"], message: "The class name pattern must contain {grade}" });
+    }
+    if (stage.trackLabel && !stage.classNamePattern.includes("{track}")) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["classNamePattern"], message: "Stages split by track must have {track} in the class name pattern" });
+    }
+});
+
+export const CurriculumTemplateSchema = z.object({
+    // Matched case-insensitively, stored uppercased
+    key: z.string().regex(/^[A-Za-z0-9_-]{2,40}$/, {
+        message: "Template key must be 2 to 40 letters, digits, dashes or underscores"
+    }).transform(key => key.toUpperCase()),
+    name: z.string().trim().min(1, { message: "Template name is required" }),
+    description: z.string().optional(),
+    // Stored on the school's academic profile, e.g. ["REB"]
+    frameworks: z.array(z.string().trim().min(1)).min(1, {
+        message: "At least one curriculum framework is required"
+    }),
+    stages: z.array(CurriculumStageSchema).min(1, {
+        message: "A template needs at least one stage"
+    }),
+}).superRefine((template, ctx) => {
+    const keys = template.stages.map(stage => stage.key);
+    template.stages.forEach((stage, index) => {
+        if (keys.indexOf(stage.key) !== index) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["stages", index, "key"], message: `Duplicate stage key "${stage.key}"` });
+        }
+        if (stage.nextStage && !keys.includes(stage.nextStage)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["stages", index, "nextStage"], message: `Unknown stage "${stage.nextStage}"` });
+        }
+    });
+});
+
+export type CurriculumTemplateDto = z.infer<typeof CurriculumTemplateSchema>;
+export type CurriculumStageDto = z.infer<typeof CurriculumStageSchema>;
+
+export interface CurriculumTemplateSummary {
+    key: string;
+    name: string;
+    description?: string;
+    frameworks: string[];
+    stages: { key: string; name: string; gradeLevels: string[]; trackLabel?: string }[];
+    // Uploaded by the school rather than shipped with the platform
+    custom: boolean;
+}
@@ -1,12 +1,13 @@
 import * as z from "zod"
+import { INVITATION_CODE_LENGTH } from "src/common/utils/characters.util"
 
 export const JoinSchoolSchema = z.object({
     username: z.string().min(1, {
         message: "School username is required",
-    }).min(50),
-    code: z.string().min(5, {
-        message: "Minimum characters are 5"
-    }).max(5)
+    }).max(50),
+    code: z.string().trim().length(INVITATION_CODE_LENGTH, {
+        message: `Invitation codes are ${INVITATION_CODE_LENGTH} characters`
+    })
 })
 
 export type JoinSchoolDto = z.infer<typeof JoinSchoolSchema>
\ No newline at end of file
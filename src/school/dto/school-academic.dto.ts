@@ -1,7 +1,29 @@
 import { z } from 'zod';
 
+// A stage of the curriculum template offered by the school, the template's defaults are used for what is left out
+export const AcademicStageSelectionSchema = z.object({
+    key: z.string().min(1, { message: "Stage key is required" }),
+    coreSubjects: z.array(z.string().trim().min(1)).optional(),
+    optionSubjects: z.array(z.string().trim().min(1)).optional(),
+    // Required for stages split by track, e.g. the A level combinations
+    tracks: z.array(z.string().trim().min(1)).max(20, {
+        message: "At most 20 tracks per stage"
+    }).optional(),
+    passMark: z.number().min(0).max(100).optional(),
+});
+
+export type AcademicStageSelectionDto = z.infer<typeof AcademicStageSelectionSchema>;
+
 export const SchoolAcademicSchema = z.object({
     schoolId: z.string().min(1, { message: "School is required" }),
+    // Built-in or uploaded template key, REB when left out
+    curriculumTemplate: z.string().optional(),
+    stages: z.array(AcademicStageSelectionSchema).min(1, {
+        message: "Pick at least one stage"
+    }).optional(),
+    defaultGradingScaleDescription: z.string().optional(),
+
+    // The fields below predate curriculum templates, they are read as REB stages when `stages` is left out
     // assessmentTypes: z.array(z.string()).optional(),
     // Primary Education
     primarySubjectsOffered: z.array(z.string()).optional(),
@@ -44,4 +66,30 @@ export const SchoolAcademicCreation = z.object({
     totalModule: z.number()
 })
 
-export type SchoolAcademicCreationDto = z.infer<typeof SchoolAcademicCreation>
\ No newline at end of file
+export type SchoolAcademicCreationDto = z.infer<typeof SchoolAcademicCreation>
+
+export type AcademicSetupAction = 'create' | 'keep' | 'update' | 'restore' | 'archive';
+
+export interface AcademicModuleChange {
+    id: string | null; // Null for the modules still to create
+    title: string;
+    moduleType: 'CORE_CONTENT' | 'SUPPLEMENTARY';
+    action: AcademicSetupAction;
+}
+
+export interface AcademicClassChange {
+    id: string | null; // Null for the classes still to create
+    name: string;
+    gradeLevel: string | null;
+    track: string | null;
+    action: AcademicSetupAction;
+    modules: AcademicModuleChange[];
+}
+
+// What the setup did, or would do when run as a dry run
+export interface AcademicSetupResultDto extends SchoolAcademicCreationDto {
+    dryRun: boolean;
+    curriculumTemplate: string;
+    academicYear: string;
+    classes: AcademicClassChange[];
+}
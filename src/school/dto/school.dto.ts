@@ -62,6 +62,8 @@ export const CreateSchoolSchema = z.object({
   labs: z.array(z.string()).optional(),
   sportsExtracurricular: z.array(z.string()).optional(),
   onlineClasses: z.boolean().optional(),
+
+  requireVerifiedEmailToJoin: z.boolean().optional(),
 }).superRefine((data, ctx) => {
   if (!data.username || !data.name) {
     ctx.addIssue({
@@ -117,6 +119,9 @@ export const SchoolSchema = z.object({
   sportsExtracurricular: z.array(z.string()).optional(), // Optional array of activities
   onlineClasses: z.boolean().optional(),
 
+  // joining
+  requireVerifiedEmailToJoin: z.boolean().optional(),
+
   // meta data (often optional in input/validation schemas)
   createAt: z.date().optional(), // Use z.date() for Date objects
   updatedAt: z.date().optional(), // Use z.date() for Date objects
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const TwoFactorPolicySchema = z.object({
+    // "SCHOOL_ADMIN" for the school's creator and/or staff role titles, empty to lift the requirement
+    roles: z.array(z.string().trim().min(1).max(100)).max(50).transform(roles => [...new Set(roles)]),
+});
+
+export type TwoFactorPolicyDto = z.infer<typeof TwoFactorPolicySchema>;
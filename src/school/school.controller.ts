@@ -1,16 +1,25 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, Query } from '@nestjs/common';
+import { Controller, Get, Post, Body, Patch, Put, Param, Delete, Query, UseGuards, Request } from '@nestjs/common';
 import { SchoolService } from './school.service';
 import { CreateSchoolDto, CreateSchoolSchema, SchoolMembersDto, schoolTypeDto } from './dto/school.dto';
 import { ZodValidationPipe } from 'src/common/pipes/zod-validation.pipe';
 import { SchoolAcademicDto, SchoolAcademicSchema } from './dto/school-academic.dto';
 import { SchoolAdministrationDto, SchoolAdministrationSchema } from './dto/school-administration.dto';
 import { UpdateSchoolDto } from './dto/update.dto';
+import { PassportJswAuthGuard } from 'src/common/guards/passport-jwt.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { SchoolRoles } from 'src/auth/decorators/school-roles.decorator';
+import { BlockImpersonation } from 'src/auth/decorators/block-impersonation.decorator';
+import { TwoFactorPolicyDto, TwoFactorPolicySchema } from './dto/two-factor-policy.dto';
+import { AuthUserDto } from 'src/user/dto/user.dto';
 
 @Controller('school')
+@UseGuards(PassportJswAuthGuard, RolesGuard)
 export class SchoolController {
   constructor(private readonly schoolService: SchoolService) { }
 
   @Post()
+  @Roles('SCHOOL_ADMIN')
   create(@Body(new ZodValidationPipe(CreateSchoolSchema)) createSchoolDto: CreateSchoolDto) {
     return this.schoolService.create(createSchoolDto);
   }
@@ -30,25 +39,44 @@ export class SchoolController {
   }
 
   @Patch(':id')
+  @SchoolRoles({ members: ['OWNER', 'STAFF'], param: 'id' })
   update(@Param('id') id: string, @Body() updateSchoolDto: UpdateSchoolDto) {
     return this.schoolService.update(id, updateSchoolDto);
   }
 
+  @Put(':id/two-factor-policy')
+  @SchoolRoles({ members: ['OWNER'], param: 'id' })
+  @BlockImpersonation()
+  updateTwoFactorPolicy(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(TwoFactorPolicySchema)) twoFactorPolicyDto: TwoFactorPolicyDto,
+  ) {
+    return this.schoolService.updateTwoFactorPolicy(id, twoFactorPolicyDto);
+  }
+
   @Delete(':id')
+  @SchoolRoles({ members: ['OWNER'], param: 'id' })
   remove(@Param('id') id: string) {
     return this.schoolService.remove(id);
   }
 
-// TODO : add auth guid
+  // Safe to run again, the structure is reconciled. `dryRun=true` only returns the changes
   @Post("/academic")
-  createAcademic(@Body(new ZodValidationPipe(SchoolAcademicSchema)) schoolAcademicDto: SchoolAcademicDto) {
-    return this.schoolService.setupAcademicStructure(schoolAcademicDto);
+  @SchoolRoles({ members: ['OWNER', 'STAFF'] })
+  createAcademic(
+    @Body(new ZodValidationPipe(SchoolAcademicSchema)) schoolAcademicDto: SchoolAcademicDto,
+    @Query('dryRun') dryRun?: string,
+  ) {
+    return this.schoolService.setupAcademicStructure(schoolAcademicDto, dryRun === 'true');
   }
 
-  // TODO : add auth guid
   @Post("/administration")
-  createAdministration(@Body(new ZodValidationPipe(SchoolAdministrationSchema)) schoolAdministrationDto: SchoolAdministrationDto) {
-    return this.schoolService.sendAdministrationJoinRequests(schoolAdministrationDto);
+  @SchoolRoles({ members: ['OWNER', 'STAFF'] })
+  createAdministration(
+    @Request() request: { user: AuthUserDto },
+    @Body(new ZodValidationPipe(SchoolAdministrationSchema)) schoolAdministrationDto: SchoolAdministrationDto,
+  ) {
+    return this.schoolService.sendAdministrationJoinRequests(schoolAdministrationDto, request.user.id);
   }
 
 }
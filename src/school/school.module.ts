@@ -1,12 +1,19 @@
 import { Module } from '@nestjs/common';
 import { SchoolService } from './school.service';
 import { SchoolController } from './school.controller';
+import { CurriculumTemplateService } from './curriculum-template.service';
+import { CurriculumTemplateController } from './curriculum-template.controller';
+import { AcademicYearService } from './academic-year.service';
+import { AcademicYearController } from './academic-year.controller';
+import { AcademicRolloverService } from './academic-rollover.service';
 import { DbModule } from 'src/db/db.module';
 import { UploadModule } from 'src/upload/upload.module';
+import { JoinSchoolRequestModule } from 'src/join-school-request/join-school-request.module';
 
 @Module({
-  controllers: [SchoolController],
-  providers: [SchoolService],
-  imports: [DbModule, UploadModule]
+  controllers: [SchoolController, CurriculumTemplateController, AcademicYearController],
+  providers: [SchoolService, CurriculumTemplateService, AcademicYearService, AcademicRolloverService],
+  imports: [DbModule, UploadModule, JoinSchoolRequestModule],
+  exports: [SchoolService, CurriculumTemplateService],
 })
 export class SchoolModule { }
@@ -1,20 +1,36 @@
 import { BadRequestException, Injectable, NotFoundException, InternalServerErrorException } from '@nestjs/common';
 import { CreateSchoolDto, CreateSchoolSchema, schoolTypeDto, SchoolMembersDto, curriculumEnumDto } from './dto/school.dto';
-import { SchoolAcademicCreationDto, SchoolAcademicDto, SchoolAcademicSchema } from './dto/school-academic.dto';
+import {
+    AcademicClassChange,
+    AcademicModuleChange,
+    AcademicSetupResultDto,
+    AcademicStageSelectionDto,
+    SchoolAcademicDto,
+    SchoolAcademicSchema,
+} from './dto/school-academic.dto';
 import { DbService } from 'src/db/db.service';
-import { generateCode, generateUsername } from 'src/common/utils/characters.util';
+import { generateCode, generateUsername, INVITATION_CODE_LENGTH } from 'src/common/utils/characters.util';
 import { UploadService } from 'src/upload/upload.service';
-import { Prisma, SchoolJoinRequestRole } from 'generated/prisma';
+import { Prisma, SchoolAcademicYearInfo, SchoolJoinRequest } from 'generated/prisma';
 import { SchoolAdministrationDto, SchoolAdministrationSchema } from './dto/school-administration.dto';
 import { sendAdministrationJoinRequestsDto } from 'src/join-school-request/dto/join-school-request.dto';
 import { hashCode } from 'src/common/utils/hash.util';
+import { CurrentTerm, resolveCurrentTerm } from 'src/common/utils/academic-term.util';
 import { UpdateSchoolDto, UpdateSchoolSchema } from './dto/update.dto';
+import { TwoFactorPolicyDto } from './dto/two-factor-policy.dto';
+import { SchoolInvitationService } from 'src/join-school-request/school-invitation.service';
+import { AcademicPlan, CurriculumTemplateService } from './curriculum-template.service';
+
+// The academic setup writes every class and module in one transaction
+const ACADEMIC_SETUP_TIMEOUT_MS = 60 * 1000;
 
 @Injectable()
 export class SchoolService {
     constructor(
         private readonly dbService: DbService,
         private readonly uploadService: UploadService,
+        private readonly schoolInvitationService: SchoolInvitationService,
+        private readonly curriculumTemplateService: CurriculumTemplateService,
     ) { }
 
     async create(createSchoolDto: CreateSchoolDto,) {
@@ -42,10 +58,10 @@ export class SchoolService {
                 const uploaded = await this.uploadService.uploadBase64Image(logo, 'logos');
                 imageUrl = uploaded.secure_url;
             }
-            const studentInvitationCode = await hashCode(generateCode());
-            const teacherInvitationCode = await hashCode(generateCode());
-            const staffInvitationCode = await hashCode(generateCode());
-            const parentInvitationCode = await hashCode(generateCode());
+            const studentInvitationCode = await hashCode(generateCode(INVITATION_CODE_LENGTH));
+            const teacherInvitationCode = await hashCode(generateCode(INVITATION_CODE_LENGTH));
+            const staffInvitationCode = await hashCode(generateCode(INVITATION_CODE_LENGTH));
+            const parentInvitationCode = await hashCode(generateCode(INVITATION_CODE_LENGTH));
             return await this.dbService.school.create({
                 data: {
                     name,
@@ -245,255 +261,92 @@ export class SchoolService {
         }
     }
 
+    /**
+     * Sets the roles that must have two-factor authentication enabled to act
+     * in the school. Kept out of the regular update, only the owner changes it.
+     */
+    async updateTwoFactorPolicy(schoolId: string, dto: TwoFactorPolicyDto) {
+        const school = await this.dbService.school.findUnique({ where: { id: schoolId }, select: { id: true } });
+        if (!school) {
+            throw new NotFoundException(`School with ID "${schoolId}" not found`);
+        }
+        return this.dbService.school.update({
+            where: { id: schoolId },
+            data: { twoFactorRequiredRoles: dto.roles },
+            select: { id: true, twoFactorRequiredRoles: true },
+        });
+    }
+
+    /**
+     * Creates the classes of the stages a school offers, with one module per
+     * subject, from a curriculum template (REB unless another is picked).
+     * Running it again reconciles the school's structure with the plan: only
+     * missing classes and modules are created, those no longer planned are
+     * archived, and every write happens in a single transaction.
+     *
+     * @param schoolAcademicDto The stages offered by the school.
+     * @param dryRun Returns the changes without writing anything.
+     */
     async setupAcademicStructure(
         schoolAcademicDto: SchoolAcademicDto,
-    ): Promise<SchoolAcademicCreationDto> {
+        dryRun = false,
+    ): Promise<AcademicSetupResultDto> {
         const validation = SchoolAcademicSchema.safeParse(schoolAcademicDto);
         if (!validation.success) {
             console.error("Zod validation failed:", validation.error.format());
             throw new BadRequestException('Invalid school academic data provided');
         }
 
-        const {
-            schoolId,
-            primarySubjectsOffered,
-            oLevelCoreSubjects,
-            aLevelSubjectCombination,
-            tvetSpecialization,
-        } = validation.data;
+        const { schoolId } = validation.data;
 
         try {
             const school = await this.dbService.school.findUnique({
                 where: { id: schoolId },
-                select: { id: true, name: true },
+                select: { id: true, name: true, academicProfile: { select: { academicYears: true } } },
             });
 
             if (!school) {
                 throw new NotFoundException(`School with ID "${schoolId}" not found`);
             }
 
+            // Class names use the year of the current term, when the school has set up its academic years
+            const academicYears = school.academicProfile?.academicYears ?? [];
+            const currentTerm = resolveCurrentTerm(academicYears);
             const currentYear = new Date().getFullYear();
-            const academicYear = `${currentYear}-${currentYear + 1}`;
-
-            const classesToCreate: Prisma.ClassCreateManyInput[] = [];
-            const modulesByClass: { className: string; modules: Prisma.CourseContentModuleCreateManyInput[] }[] = [];
-
-            // Primary Education (6 classes: P1 to P6)
-            if (primarySubjectsOffered && primarySubjectsOffered.length > 0) {
-                for (let i = 1; i <= 6; i++) {
-                    const level = `P${i}`;
-                    const className = `${level} ${school.name.replace(/\s+/g, '')} ${academicYear}`;
-                    const classUsername = generateUsername(className);
-
-                    classesToCreate.push({
-                        name: className,
-                        username: classUsername,
-                        schoolId: school.id,
-                        classCode: generateCode(),
-                        classType: 'MAIN_SCHOOL_CLASS',
-                    });
+            const academicYear = currentTerm?.yearName ?? `${currentYear}-${currentYear + 1}`;
 
-                    const classModules = primarySubjectsOffered.map(subjectName => ({
-                        title: subjectName,
-                        moduleCode: generateCode(),
-                        moduleType: 'CORE_CONTENT',
-                    }));
-
-                    modulesByClass.push({
-                        className,
-                        modules: classModules
-                    });
-                }
+            const template = await this.curriculumTemplateService.resolve(schoolId, validation.data.curriculumTemplate);
+            const selections = validation.data.stages ?? this.legacyStageSelections(validation.data);
+            if (selections.length === 0) {
+                throw new BadRequestException('Pick at least one stage to set up');
             }
-
-            // Ordinary Level (3 classes: S1 to S3)
-            if (oLevelCoreSubjects && oLevelCoreSubjects.length > 0) {
-                for (let i = 1; i <= 3; i++) {
-                    const level = `S${i}`;
-                    const className = `${level} ${school.name.replace(/\s+/g, '')} ${academicYear}`;
-                    const classUsername = generateUsername(className);
-
-                    classesToCreate.push({
-                        name: className,
-                        username: classUsername,
-                        schoolId: school.id,
-                        classCode: generateCode(),
-                        classType: 'MAIN_SCHOOL_CLASS',
-                    });
-
-                    const classModules = oLevelCoreSubjects.map(subjectName => ({
-                        title: subjectName,
-                        moduleCode: generateCode(),
-                        moduleType: 'CORE_CONTENT',
-                    }));
-
-                    if (validation.data.oLevelOptionSubjects && validation.data.oLevelOptionSubjects.length > 0) {
-                        validation.data.oLevelOptionSubjects.forEach(subjectName => {
-                            classModules.push({
-                                title: subjectName,
-                                moduleCode: generateCode(),
-                                moduleType: 'SUPPLEMENTARY',
-                            });
-                        });
-                    }
-
-                    modulesByClass.push({
-                        className,
-                        modules: classModules
+            const plan = this.curriculumTemplateService.buildPlan(template, selections, school.name, academicYear);
+
+            const run = async (db: Prisma.TransactionClient): Promise<AcademicSetupResultDto> => {
+                const classes = await this.diffAcademicStructure(db, school.id, plan);
+                const kept = classes.filter(change => change.action !== 'archive');
+                const totalClasses = kept.length;
+                const totalModule = kept.reduce((total, change) =>
+                    total + change.modules.filter(module => module.action !== 'archive').length, 0);
+
+                if (!dryRun) {
+                    await this.applyAcademicChanges(db, school.id, classes, academicYear, currentTerm);
+                    await db.school.update({
+                        where: { id: schoolId },
+                        data: {
+                            academicProfile: this.buildAcademicProfile(plan, validation.data, academicYears),
+                            totalClasses,
+                            totalModules: totalModule,
+                        },
                     });
                 }
-            }
-
-            // Advanced Level (S4, S5, S6 for each combination)
-            if (aLevelSubjectCombination && aLevelSubjectCombination.length > 0) {
-                const aLevelLevels = [4, 5, 6];
-
-                aLevelSubjectCombination.forEach(combination => {
-                    aLevelLevels.forEach(levelNumber => {
-                        const level = `S${levelNumber}`;
-                        const className = `${level} ${combination} ${school.name.replace(/\s+/g, '')} ${academicYear}`;
-                        const classUsername = generateUsername(className);
-
-                        classesToCreate.push({
-                            name: className,
-                            username: classUsername,
-                            schoolId: school.id,
-                            classCode: generateCode(),
-                            classType: 'MAIN_SCHOOL_CLASS',
-                        });
-
-                        const classModules = [{
-                            title: combination,
-                            moduleCode: generateCode(),
-                            moduleType: 'CORE_CONTENT',
-                        }];
-
-                        if (validation.data.aLevelOptionSubjects && validation.data.aLevelOptionSubjects.length > 0) {
-                            validation.data.aLevelOptionSubjects.forEach(subjectName => {
-                                classModules.push({
-                                    title: subjectName,
-                                    moduleCode: generateCode(),
-                                    moduleType: 'SUPPLEMENTARY',
-                                });
-                            });
-                        }
 
-                        modulesByClass.push({
-                            className,
-                            modules: classModules
-                        });
-                    });
-                });
-            }
-
-            // TVET (L3, L4, L5 for each specialization)
-            if (tvetSpecialization && tvetSpecialization.length > 0) {
-                const tvetLevels = ['L3', 'L4', 'L5'];
-                tvetLevels.forEach(level => {
-                    tvetSpecialization.forEach(specializationName => {
-                        const className = `${level} ${specializationName.replace(/\s+/g, '')} ${school.name.replace(/\s+/g, '')} ${academicYear}`;
-                        const classUsername = generateUsername(className);
-
-                        classesToCreate.push({
-                            name: className,
-                            username: classUsername,
-                            schoolId: school.id,
-                            classCode: generateCode(),
-                            classType: 'MAIN_SCHOOL_CLASS',
-                        });
-
-                        const classModules = [{
-                            title: specializationName,
-                            moduleCode: generateCode(),
-                            moduleType: 'CORE_CONTENT',
-                        }];
-
-                        if (validation.data.tvetOptionSubjects && validation.data.tvetOptionSubjects.length > 0) {
-                            validation.data.tvetOptionSubjects.forEach(subjectName => {
-                                classModules.push({
-                                    title: subjectName,
-                                    moduleCode: generateCode(),
-                                    moduleType: 'SUPPLEMENTARY',
-                                });
-                            });
-                        }
-
-                        modulesByClass.push({
-                            className,
-                            modules: classModules
-                        });
-                    });
-                });
-            }
-
-            let createdClassesCount = 0;
-            if (classesToCreate.length > 0) {
-                const result = await this.dbService.class.createMany({
-                    data: classesToCreate,
-                });
-                createdClassesCount = result.count;
-            }
-
-            const classNamesCreated = classesToCreate.map(c => c.name);
-            const classesInDb = await this.dbService.class.findMany({
-                where: {
-                    schoolId: school.id,
-                    name: { in: classNamesCreated }
-                },
-                select: { id: true, name: true }
-            });
-
-            const finalModuleInstancesToCreate: Prisma.CourseContentModuleCreateManyInput[] = [];
-
-            modulesByClass.forEach(classModuleData => {
-                const classInDb = classesInDb.find(c => c.name === classModuleData.className);
-                if (classInDb) {
-                    classModuleData.modules.forEach(module => {
-                        finalModuleInstancesToCreate.push({
-                            ...module,
-                            classId: classInDb.id,
-                        });
-                    });
-                }
-            });
-
-            let createdModulesCount = 0;
-            if (finalModuleInstancesToCreate.length > 0) {
-                const result = await this.dbService.courseContentModule.createMany({
-                    data: finalModuleInstancesToCreate,
-                });
-                createdModulesCount = result.count;
-            }
-
-            const academicProfileData: Prisma.SchoolAcademicProfileInput = {
-                academicYears: [],
-                gradeLevels: [],
-                subjectAreas: [],
-                curriculumFrameworks: ['REB'],
-                defaultGradingScaleDescription: validation.data.defaultGradingScaleDescription,
-                primarySubjectsOffered: validation.data.primarySubjectsOffered ?? [],
-                primaryPassMark: validation.data.primaryPassMark,
-                oLevelCoreSubjects: validation.data.oLevelCoreSubjects ?? [],
-                oLevelOptionSubjects: validation.data.oLevelOptionSubjects ?? [],
-                oLevelExaminationTypes: validation.data.oLevelExaminationTypes ?? [],
-                oLevelAssessment: validation.data.oLevelAssessment ?? [],
-                aLevelSubjectCombination: validation.data.aLevelSubjectCombination ?? [],
-                aLevelOptionSubjects: validation.data.aLevelOptionSubjects ?? [],
-                aLevelPassMark: validation.data.aLevelPassMark,
-                tvetSpecialization: validation.data.tvetSpecialization ?? [],
-                tvetOptionSubjects: validation.data.tvetOptionSubjects ?? [],
+                return { dryRun, curriculumTemplate: template.key, academicYear, classes, totalClasses, totalModule };
             };
 
-            await this.dbService.school.update({
-                where: { id: schoolId },
-                data: {
-                    academicProfile: academicProfileData,
-                    totalClasses: createdClassesCount,
-                    totalModules: createdModulesCount,
-                },
-            });
-
-            return { totalClasses: createdClassesCount, totalModule: createdModulesCount };
+            return dryRun
+                ? await run(this.dbService)
+                : await this.dbService.$transaction(run, { timeout: ACADEMIC_SETUP_TIMEOUT_MS });
 
         } catch (error) {
             console.error("Error in setupAcademicStructure:", error);
@@ -515,7 +368,235 @@ export class SchoolService {
         }
     }
 
-    async sendAdministrationJoinRequests(schoolAdministrationDto: SchoolAdministrationDto): Promise<sendAdministrationJoinRequestsDto> {
+    /**
+     * Matches the planned classes with the school's existing ones by grade level
+     * and track. Classes created before grade levels were recorded are matched
+     * by name, and their modules by title.
+     */
+    private async diffAcademicStructure(db: Prisma.TransactionClient, schoolId: string, plan: AcademicPlan): Promise<AcademicClassChange[]> {
+        const existing = await db.class.findMany({
+            where: {
+                schoolId,
+                OR: [
+                    { gradeLevel: { not: null } },
+                    { name: { in: plan.classes.map(planned => planned.name) } },
+                ],
+            },
+            select: {
+                id: true,
+                name: true,
+                gradeLevel: true,
+                track: true,
+                archivedAt: true,
+                courseContentModules: {
+                    where: {
+                        OR: [
+                            { subject: { not: null } },
+                            { authorId: null, moduleType: { in: ['CORE_CONTENT', 'SUPPLEMENTARY'] } },
+                        ],
+                    },
+                    select: { id: true, title: true, subject: true, moduleType: true, archivedAt: true },
+                },
+            },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        const placement = (gradeLevel: string, track: string | null) => `${gradeLevel}|${track ?? ''}`.toLowerCase();
+        const unmatched = [...existing];
+        const take = (matches: (found: typeof existing[number]) => boolean) => {
+            const index = unmatched.findIndex(matches);
+            return index < 0 ? undefined : unmatched.splice(index, 1)[0];
+        };
+
+        const changes: AcademicClassChange[] = plan.classes.map(planned => {
+            const key = placement(planned.gradeLevel, planned.track);
+            const found = take(found => !found.archivedAt && !!found.gradeLevel && placement(found.gradeLevel, found.track) === key)
+                ?? take(found => found.name === planned.name);
+            if (!found) {
+                return {
+                    id: null,
+                    name: planned.name,
+                    gradeLevel: planned.gradeLevel,
+                    track: planned.track,
+                    action: 'create',
+                    modules: planned.modules.map(module => ({ id: null, ...module, action: 'create' })),
+                };
+            }
+
+            const placed = found.gradeLevel === planned.gradeLevel && found.track === planned.track;
+            return {
+                id: found.id,
+                name: found.name,
+                gradeLevel: planned.gradeLevel,
+                track: planned.track,
+                action: found.archivedAt ? 'restore' : placed ? 'keep' : 'update',
+                modules: this.diffModules(found.courseContentModules, planned.modules),
+            };
+        });
+
+        // Duplicates left by earlier runs are archived along with the classes no longer planned
+        for (const found of unmatched) {
+            if (found.archivedAt || !found.gradeLevel) continue;
+            changes.push({ id: found.id, name: found.name, gradeLevel: found.gradeLevel, track: found.track, action: 'archive', modules: [] });
+        }
+        return changes;
+    }
+
+    private diffModules(
+        existing: { id: string; title: string; subject: string | null; moduleType: string | null; archivedAt: Date | null }[],
+        planned: AcademicPlan['classes'][number]['modules'],
+    ): AcademicModuleChange[] {
+        const unmatched = [...existing];
+        const changes: AcademicModuleChange[] = planned.map(module => {
+            const index = unmatched.findIndex(found => (found.subject ?? found.title).toLowerCase() === module.title.toLowerCase());
+            if (index < 0) return { id: null, ...module, action: 'create' };
+
+            const [found] = unmatched.splice(index, 1);
+            const unchanged = found.subject !== null && found.moduleType === module.moduleType;
+            return { id: found.id, ...module, action: found.archivedAt ? 'restore' : unchanged ? 'keep' : 'update' };
+        });
+
+        for (const found of unmatched) {
+            if (found.archivedAt) continue;
+            changes.push({
+                id: found.id,
+                title: found.subject ?? found.title,
+                moduleType: found.moduleType as AcademicModuleChange['moduleType'],
+                action: 'archive',
+            });
+        }
+        return changes;
+    }
+
+    private async applyAcademicChanges(
+        db: Prisma.TransactionClient,
+        schoolId: string,
+        changes: AcademicClassChange[],
+        academicYear: string,
+        currentTerm: CurrentTerm | null,
+    ): Promise<void> {
+        const now = new Date();
+        const archivedClassIds = changes.filter(change => change.action === 'archive').map(change => change.id!);
+        if (archivedClassIds.length > 0) {
+            await db.class.updateMany({ where: { id: { in: archivedClassIds } }, data: { archivedAt: now } });
+        }
+
+        for (const change of changes) {
+            if (change.action === 'archive') continue;
+            if (change.action === 'create') {
+                const created = await db.class.create({
+                    data: {
+                        name: change.name,
+                        username: generateUsername(change.name),
+                        schoolId,
+                        classCode: generateCode(),
+                        classType: 'MAIN_SCHOOL_CLASS',
+                        gradeLevel: change.gradeLevel,
+                        track: change.track,
+                        academicYearName: academicYear,
+                        academicTermName: currentTerm?.name,
+                        startDate: currentTerm?.startDate,
+                        endDate: currentTerm?.endDate,
+                    },
+                    select: { id: true },
+                });
+                change.id = created.id;
+            } else if (change.action !== 'keep') {
+                await db.class.update({
+                    where: { id: change.id! },
+                    data: { archivedAt: null, gradeLevel: change.gradeLevel, track: change.track },
+                });
+            }
+
+            const classId = change.id!;
+            const newModules = change.modules.filter(module => module.action === 'create');
+            if (newModules.length > 0) {
+                await db.courseContentModule.createMany({
+                    data: newModules.map(module => ({
+                        classId,
+                        title: module.title,
+                        subject: module.title,
+                        moduleType: module.moduleType,
+                        moduleCode: generateCode(),
+                    })),
+                });
+            }
+
+            const archivedModuleIds = change.modules.filter(module => module.action === 'archive').map(module => module.id!);
+            if (archivedModuleIds.length > 0) {
+                await db.courseContentModule.updateMany({ where: { id: { in: archivedModuleIds } }, data: { archivedAt: now } });
+            }
+            for (const module of change.modules.filter(module => module.action === 'update' || module.action === 'restore')) {
+                await db.courseContentModule.update({
+                    where: { id: module.id! },
+                    data: { archivedAt: null, subject: module.title, moduleType: module.moduleType },
+                });
+            }
+        }
+    }
+
+    // Reads the REB specific fields sent before curriculum templates existed as REB stages
+    private legacyStageSelections(data: SchoolAcademicDto): AcademicStageSelectionDto[] {
+        const selections: AcademicStageSelectionDto[] = [];
+        if (data.primarySubjectsOffered?.length) {
+            selections.push({ key: 'primary', coreSubjects: data.primarySubjectsOffered, optionSubjects: [], passMark: data.primaryPassMark });
+        }
+        if (data.oLevelCoreSubjects?.length) {
+            selections.push({ key: 'o_level', coreSubjects: data.oLevelCoreSubjects, optionSubjects: data.oLevelOptionSubjects ?? [] });
+        }
+        if (data.aLevelSubjectCombination?.length) {
+            selections.push({ key: 'a_level', tracks: data.aLevelSubjectCombination, coreSubjects: [], optionSubjects: data.aLevelOptionSubjects ?? [], passMark: data.aLevelPassMark });
+        }
+        if (data.tvetSpecialization?.length) {
+            selections.push({ key: 'tvet', tracks: data.tvetSpecialization, coreSubjects: [], optionSubjects: data.tvetOptionSubjects ?? [] });
+        }
+        return selections;
+    }
+
+    // Academic years are managed on their own, the setup keeps them as they are
+    private buildAcademicProfile(
+        plan: AcademicPlan,
+        data: SchoolAcademicDto,
+        academicYears: SchoolAcademicYearInfo[],
+    ): Prisma.SchoolAcademicProfileCreateInput {
+        const stage = (key: string) => plan.stages.find(found => found.key === key);
+        const subjects = new Set(plan.classes.flatMap(planned => planned.modules.map(module => module.title)));
+
+        return {
+            academicYears,
+            gradeLevels: plan.stages.flatMap(found => found.gradeLevels.map(name => ({ name, description: found.name }))),
+            subjectAreas: [...subjects].map(name => ({ name })),
+            curriculumFrameworks: plan.template.frameworks,
+            curriculumTemplate: plan.template.key,
+            stages: plan.stages,
+            defaultGradingScaleDescription: data.defaultGradingScaleDescription,
+            // Kept filled for the clients that read the REB specific fields
+            primarySubjectsOffered: stage('primary')?.coreSubjects ?? [],
+            primaryPassMark: this.toIntegerMark(stage('primary')?.passMark),
+            oLevelCoreSubjects: stage('o_level')?.coreSubjects ?? [],
+            oLevelOptionSubjects: stage('o_level')?.optionSubjects ?? [],
+            oLevelExaminationTypes: data.oLevelExaminationTypes ?? [],
+            oLevelAssessment: data.oLevelAssessment ?? [],
+            aLevelSubjectCombination: stage('a_level')?.tracks ?? [],
+            aLevelOptionSubjects: stage('a_level')?.optionSubjects ?? [],
+            aLevelPassMark: this.toIntegerMark(stage('a_level')?.passMark),
+            tvetSpecialization: stage('tvet')?.tracks ?? [],
+            tvetOptionSubjects: stage('tvet')?.optionSubjects ?? [],
+        };
+    }
+
+    private toIntegerMark(passMark?: number | null): number | undefined {
+        return passMark === null || passMark === undefined ? undefined : Math.round(passMark);
+    }
+
+    /**
+     * Invites the school's administration: creates a STAFF join request for each
+     * contact and emails them a signed link to claim it.
+     *
+     * @param schoolAdministrationDto The administration contacts.
+     * @param invitedById The user sending the invitations, recorded as the one who approved them.
+     */
+    async sendAdministrationJoinRequests(schoolAdministrationDto: SchoolAdministrationDto, invitedById?: string): Promise<sendAdministrationJoinRequestsDto> {
         const validation = SchoolAdministrationSchema.safeParse(schoolAdministrationDto);
         if (!validation.success) {
             throw new BadRequestException('Invalid school administration data provided');
@@ -536,35 +617,42 @@ export class SchoolService {
             if (headmasterEmail) {
                 requestsToCreate.push({
                     schoolId: school.id,
-                    requestedRole: 'TEACHER',
+                    requestedRole: 'STAFF',
+                    staffRoleTitle: 'Headmaster',
                     requesterName: headmasterName,
                     requesterEmail: headmasterEmail,
                     requesterPhone: headmasterPhone,
                     userId: null,
+                    invitedByUserId: invitedById,
                 });
             }
 
             if (principalEmail) {
                 requestsToCreate.push({
                     schoolId: school.id,
-                    requestedRole: 'TEACHER',
+                    requestedRole: 'STAFF',
+                    staffRoleTitle: 'Director of Studies',
                     requesterName: DirectorOfStudies,
                     requesterEmail: principalEmail,
                     requesterPhone: principalPhone,
                     userId: null,
+                    invitedByUserId: invitedById,
                 });
             }
 
             if (additionalAdministration && additionalAdministration.length > 0) {
                 additionalAdministration.forEach(admin => {
                     if (admin.email) {
+                        // The selected role is a staff title (e.g. "Bursar"), not a join request role
                         requestsToCreate.push({
                             schoolId: school.id,
-                            requestedRole: admin.role as SchoolJoinRequestRole,
+                            requestedRole: 'STAFF',
+                            staffRoleTitle: admin.role,
                             requesterName: admin.name,
                             requesterEmail: admin.email,
                             requesterPhone: admin.phone,
                             userId: null,
+                            invitedByUserId: invitedById,
                         });
                     }
                 });
@@ -574,20 +662,25 @@ export class SchoolService {
                 throw new BadRequestException('No valid administration contact emails provided to send join requests.');
             }
 
-            let createdCount = 0;
+            let createdRequests: SchoolJoinRequest[];
             try {
-                const result = await this.dbService.schoolJoinRequest.createMany({
-                    data: requestsToCreate,
-                });
-                createdCount = result.count;
+                // Created one by one, since the invitation links need the ids
+                createdRequests = await this.dbService.$transaction(
+                    requestsToCreate.map(data => this.dbService.schoolJoinRequest.create({ data })),
+                );
             } catch (error) {
                 console.error('Error during bulk creation of administration join requests:', error);
                 throw new InternalServerErrorException('Something went wrong during the bulk creation of administration join requests.');
             }
+
+            const invitations = await Promise.all(
+                createdRequests.map(request => this.schoolInvitationService.send(request, school)),
+            );
             return {
                 attempted: requestsToCreate.length,
-                created: createdCount,
-                message: `Attempted to create ${requestsToCreate.length} administration join requests.`
+                created: createdRequests.length,
+                message: `Attempted to create ${requestsToCreate.length} administration join requests.`,
+                invitations,
             };
 
         } catch (error) {
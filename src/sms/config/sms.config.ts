@@ -0,0 +1,15 @@
+import { registerAs } from "@nestjs/config"
+
+export type SmsTransportName = 'http' | 'file' | 'console'
+
+export default registerAs("sms", () => ({
+  transport: (process.env.SMS_TRANSPORT ?? 'console') as SmsTransportName,
+  sender: process.env.SMS_SENDER ?? 'SpaceTgthr',
+  // Gateway receiving `{ from, to, text }` as JSON, authenticated with a bearer token
+  http: {
+    url: process.env.SMS_HTTP_URL,
+    token: process.env.SMS_HTTP_TOKEN,
+  },
+  // Where the file transport drops messages during local development
+  fileDirectory: process.env.SMS_FILE_DIR ?? '.tmp/sms',
+}))
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigType } from '@nestjs/config';
+import { SmsService } from './sms.service';
+import smsConfig from './config/sms.config';
+import { SMS_TRANSPORT, SmsTransport } from './transports/sms-transport';
+import { HttpSmsTransport } from './transports/http.transport';
+import { FileSmsTransport } from './transports/file.transport';
+import { ConsoleSmsTransport } from './transports/console.transport';
+
+@Module({
+  imports: [ConfigModule.forFeature(smsConfig)],
+  providers: [
+    SmsService,
+    {
+      provide: SMS_TRANSPORT,
+      inject: [smsConfig.KEY],
+      useFactory: (config: ConfigType<typeof smsConfig>): SmsTransport => {
+        switch (config.transport) {
+          case 'http':
+            return new HttpSmsTransport(config.http);
+          case 'file':
+            return new FileSmsTransport(config.fileDirectory);
+          default:
+            return new ConsoleSmsTransport();
+        }
+      },
+    },
+  ],
+  exports: [SmsService],
+})
+export class SmsModule { }
@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SmsService } from './sms.service';
+import smsConfig from './config/sms.config';
+import { SMS_TRANSPORT } from './transports/sms-transport';
+
+describe('SmsService', () => {
+  let service: SmsService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SmsService,
+        { provide: SMS_TRANSPORT, useValue: { send: jest.fn() } },
+        { provide: smsConfig.KEY, useValue: { sender: 'SpaceTgthr' } },
+      ],
+    }).compile();
+
+    service = module.get<SmsService>(SmsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+});
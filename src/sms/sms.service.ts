@@ -0,0 +1,30 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import smsConfig from './config/sms.config';
+import { SMS_TRANSPORT, SmsMessage, SmsTransport } from './transports/sms-transport';
+
+@Injectable()
+export class SmsService {
+  private readonly logger = new Logger(SmsService.name);
+
+  constructor(
+    @Inject(SMS_TRANSPORT)
+    private readonly transport: SmsTransport,
+    @Inject(smsConfig.KEY)
+    private readonly smsConfiguration: ConfigType<typeof smsConfig>,
+  ) { }
+
+  /**
+   * Sends a text message through the configured transport.
+   * @returns false when sending failed, the error is logged instead of thrown.
+   */
+  async send(message: SmsMessage): Promise<boolean> {
+    try {
+      await this.transport.send({ ...message, from: this.smsConfiguration.sender });
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to send SMS to ${message.to}: ${error.message}`, error.stack);
+      return false;
+    }
+  }
+}
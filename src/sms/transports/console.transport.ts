@@ -0,0 +1,13 @@
+import { Logger } from '@nestjs/common';
+import { SmsMessage, SmsTransport } from './sms-transport';
+
+/**
+ * Logs every message instead of sending it, for local development.
+ */
+export class ConsoleSmsTransport implements SmsTransport {
+  private readonly logger = new Logger('Sms');
+
+  async send(message: SmsMessage & { from: string }): Promise<void> {
+    this.logger.log(`To: ${message.to}\n\n${message.text}`);
+  }
+}
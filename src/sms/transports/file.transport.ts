@@ -0,0 +1,20 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { SmsMessage, SmsTransport } from './sms-transport';
+
+/**
+ * Writes every message as a JSON file instead of sending it, for local development.
+ */
+export class FileSmsTransport implements SmsTransport {
+  constructor(private readonly directory: string) { }
+
+  async send(message: SmsMessage & { from: string }): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9+]/g, '_');
+    const fileName = `${Date.now()}-${safeRecipient}.json`;
+    await writeFile(
+      join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+    );
+  }
+}
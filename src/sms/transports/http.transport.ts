@@ -0,0 +1,26 @@
+import { SmsMessage, SmsTransport } from './sms-transport';
+
+/**
+ * Posts messages to an SMS gateway as JSON.
+ */
+export class HttpSmsTransport implements SmsTransport {
+  constructor(private readonly options: { url?: string; token?: string }) { }
+
+  async send(message: SmsMessage & { from: string }): Promise<void> {
+    if (!this.options.url) {
+      throw new Error('SMS_HTTP_URL is not configured');
+    }
+
+    const response = await fetch(this.options.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.token && { Authorization: `Bearer ${this.options.token}` }),
+      },
+      body: JSON.stringify(message),
+    });
+    if (!response.ok) {
+      throw new Error(`SMS gateway responded with ${response.status}`);
+    }
+  }
+}
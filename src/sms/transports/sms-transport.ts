@@ -0,0 +1,10 @@
+export const SMS_TRANSPORT = 'SMS_TRANSPORT';
+
+export interface SmsMessage {
+  to: string;
+  text: string;
+}
+
+export interface SmsTransport {
+  send(message: SmsMessage & { from: string }): Promise<void>;
+}
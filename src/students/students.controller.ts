@@ -12,17 +12,23 @@ import {
   ParseIntPipe, // Keep if needed elsewhere, but not for ObjectId strings
   NotFoundException, // Import for potential custom checks
   BadRequestException, // Import for parameter validation
+  UseGuards,
 } from '@nestjs/common';
 import { StudentsService } from './students.service';
 // Assuming your Zod DTOs are exported correctly
 import { CreateStudentDto, createStudentSchema } from './dto/create-student.dto';
 import { UpdateStudentDto, updateStudentSchema } from './dto/update-student.dto';
 import { ZodValidationPipe } from 'src/common/pipes/zod-validation.pipe';
+import { JwtOrApiKeyGuard } from 'src/common/guards/jwt-or-api-key.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { SchoolRoles } from 'src/auth/decorators/school-roles.decorator';
+import { ApiKeyScopes } from 'src/auth/decorators/api-key-scopes.decorator';
 // You might need a custom ZodValidationPipe or configure ValidationPipe globally
 // For this example, we'll apply the standard ValidationPipe, assuming setup elsewhere
 // or that DTOs are class-validator based if not using a Zod pipe.
 
 @Controller('students') // Route prefix for all methods in this controller
+@UseGuards(JwtOrApiKeyGuard, RolesGuard)
 export class StudentsController {
   constructor(private readonly studentsService: StudentsService) {}
 
@@ -32,6 +38,8 @@ export class StudentsController {
    * @param createStudentDto - Data for creating the student.
    */
   @Post()
+  @SchoolRoles({ members: ['OWNER', 'STAFF'] })
+  @ApiKeyScopes('students:write')
   @UsePipes(new ZodValidationPipe(createStudentSchema))
   create(@Body() createStudentDto: CreateStudentDto) {
     // The DTO is validated by the pipe before this method runs
@@ -45,6 +53,7 @@ export class StudentsController {
    * @param userId - Optional query parameter to filter by user.
    */
   @Get()
+  @ApiKeyScopes('students:read')
   findAll(
     @Query('schoolId') schoolId?: string, // Get optional schoolId from query string (?schoolId=...)
     @Query('userId') userId?: string, // Get optional userId from query string (?userId=...)
@@ -85,6 +94,8 @@ export class StudentsController {
    * @param updateStudentDto - Data to update the student with.
    */
   @Patch(':id')
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER'], resource: 'student' })
+  @ApiKeyScopes('students:write')
   // Apply ValidationPipe to validate the incoming body against UpdateStudentDto rules
   @UsePipes(new ZodValidationPipe(updateStudentSchema))
   update(
@@ -105,6 +116,8 @@ export class StudentsController {
    * @param id - The student's ID from the URL path.
    */
   @Delete(':id')
+  @SchoolRoles({ members: ['OWNER', 'STAFF'], resource: 'student' })
+  @ApiKeyScopes('students:write')
   remove(@Param('id') id: string) {
      // Validate ID format
     if (!/^[0-9a-fA-F]{24}$/.test(id)) {
@@ -1,18 +1,25 @@
 import { ZodValidationPipe } from './../common/pipes/zod-validation.pipe';
-import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UsePipes, ValidationPipe } from '@nestjs/common';
+import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UsePipes, ValidationPipe, UseGuards } from '@nestjs/common';
 import { TeachersService } from './teachers.service';
 import { CreateTeacherDto, createTeacherSchema } from './dto/create-teacher.dto';
 import { UpdateTeacherDto, updateTeacherSchema } from './dto/update-teacher.dto';
+import { JwtOrApiKeyGuard } from 'src/common/guards/jwt-or-api-key.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { SchoolRoles } from 'src/auth/decorators/school-roles.decorator';
+import { ApiKeyScopes } from 'src/auth/decorators/api-key-scopes.decorator';
 
 // Optional: Swagger decorators for API documentation
 import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiParam } from '@nestjs/swagger';
 
 @ApiTags('Teachers') // Group endpoints in Swagger UI
 @Controller('teachers')
+@UseGuards(JwtOrApiKeyGuard, RolesGuard)
 export class TeachersController {
   constructor(private readonly teachersService: TeachersService) { }
 
   @Post()
+  @SchoolRoles({ members: ['OWNER', 'STAFF'] })
+  @ApiKeyScopes('teachers:write')
   @ApiOperation({ summary: 'Create a new teacher profile' })
   @ApiResponse({ status: 201, description: 'Teacher created successfully.' })
   @ApiResponse({ status: 400, description: 'Bad Request - Validation failed.' })
@@ -24,6 +31,7 @@ export class TeachersController {
   }
 
   @Get()
+  @ApiKeyScopes('teachers:read')
   @ApiOperation({ summary: 'Get all teachers, optionally filtered by school or user' })
   @ApiQuery({ name: 'schoolId', required: false, description: 'Filter teachers by school ID', type: String })
   @ApiQuery({ name: 'userId', required: false, description: 'Filter teachers by user ID', type: String })
@@ -45,6 +53,8 @@ export class TeachersController {
   }
 
   @Patch(':id')
+  @SchoolRoles({ members: ['OWNER', 'STAFF'], resource: 'teacher' })
+  @ApiKeyScopes('teachers:write')
   @ApiOperation({ summary: 'Update a teacher\'s profile' })
   @ApiParam({ name: 'id', description: 'The unique ID of the teacher to update', type: String })
   @ApiResponse({ status: 200, description: 'Teacher updated successfully.' })
@@ -57,6 +67,8 @@ export class TeachersController {
   }
 
   @Delete(':id')
+  @SchoolRoles({ members: ['OWNER', 'STAFF'], resource: 'teacher' })
+  @ApiKeyScopes('teachers:write')
   @ApiOperation({ summary: 'Delete a teacher profile' })
   @ApiParam({ name: 'id', description: 'The unique ID of the teacher to delete', type: String })
   @ApiResponse({ status: 200, description: 'Teacher deleted successfully.' })
@@ -0,0 +1,181 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AccountDeletionService } from './account-deletion.service';
+import { DbService } from '../db/db.service';
+import { UploadService } from '../upload/upload.service';
+import { MailService } from '../mail/mail.service';
+import { SessionService } from '../auth/session.service';
+import accountDeletionConfig from './config/account-deletion.config';
+
+const USER_ID = 'aaaaaaaaaaaaaaaaaaaaaaaa';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('AccountDeletionService', () => {
+  let service: AccountDeletionService;
+  let db: {
+    user: { findUnique: jest.Mock; findMany: jest.Mock; update: jest.Mock };
+    school: { count: jest.Mock };
+    dataExport: { findMany: jest.Mock; deleteMany: jest.Mock };
+    schoolJoinRequest: { findMany: jest.Mock; update: jest.Mock };
+    teacher: { updateMany: jest.Mock };
+    student: { updateMany: jest.Mock };
+    schoolStaff: { updateMany: jest.Mock };
+    classMember: { updateMany: jest.Mock };
+    passwordResetToken: { deleteMany: jest.Mock };
+    oAuthLoginCode: { deleteMany: jest.Mock };
+    passwordlessLoginToken: { deleteMany: jest.Mock };
+    loginAttempt: { deleteMany: jest.Mock };
+    $transaction: jest.Mock;
+  };
+  let mailService: { send: jest.Mock };
+  let sessionService: { revokeAllForUser: jest.Mock };
+
+  const userWith = (fields: Record<string, unknown>) => ({
+    id: USER_ID,
+    email: 'jane@example.com',
+    fullName: 'Jane Doe',
+    image: null,
+    timezone: null,
+    preferences: null,
+    deletionRequestedAt: null,
+    deletionScheduledFor: null,
+    deletedAt: null,
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    db = {
+      user: { findUnique: jest.fn(), findMany: jest.fn().mockResolvedValue([]), update: jest.fn() },
+      school: { count: jest.fn().mockResolvedValue(0) },
+      dataExport: { findMany: jest.fn().mockResolvedValue([]), deleteMany: jest.fn() },
+      schoolJoinRequest: { findMany: jest.fn().mockResolvedValue([]), update: jest.fn() },
+      teacher: { updateMany: jest.fn() },
+      student: { updateMany: jest.fn() },
+      schoolStaff: { updateMany: jest.fn() },
+      classMember: { updateMany: jest.fn() },
+      passwordResetToken: { deleteMany: jest.fn() },
+      oAuthLoginCode: { deleteMany: jest.fn() },
+      passwordlessLoginToken: { deleteMany: jest.fn() },
+      loginAttempt: { deleteMany: jest.fn() },
+      $transaction: jest.fn().mockResolvedValue([]),
+    };
+    mailService = { send: jest.fn().mockResolvedValue(true) };
+    sessionService = { revokeAllForUser: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountDeletionService,
+        { provide: DbService, useValue: db },
+        { provide: UploadService, useValue: {} },
+        { provide: MailService, useValue: mailService },
+        { provide: SessionService, useValue: sessionService },
+        { provide: accountDeletionConfig.KEY, useValue: { graceDays: 14, sweepIntervalMinutes: 0 } },
+      ],
+    }).compile();
+
+    service = module.get<AccountDeletionService>(AccountDeletionService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('schedules the deletion after the grace period and notifies the user', async () => {
+    db.user.findUnique.mockResolvedValue(userWith({}));
+
+    const status = await service.scheduleDeletion(USER_ID);
+
+    expect(status.scheduledFor!.getTime() - status.requestedAt!.getTime()).toBe(14 * DAY_MS);
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: USER_ID },
+      data: { deletionRequestedAt: status.requestedAt, deletionScheduledFor: status.scheduledFor },
+    });
+    expect(mailService.send).toHaveBeenCalledWith(expect.objectContaining({ to: 'jane@example.com' }));
+  });
+
+  it('keeps the date of a deletion already scheduled', async () => {
+    const scheduledFor = new Date(Date.now() + 3 * DAY_MS);
+    db.user.findUnique.mockResolvedValue(userWith({ deletionRequestedAt: new Date(), deletionScheduledFor: scheduledFor }));
+
+    const status = await service.scheduleDeletion(USER_ID);
+
+    expect(status.scheduledFor).toBe(scheduledFor);
+    expect(db.user.update).not.toHaveBeenCalled();
+    expect(mailService.send).not.toHaveBeenCalled();
+  });
+
+  it('refuses to schedule the deletion of a user who created an active school', async () => {
+    db.user.findUnique.mockResolvedValue(userWith({}));
+    db.school.count.mockResolvedValue(1);
+
+    await expect(service.scheduleDeletion(USER_ID)).rejects.toThrow(BadRequestException);
+    expect(db.user.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to schedule the deletion of an account already deleted', async () => {
+    db.user.findUnique.mockResolvedValue(userWith({ deletedAt: new Date() }));
+
+    await expect(service.scheduleDeletion(USER_ID)).rejects.toThrow(NotFoundException);
+  });
+
+  it('cancels a scheduled deletion', async () => {
+    db.user.findUnique.mockResolvedValue(userWith({ deletionRequestedAt: new Date(), deletionScheduledFor: new Date() }));
+
+    const status = await service.cancelDeletion(USER_ID);
+
+    expect(status).toMatchObject({ requestedAt: null, scheduledFor: null });
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: USER_ID },
+      data: { deletionRequestedAt: null, deletionScheduledFor: null },
+    });
+  });
+
+  it('refuses to cancel when no deletion is scheduled', async () => {
+    db.user.findUnique.mockResolvedValue(userWith({}));
+
+    await expect(service.cancelDeletion(USER_ID)).rejects.toThrow('The account is not scheduled for deletion');
+  });
+
+  it('only anonymizes the accounts whose grace period is over', async () => {
+    db.user.findMany.mockResolvedValue([{ id: USER_ID }]);
+    db.user.findUnique.mockResolvedValue(userWith({ deletionScheduledFor: new Date(Date.now() - DAY_MS) }));
+
+    await expect(service.processDueDeletions()).resolves.toBe(1);
+
+    const { where } = db.user.findMany.mock.calls[0][0];
+    expect(where).toEqual({ deletionScheduledFor: { lte: expect.any(Date) }, deletedAt: null });
+    expect(where.deletionScheduledFor.lte.getTime()).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('removes the personal data of the user and ends the sessions', async () => {
+    db.user.findUnique.mockResolvedValue(userWith({}));
+
+    await service.anonymize(USER_ID);
+
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+    expect(db.user.update).toHaveBeenCalledWith({
+      where: { id: USER_ID },
+      data: expect.objectContaining({
+        email: `deleted-${USER_ID}@deleted.invalid`,
+        fullName: 'Deleted user',
+        password: null,
+        isActive: false,
+        deletedAt: expect.any(Date),
+      }),
+    });
+    expect(db.teacher.updateMany).toHaveBeenCalledWith({
+      where: { userId: USER_ID },
+      data: expect.objectContaining({ teacherEmail: null, isActive: false }),
+    });
+    expect(sessionService.revokeAllForUser).toHaveBeenCalledWith(USER_ID);
+  });
+
+  it('leaves an account already anonymized alone', async () => {
+    db.user.findUnique.mockResolvedValue(userWith({ deletedAt: new Date() }));
+
+    await service.anonymize(USER_ID);
+
+    expect(db.$transaction).not.toHaveBeenCalled();
+    expect(sessionService.revokeAllForUser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,251 @@
+import {
+  BadRequestException,
+  forwardRef,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { rm } from 'fs/promises';
+import { DbService } from '../db/db.service';
+import { UploadService } from '../upload/upload.service';
+import { MailService } from '../mail/mail.service';
+import { escapeHtml } from '../common/utils/html.util';
+import { SessionService } from '../auth/session.service';
+import { extractCloudinaryPublicId } from '../common/utils/cloudinary.util';
+import { isObjectId } from '../common/utils/school-membership.util';
+import { DateDisplayOptions, formatDate } from '../common/utils/date-format.util';
+import accountDeletionConfig from './config/account-deletion.config';
+import { dateDisplayOf } from './user-preferences.service';
+
+const DELETED_USER_NAME = 'Deleted user';
+
+export interface AccountDeletionStatus {
+  requestedAt: Date | null;
+  scheduledFor: Date | null;
+  message: string;
+}
+
+// Unique placeholder for the fields that must stay unique once the account is anonymized
+const tombstoneEmail = (id: string) => `deleted-${id}@deleted.invalid`;
+
+/**
+ * Deleting an account schedules it for anonymization after a grace period,
+ * during which the user can cancel. The user row is then kept as a tombstone
+ * without personal data, so that submissions, grades, messages and authored
+ * content stay linked instead of being cascaded away.
+ */
+@Injectable()
+export class AccountDeletionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AccountDeletionService.name);
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly dbService: DbService,
+    private readonly uploadService: UploadService,
+    private readonly mailService: MailService,
+    @Inject(forwardRef(() => SessionService))
+    private readonly sessionService: SessionService,
+    @Inject(accountDeletionConfig.KEY)
+    private readonly deletionConfiguration: ConfigType<typeof accountDeletionConfig>,
+  ) { }
+
+  onModuleInit() {
+    const intervalMinutes = this.deletionConfiguration.sweepIntervalMinutes;
+    if (intervalMinutes <= 0) return;
+    this.sweepTimer = setInterval(() => void this.processDueDeletions(), intervalMinutes * 60 * 1000);
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  async scheduleDeletion(userId: string): Promise<AccountDeletionStatus> {
+    const user = await this.findUser(userId);
+    if (user.deletionScheduledFor) {
+      return this.toStatus(user.deletionRequestedAt, user.deletionScheduledFor, dateDisplayOf(user));
+    }
+
+    // A school cannot be left without its administrator
+    const ownedSchools = await this.dbService.school.count({ where: { creatorId: userId, isActive: true } });
+    if (ownedSchools > 0) {
+      throw new BadRequestException('Transfer or close the schools you created before deleting the account');
+    }
+
+    const requestedAt = new Date();
+    const scheduledFor = new Date(requestedAt.getTime() + this.deletionConfiguration.graceDays * 24 * 60 * 60 * 1000);
+    await this.dbService.user.update({
+      where: { id: userId },
+      data: { deletionRequestedAt: requestedAt, deletionScheduledFor: scheduledFor },
+    });
+
+    const date = formatDate(scheduledFor, dateDisplayOf(user));
+    const sent = await this.mailService.send({
+      to: user.email,
+      subject: 'Your account is scheduled for deletion',
+      text: `Hello ${user.fullName},\n\nYour Space Together account will be deleted on ${date}. Until then you can log in and cancel the deletion from your account settings.\n\nIf you did not ask for this, log in and cancel it right away.`,
+      html: `<p>Hello ${escapeHtml(user.fullName)},</p><p>Your Space Together account will be deleted on <strong>${date}</strong>. Until then you can log in and cancel the deletion from your account settings.</p><p>If you did not ask for this, log in and cancel it right away.</p>`,
+    });
+    if (!sent) {
+      this.logger.warn(`Deletion notice could not be sent to user ${userId}`);
+    }
+
+    return this.toStatus(requestedAt, scheduledFor, dateDisplayOf(user));
+  }
+
+  async cancelDeletion(userId: string): Promise<AccountDeletionStatus> {
+    const user = await this.findUser(userId);
+    if (!user.deletionScheduledFor) {
+      throw new BadRequestException('The account is not scheduled for deletion');
+    }
+
+    await this.dbService.user.update({
+      where: { id: userId },
+      data: { deletionRequestedAt: null, deletionScheduledFor: null },
+    });
+    return this.toStatus(null, null);
+  }
+
+  async getStatus(userId: string): Promise<AccountDeletionStatus> {
+    const user = await this.findUser(userId);
+    return this.toStatus(user.deletionRequestedAt, user.deletionScheduledFor, dateDisplayOf(user));
+  }
+
+  /**
+   * Anonymizes every account whose grace period is over.
+   *
+   * @returns The number of accounts anonymized.
+   */
+  async processDueDeletions(): Promise<number> {
+    const due = await this.dbService.user.findMany({
+      where: { deletionScheduledFor: { lte: new Date() }, deletedAt: null },
+      select: { id: true },
+    });
+
+    let anonymized = 0;
+    for (const { id } of due) {
+      try {
+        await this.anonymize(id);
+        anonymized++;
+      } catch (error) {
+        this.logger.error(`Failed to anonymize user ${id}: ${error.message}`, error.stack);
+      }
+    }
+    return anonymized;
+  }
+
+  /**
+   * Replaces the personal data of the user and of every copy kept on other
+   * records, and ends the user's sessions. Role rows, class memberships and
+   * academic records are kept, deactivated, under the anonymized user.
+   */
+  async anonymize(userId: string): Promise<void> {
+    const user = await this.dbService.user.findUnique({ where: { id: userId } });
+    if (!user || user.deletedAt) return;
+
+    const exports = await this.dbService.dataExport.findMany({
+      where: { userId, filePath: { not: null } },
+      select: { filePath: true },
+    });
+    const joinRequests = await this.dbService.schoolJoinRequest.findMany({
+      where: { OR: [{ userId }, { requesterEmail: user.email }] },
+      select: { id: true },
+    });
+
+    await this.dbService.$transaction([
+      this.dbService.user.update({
+        where: { id: userId },
+        data: {
+          email: tombstoneEmail(userId),
+          username: `deleted_${userId}`,
+          fullName: DELETED_USER_NAME,
+          password: null,
+          passwordHistory: [],
+          googleId: null,
+          image: null,
+          phoneNumber: null,
+          country: null,
+          timezone: null,
+          preferences: null,
+          gender: null,
+          dateOfBirth: null,
+          bio: null,
+          address: null,
+          isEmailVerified: false,
+          isActive: false,
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorPendingSecret: null,
+          twoFactorRecoveryCodes: [],
+          twoFactorEnabledAt: null,
+          deletionScheduledFor: null,
+          deletedAt: new Date(),
+        },
+      }),
+      this.dbService.teacher.updateMany({
+        where: { userId },
+        data: {
+          teacherFullName: null,
+          teacherEmail: null,
+          teacherPhone: null,
+          teacherImage: null,
+          teacherBio: null,
+          isActive: false,
+        },
+      }),
+      this.dbService.student.updateMany({
+        where: { userId },
+        data: { studentFullName: null, studentEmail: null, studentImage: null, isActive: false },
+      }),
+      this.dbService.schoolStaff.updateMany({
+        where: { userId },
+        data: { staffFullName: null, staffEmail: null, staffPhone: null, staffImage: null, isActive: false },
+      }),
+      this.dbService.classMember.updateMany({ where: { userId }, data: { isActive: false } }),
+      ...joinRequests.map(request => this.dbService.schoolJoinRequest.update({
+        where: { id: request.id },
+        data: { requesterName: null, requesterEmail: tombstoneEmail(request.id), requesterPhone: null },
+      })),
+      // Records that only exist to log in or that hold contact details
+      this.dbService.passwordResetToken.deleteMany({ where: { userId } }),
+      this.dbService.oAuthLoginCode.deleteMany({ where: { userId } }),
+      this.dbService.passwordlessLoginToken.deleteMany({ where: { userId } }),
+      this.dbService.loginAttempt.deleteMany({ where: { OR: [{ userId }, { email: user.email }] } }),
+      this.dbService.dataExport.deleteMany({ where: { userId } }),
+    ]);
+
+    await this.sessionService.revokeAllForUser(userId);
+    for (const { filePath } of exports) {
+      await rm(filePath!, { force: true });
+    }
+
+    const avatarPublicId = extractCloudinaryPublicId(user.image);
+    if (avatarPublicId) {
+      // The account is already anonymized, a leftover image is only logged
+      await this.uploadService.deleteImage(avatarPublicId).catch(error =>
+        this.logger.warn(`Could not remove the avatar of user ${userId}: ${error.message}`));
+    }
+  }
+
+  private async findUser(userId: string) {
+    const user = isObjectId(userId) ? await this.dbService.user.findUnique({ where: { id: userId } }) : null;
+    if (!user || user.deletedAt) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private toStatus(requestedAt: Date | null, scheduledFor: Date | null, display?: DateDisplayOptions): AccountDeletionStatus {
+    return {
+      requestedAt,
+      scheduledFor,
+      message: scheduledFor
+        ? `The account will be deleted on ${formatDate(scheduledFor, display)} unless the deletion is cancelled`
+        : 'The account is not scheduled for deletion',
+    };
+  }
+}
@@ -0,0 +1,8 @@
+import { registerAs } from "@nestjs/config"
+
+export default registerAs("accountDeletion", () => ({
+  // Days during which a requested deletion can still be cancelled
+  graceDays: Number(process.env.ACCOUNT_DELETION_GRACE_DAYS ?? 14),
+  // How often due deletions are processed, 0 turns the sweep off
+  sweepIntervalMinutes: Number(process.env.ACCOUNT_DELETION_SWEEP_MINUTES ?? 60),
+}))
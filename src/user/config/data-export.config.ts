@@ -0,0 +1,7 @@
+import { registerAs } from "@nestjs/config"
+
+export default registerAs("dataExport", () => ({
+  // Where the export archives are written until they expire
+  directory: process.env.DATA_EXPORT_DIR ?? '.tmp/exports',
+  ttlHours: Number(process.env.DATA_EXPORT_TTL_HOURS ?? 48),
+}))
@@ -0,0 +1,153 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { DataExportService } from './data-export.service';
+import { DbService } from '../db/db.service';
+import dataExportConfig from './config/data-export.config';
+
+const EXPORT_ID = 'aaaaaaaaaaaaaaaaaaaaaaaa';
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('DataExportService', () => {
+  let service: DataExportService;
+  let db: {
+    dataExport: { findFirst: jest.Mock; findMany: jest.Mock; create: jest.Mock; update: jest.Mock };
+  };
+
+  const exportWith = (fields: Record<string, unknown>) => ({
+    id: EXPORT_ID,
+    userId: 'user-1',
+    status: 'PENDING',
+    createdAt: new Date(),
+    completedAt: null,
+    expiresAt: null,
+    fileName: null,
+    filePath: null,
+    fileSizeBytes: null,
+    error: null,
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    db = {
+      dataExport: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(),
+        update: jest.fn(),
+      },
+    };
+    // Archives are built after the response, the tests only check they are scheduled
+    jest.spyOn(global, 'setImmediate').mockImplementation(() => ({}) as NodeJS.Immediate);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DataExportService,
+        { provide: DbService, useValue: db },
+        { provide: dataExportConfig.KEY, useValue: { directory: '.tmp/exports', ttlHours: 48 } },
+      ],
+    }).compile();
+
+    service = module.get<DataExportService>(DataExportService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('starts a new export when the user has none', async () => {
+    db.dataExport.create.mockResolvedValue(exportWith({}));
+
+    const summary = await service.requestExport('user-1');
+
+    expect(db.dataExport.create).toHaveBeenCalledWith({ data: { userId: 'user-1' } });
+    expect(setImmediate).toHaveBeenCalledTimes(1);
+    expect(summary).toMatchObject({ id: EXPORT_ID, status: 'PENDING', downloadUrl: null });
+  });
+
+  it('returns the export in progress instead of starting another one', async () => {
+    db.dataExport.findFirst.mockResolvedValue(exportWith({ status: 'PROCESSING' }));
+
+    const summary = await service.requestExport('user-1');
+
+    expect(summary).toMatchObject({ id: EXPORT_ID, status: 'PROCESSING' });
+    expect(db.dataExport.create).not.toHaveBeenCalled();
+    expect(setImmediate).not.toHaveBeenCalled();
+  });
+
+  it('fails an interrupted export and starts a new one', async () => {
+    db.dataExport.findFirst.mockResolvedValue(exportWith({ createdAt: new Date(Date.now() - HOUR_MS) }));
+    db.dataExport.create.mockResolvedValue(exportWith({ id: 'bbbbbbbbbbbbbbbbbbbbbbbb' }));
+
+    const summary = await service.requestExport('user-1');
+
+    expect(db.dataExport.update).toHaveBeenCalledWith({
+      where: { id: EXPORT_ID },
+      data: { status: 'FAILED', error: 'The export was interrupted' },
+    });
+    expect(summary.id).toBe('bbbbbbbbbbbbbbbbbbbbbbbb');
+  });
+
+  it('returns a completed archive that has not expired', async () => {
+    db.dataExport.findFirst.mockResolvedValue(exportWith({
+      status: 'COMPLETED',
+      filePath: '.tmp/exports/archive.zip',
+      expiresAt: new Date(Date.now() + HOUR_MS),
+    }));
+
+    const summary = await service.requestExport('user-1');
+
+    expect(summary.downloadUrl).toBe(`/user/me/export/${EXPORT_ID}/download`);
+    expect(db.dataExport.create).not.toHaveBeenCalled();
+  });
+
+  it('only polls exports of the user', async () => {
+    await expect(service.findOne('user-2', EXPORT_ID)).rejects.toThrow(NotFoundException);
+    expect(db.dataExport.findFirst).toHaveBeenCalledWith({ where: { id: EXPORT_ID, userId: 'user-2' } });
+  });
+
+  it('rejects an export id that is not an object id without a lookup', async () => {
+    await expect(service.findOne('user-1', 'not-an-id')).rejects.toThrow(NotFoundException);
+    expect(db.dataExport.findFirst).not.toHaveBeenCalled();
+  });
+
+  it('refuses to download an export of another user', async () => {
+    await expect(service.getDownload('user-2', EXPORT_ID)).rejects.toThrow(NotFoundException);
+    expect(db.dataExport.findFirst).toHaveBeenCalledWith({ where: { id: EXPORT_ID, userId: 'user-2' } });
+  });
+
+  it('refuses to download an export that is not ready', async () => {
+    db.dataExport.findFirst.mockResolvedValue(exportWith({ status: 'PROCESSING' }));
+
+    await expect(service.getDownload('user-1', EXPORT_ID)).rejects.toThrow('This export is not ready yet');
+  });
+
+  it('refuses to download an expired export', async () => {
+    db.dataExport.findFirst.mockResolvedValue(exportWith({
+      status: 'COMPLETED',
+      fileName: 'export.zip',
+      filePath: '.tmp/exports/archive.zip',
+      expiresAt: new Date(Date.now() - HOUR_MS),
+    }));
+
+    await expect(service.getDownload('user-1', EXPORT_ID)).rejects.toThrow(BadRequestException);
+  });
+
+  it('streams a completed export to its owner', async () => {
+    db.dataExport.findFirst.mockResolvedValue(exportWith({
+      status: 'COMPLETED',
+      fileName: 'export.zip',
+      filePath: __filename,
+      expiresAt: new Date(Date.now() + HOUR_MS),
+    }));
+
+    const download = await service.getDownload('user-1', EXPORT_ID);
+
+    expect(download.fileName).toBe('export.zip');
+    expect(download.stream.path).toBe(__filename);
+    download.stream.destroy();
+  });
+});
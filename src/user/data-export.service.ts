@@ -0,0 +1,241 @@
+import { BadRequestException, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { createReadStream, ReadStream } from 'fs';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import * as JSZip from 'jszip';
+import { DataExport } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import { toCsv } from '../common/utils/csv.util';
+import { isObjectId } from '../common/utils/school-membership.util';
+import dataExportConfig from './config/data-export.config';
+
+// Exports still pending after this long were interrupted, e.g. by a restart
+const STALE_EXPORT_MS = 30 * 60 * 1000;
+
+export interface DataExportSummary {
+  id: string;
+  status: DataExport['status'];
+  createdAt: Date;
+  completedAt: Date | null;
+  expiresAt: Date | null;
+  fileSizeBytes: number | null;
+  error: string | null;
+  // Set once the archive is ready
+  downloadUrl: string | null;
+}
+
+export interface DataExportDownload {
+  fileName: string;
+  stream: ReadStream;
+}
+
+/**
+ * Builds an archive of everything tied to a user: a `data.json` file with
+ * every section, and one CSV file per section. Archives are built in the
+ * background, the caller polls the export until it is completed.
+ */
+@Injectable()
+export class DataExportService {
+  private readonly logger = new Logger(DataExportService.name);
+
+  constructor(
+    private readonly dbService: DbService,
+    @Inject(dataExportConfig.KEY)
+    private readonly exportConfiguration: ConfigType<typeof dataExportConfig>,
+  ) { }
+
+  /**
+   * Returns the user's current export, starting a new one when there is none
+   * in progress and no archive left to download.
+   */
+  async requestExport(userId: string): Promise<DataExportSummary> {
+    const latest = await this.dbService.dataExport.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (latest && this.isActive(latest)) {
+      if (Date.now() - latest.createdAt.getTime() < STALE_EXPORT_MS) {
+        return this.toSummary(latest);
+      }
+      await this.dbService.dataExport.update({
+        where: { id: latest.id },
+        data: { status: 'FAILED', error: 'The export was interrupted' },
+      });
+    }
+    if (latest?.status === 'COMPLETED' && latest.expiresAt && latest.expiresAt > new Date()) {
+      return this.toSummary(latest);
+    }
+
+    await this.removeArchives(userId);
+    const dataExport = await this.dbService.dataExport.create({ data: { userId } });
+    // Runs after the response, errors are recorded on the export itself
+    setImmediate(() => void this.process(dataExport.id));
+    return this.toSummary(dataExport);
+  }
+
+  async findOne(userId: string, id: string): Promise<DataExportSummary> {
+    return this.toSummary(await this.findForUser(userId, id));
+  }
+
+  async getDownload(userId: string, id: string): Promise<DataExportDownload> {
+    const dataExport = await this.findForUser(userId, id);
+    if (dataExport.status !== 'COMPLETED' || !dataExport.filePath || !dataExport.fileName) {
+      throw new BadRequestException('This export is not ready yet');
+    }
+    if (dataExport.expiresAt && dataExport.expiresAt <= new Date()) {
+      throw new BadRequestException('This export has expired, request a new one');
+    }
+    return { fileName: dataExport.fileName, stream: createReadStream(dataExport.filePath) };
+  }
+
+  /**
+   * Builds the archive of an export and records the outcome.
+   */
+  async process(id: string): Promise<void> {
+    const dataExport = await this.dbService.dataExport.update({
+      where: { id },
+      data: { status: 'PROCESSING', startedAt: new Date() },
+    });
+
+    try {
+      const sections = await this.collect(dataExport.userId);
+      const zip = new JSZip();
+      zip.file('data.json', JSON.stringify(sections, null, 2));
+      for (const [name, rows] of Object.entries(sections)) {
+        if (rows.length > 0) zip.file(`csv/${name}.csv`, toCsv(rows));
+      }
+      const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+      const directory = this.exportConfiguration.directory;
+      const fileName = `space-together-export-${dataExport.createdAt.toISOString().slice(0, 10)}.zip`;
+      const filePath = join(directory, `${dataExport.id}.zip`);
+      await mkdir(directory, { recursive: true });
+      await writeFile(filePath, archive);
+
+      await this.dbService.dataExport.update({
+        where: { id },
+        data: {
+          status: 'COMPLETED',
+          fileName,
+          filePath,
+          fileSizeBytes: archive.length,
+          completedAt: new Date(),
+          expiresAt: new Date(Date.now() + this.exportConfiguration.ttlHours * 60 * 60 * 1000),
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Data export ${id} failed: ${error.message}`, error.stack);
+      await this.dbService.dataExport.update({
+        where: { id },
+        data: { status: 'FAILED', error: 'The export could not be built, request a new one' },
+      }).catch(() => undefined);
+    }
+  }
+
+  // Each section becomes an array in data.json and a CSV file
+  private async collect(userId: string): Promise<Record<string, Record<string, unknown>[]>> {
+    const schoolSelect = { select: { id: true, name: true, username: true } };
+    const [
+      profile,
+      teacherRoles,
+      studentRoles,
+      staffRoles,
+      classMemberships,
+      submissions,
+      sentMessages,
+      receivedMessages,
+      forumPosts,
+      events,
+      uploadedFiles,
+    ] = await Promise.all([
+      // Credentials and two-factor secrets are left out on purpose
+      this.dbService.user.findUnique({
+        where: { id: userId },
+        select: {
+          id: true, email: true, username: true, role: true, fullName: true, image: true,
+          phoneNumber: true, country: true, timezone: true, gender: true, dateOfBirth: true,
+          bio: true, address: true, isEmailVerified: true, isActive: true, lastLogin: true,
+          twoFactorEnabled: true, createdAt: true, updatedAt: true,
+        },
+      }),
+      this.dbService.teacher.findMany({ where: { userId }, include: { school: schoolSelect } }),
+      this.dbService.student.findMany({ where: { userId }, include: { school: schoolSelect } }),
+      this.dbService.schoolStaff.findMany({ where: { userId }, include: { school: schoolSelect } }),
+      this.dbService.classMember.findMany({
+        where: { userId },
+        include: { class: { select: { id: true, name: true, username: true, schoolId: true } } },
+      }),
+      this.dbService.submission.findMany({
+        where: { studentId: userId },
+        include: {
+          assessment: { select: { id: true, title: true } },
+          answers: true,
+        },
+      }),
+      this.dbService.directMessage.findMany({ where: { senderId: userId }, orderBy: { createdAt: 'asc' } }),
+      this.dbService.directMessage.findMany({ where: { receiverId: userId }, orderBy: { createdAt: 'asc' } }),
+      this.dbService.discussionPost.findMany({ where: { authorId: userId }, orderBy: { createdAt: 'asc' } }),
+      this.dbService.event.findMany({ where: { creatorId: userId }, orderBy: { startTime: 'asc' } }),
+      this.dbService.assetAttachment.findMany({ where: { uploaderId: userId } }),
+    ]);
+
+    return {
+      profile: profile ? [profile] : [],
+      teacher_roles: teacherRoles,
+      student_roles: studentRoles,
+      staff_roles: staffRoles,
+      class_memberships: classMemberships,
+      submissions: submissions.map(({ answers, ...submission }) => submission),
+      submission_answers: submissions.flatMap(submission => submission.answers),
+      direct_messages: [
+        ...sentMessages.map(message => ({ direction: 'sent', ...message })),
+        ...receivedMessages.map(message => ({ direction: 'received', ...message })),
+      ],
+      forum_posts: forumPosts,
+      events,
+      uploaded_files: uploadedFiles,
+    };
+  }
+
+  private async findForUser(userId: string, id: string): Promise<DataExport> {
+    const dataExport = isObjectId(id)
+      ? await this.dbService.dataExport.findFirst({ where: { id, userId } })
+      : null;
+    if (!dataExport) {
+      throw new NotFoundException('Export not found');
+    }
+    return dataExport;
+  }
+
+  // Only the latest archive of a user is kept
+  private async removeArchives(userId: string): Promise<void> {
+    const previous = await this.dbService.dataExport.findMany({
+      where: { userId, filePath: { not: null } },
+      select: { id: true, filePath: true },
+    });
+    for (const dataExport of previous) {
+      await rm(dataExport.filePath!, { force: true });
+      await this.dbService.dataExport.update({ where: { id: dataExport.id }, data: { filePath: null } });
+    }
+  }
+
+  private isActive(dataExport: DataExport): boolean {
+    return dataExport.status === 'PENDING' || dataExport.status === 'PROCESSING';
+  }
+
+  private toSummary(dataExport: DataExport): DataExportSummary {
+    const ready = dataExport.status === 'COMPLETED' && !!dataExport.filePath;
+    return {
+      id: dataExport.id,
+      status: dataExport.status,
+      createdAt: dataExport.createdAt,
+      completedAt: dataExport.completedAt,
+      expiresAt: dataExport.expiresAt,
+      fileSizeBytes: dataExport.fileSizeBytes,
+      error: dataExport.error,
+      downloadUrl: ready ? `/user/me/export/${dataExport.id}/download` : null,
+    };
+  }
+}
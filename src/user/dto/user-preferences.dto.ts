@@ -0,0 +1,37 @@
+import * as z from "zod"
+import { DATE_FORMATS, isValidTimezone } from "../../common/utils/date-format.util"
+
+export const LanguageEnum = z.enum(["en", "fr", "rw"])
+
+// Events a user can be notified about, each with its own channel opt-ins
+export const NotificationEventEnum = z.enum([
+    "assessment_due",
+    "grade_posted",
+    "announcement",
+    "direct_message",
+    "event_reminder",
+    "school_join_request",
+])
+
+export type NotificationEvent = z.infer<typeof NotificationEventEnum>
+
+export const NotificationChannelsSchema = z.object({
+    email: z.boolean(),
+    sms: z.boolean(),
+    inApp: z.boolean(),
+})
+
+export type NotificationChannels = z.infer<typeof NotificationChannelsSchema>
+
+export const UpdateUserPreferencesSchema = z.object({
+    language: LanguageEnum.optional(),
+    timezone: z.string().refine(isValidTimezone, {
+        message: "Unknown timezone, use an IANA name such as Africa/Kigali"
+    }).nullable().optional(),
+    dateFormat: z.enum(DATE_FORMATS).optional(),
+    digestFrequency: z.enum(["NONE", "DAILY", "WEEKLY"]).optional(),
+    // Only the events and channels sent are changed
+    notifications: z.record(NotificationEventEnum, NotificationChannelsSchema.partial()).optional(),
+}).strict()
+
+export type UpdateUserPreferencesDto = z.infer<typeof UpdateUserPreferencesSchema>
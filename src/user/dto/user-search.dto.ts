@@ -0,0 +1,31 @@
+import * as z from "zod"
+import { UserRole } from "generated/prisma"
+import { GenderEnum } from "./user.dto"
+
+const BooleanQuerySchema = z.enum(["true", "false"]).transform(value => value === "true")
+
+export const UserSortFieldEnum = z.enum(["fullName", "username", "email", "createdAt", "lastLogin"])
+
+export const UserSearchSchema = z.object({
+    // Matched case-insensitively against full name, username and email
+    q: z.string().trim().max(100).optional(),
+    role: z.nativeEnum(UserRole).optional(),
+    country: z.string().trim().min(1).optional(),
+    gender: GenderEnum.optional(),
+    isActive: BooleanQuerySchema.optional(),
+    isEmailVerified: BooleanQuerySchema.optional(),
+    // Only users holding an active role in this school
+    schoolId: z.string().regex(/^[0-9a-fA-F]{24}$/, {
+        message: "Invalid school ID format"
+    }).optional(),
+    // Narrows the school filter to one kind of membership
+    membership: z.enum(["TEACHER", "STUDENT", "STAFF"]).optional(),
+    sortBy: UserSortFieldEnum.default("createdAt"),
+    sortOrder: z.enum(["asc", "desc"]).default("desc"),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+}).refine(data => !data.membership || data.schoolId, {
+    message: "membership can only be used together with schoolId",
+})
+
+export type UserSearchDto = z.infer<typeof UserSearchSchema>
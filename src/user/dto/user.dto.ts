@@ -49,7 +49,11 @@ export const AuthUserSchema = z.object({
     image: z.string().optional(),
     phone: z.string().optional(),
     accessToken: z.string().optional(),
+    refreshToken: z.string().optional(),
     schoolAccessToken: z.string().optional(),
+    sessionId: z.string().optional(),
+    impersonatedBy: z.string().optional(), // Id of the admin acting as this user
+    mustChangePassword: z.boolean().optional(), // The account still uses a temporary password
 })
 
 export type AuthUserDto = z.infer<typeof AuthUserSchema>;
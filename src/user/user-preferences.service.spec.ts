@@ -0,0 +1,126 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { UserPreferencesService } from './user-preferences.service';
+import { DbService } from '../db/db.service';
+import { UpdateUserPreferencesSchema } from './dto/user-preferences.dto';
+
+const USER_ID = 'aaaaaaaaaaaaaaaaaaaaaaaa';
+
+describe('UserPreferencesService', () => {
+  let service: UserPreferencesService;
+  let db: { user: { findUnique: jest.Mock; update: jest.Mock } };
+
+  beforeEach(async () => {
+    db = {
+      user: {
+        findUnique: jest.fn(),
+        // Echoes the written preferences back, as the real update does
+        update: jest.fn().mockImplementation(({ data }) => Promise.resolve({
+          timezone: data.timezone ?? null,
+          preferences: data.preferences.set,
+        })),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserPreferencesService,
+        { provide: DbService, useValue: db },
+      ],
+    }).compile();
+
+    service = module.get<UserPreferencesService>(UserPreferencesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('returns the defaults for a user who never changed them', async () => {
+    db.user.findUnique.mockResolvedValue({ timezone: null, preferences: null, deletedAt: null });
+
+    const preferences = await service.get(USER_ID);
+
+    expect(preferences).toMatchObject({ language: 'en', timezone: null, dateFormat: 'DD/MM/YYYY', digestFrequency: 'NONE' });
+    expect(preferences.notifications.grade_posted).toEqual({ email: true, sms: false, inApp: true });
+  });
+
+  it('merges an update with the stored preferences', async () => {
+    db.user.findUnique.mockResolvedValue({
+      timezone: 'Africa/Kigali',
+      preferences: {
+        language: 'fr',
+        dateFormat: 'YYYY-MM-DD',
+        digestFrequency: 'WEEKLY',
+        notifications: [
+          { event: 'grade_posted', email: false, sms: false, inApp: true },
+          { event: 'announcement', email: true, sms: true, inApp: true },
+        ],
+      },
+      deletedAt: null,
+    });
+
+    const preferences = await service.update(USER_ID, {
+      dateFormat: 'DD/MM/YYYY',
+      notifications: { grade_posted: { sms: true }, announcement: { sms: false } },
+    });
+
+    expect(preferences).toMatchObject({ language: 'fr', dateFormat: 'DD/MM/YYYY', digestFrequency: 'WEEKLY' });
+    expect(preferences.notifications.grade_posted).toEqual({ email: false, sms: true, inApp: true });
+    // Only the events that differ from the defaults are stored
+    const { data } = db.user.update.mock.calls[0][0];
+    expect(data).not.toHaveProperty('timezone');
+    expect(data.preferences.set.notifications).toEqual([{ event: 'grade_posted', email: false, sms: true, inApp: true }]);
+  });
+
+  it('clears the timezone when it is set to null', async () => {
+    db.user.findUnique.mockResolvedValue({ timezone: 'Africa/Kigali', preferences: null, deletedAt: null });
+
+    await service.update(USER_ID, { timezone: null });
+
+    expect(db.user.update.mock.calls[0][0].data.timezone).toBeNull();
+  });
+
+  it('refuses to read the preferences of an anonymized user', async () => {
+    db.user.findUnique.mockResolvedValue({ timezone: null, preferences: null, deletedAt: new Date() });
+
+    await expect(service.get(USER_ID)).rejects.toThrow(NotFoundException);
+  });
+
+  it('tells whether a channel is enabled for an event', async () => {
+    db.user.findUnique.mockResolvedValue({
+      timezone: null,
+      preferences: { notifications: [{ event: 'direct_message', email: false, sms: true, inApp: true }] },
+      deletedAt: null,
+    });
+
+    await expect(service.isChannelEnabled(USER_ID, 'direct_message', 'sms')).resolves.toBe(true);
+    await expect(service.isChannelEnabled(USER_ID, 'announcement', 'sms')).resolves.toBe(false);
+  });
+
+  describe('UpdateUserPreferencesSchema', () => {
+    it('accepts known values', () => {
+      const result = UpdateUserPreferencesSchema.safeParse({
+        language: 'rw',
+        timezone: 'Africa/Kigali',
+        dateFormat: 'D MMMM YYYY',
+        digestFrequency: 'DAILY',
+        notifications: { event_reminder: { email: false } },
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it.each([
+      ['an unknown language', { language: 'de' }],
+      ['an unknown timezone', { timezone: 'Mars/Olympus' }],
+      ['an unknown date format', { dateFormat: 'YYYY/DD/MM' }],
+      ['an unknown digest frequency', { digestFrequency: 'HOURLY' }],
+      ['an unknown notification event', { notifications: { birthday: { email: true } } }],
+      ['a channel that is not a boolean', { notifications: { grade_posted: { sms: 'yes' } } }],
+      ['an unknown field', { theme: 'dark' }],
+    ])('rejects %s', (_, body) => {
+      expect(UpdateUserPreferencesSchema.safeParse(body).success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { DigestFrequency, User } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+import { DateDisplayOptions } from '../common/utils/date-format.util';
+import { isObjectId } from '../common/utils/school-membership.util';
+import {
+  NotificationChannels,
+  NotificationEvent,
+  NotificationEventEnum,
+  UpdateUserPreferencesDto,
+} from './dto/user-preferences.dto';
+
+export interface UserPreferencesView {
+  language: string;
+  timezone: string | null;
+  dateFormat: string;
+  digestFrequency: DigestFrequency;
+  notifications: Record<NotificationEvent, NotificationChannels>;
+}
+
+const DEFAULT_LANGUAGE = 'en';
+const DEFAULT_DATE_FORMAT = 'DD/MM/YYYY';
+
+// SMS costs money, so it is opt-in for every event
+const DEFAULT_CHANNELS: NotificationChannels = { email: true, sms: false, inApp: true };
+
+/**
+ * Reads the date display settings of a user row, so that callers that already
+ * loaded the user can render dates without another query.
+ */
+export function dateDisplayOf(user: Pick<User, 'timezone' | 'preferences'>): DateDisplayOptions {
+  return {
+    timezone: user.timezone,
+    dateFormat: user.preferences?.dateFormat ?? DEFAULT_DATE_FORMAT,
+    language: user.preferences?.language ?? DEFAULT_LANGUAGE,
+  };
+}
+
+/**
+ * Language, timezone, date format and notification settings of a user. Only
+ * the notification events that differ from the defaults are stored, so new
+ * events pick up the defaults for existing users.
+ */
+@Injectable()
+export class UserPreferencesService {
+  constructor(private readonly dbService: DbService) { }
+
+  async get(userId: string): Promise<UserPreferencesView> {
+    return this.toView(await this.findUser(userId));
+  }
+
+  async update(userId: string, dto: UpdateUserPreferencesDto): Promise<UserPreferencesView> {
+    const user = await this.findUser(userId);
+    const current = this.toView(user);
+
+    const notifications = { ...current.notifications };
+    for (const [event, channels] of Object.entries(dto.notifications ?? {})) {
+      notifications[event as NotificationEvent] = { ...notifications[event as NotificationEvent], ...channels };
+    }
+
+    const updated = await this.dbService.user.update({
+      where: { id: userId },
+      data: {
+        ...(dto.timezone !== undefined && { timezone: dto.timezone }),
+        preferences: {
+          set: {
+            language: dto.language ?? current.language,
+            dateFormat: dto.dateFormat ?? current.dateFormat,
+            digestFrequency: dto.digestFrequency ?? current.digestFrequency,
+            notifications: Object.entries(notifications)
+              .filter(([, channels]) => !this.isDefault(channels))
+              .map(([event, channels]) => ({ event, ...channels })),
+          },
+        },
+      },
+      select: { timezone: true, preferences: true },
+    });
+    return this.toView(updated);
+  }
+
+  /**
+   * Tells whether a user wants to be notified about an event on a channel.
+   * Senders should check this before emailing, texting or pushing a notification.
+   */
+  async isChannelEnabled(userId: string, event: NotificationEvent, channel: keyof NotificationChannels): Promise<boolean> {
+    const preferences = await this.get(userId);
+    return preferences.notifications[event][channel];
+  }
+
+  private toView(user: Pick<User, 'timezone' | 'preferences'>): UserPreferencesView {
+    const stored = new Map((user.preferences?.notifications ?? []).map(entry => [entry.event, entry]));
+    const notifications = Object.fromEntries(
+      NotificationEventEnum.options.map(event => {
+        const entry = stored.get(event);
+        return [event, entry ? { email: entry.email, sms: entry.sms, inApp: entry.inApp } : { ...DEFAULT_CHANNELS }];
+      }),
+    ) as Record<NotificationEvent, NotificationChannels>;
+
+    const display = dateDisplayOf(user);
+    return {
+      language: display.language!,
+      timezone: user.timezone,
+      dateFormat: display.dateFormat!,
+      digestFrequency: user.preferences?.digestFrequency ?? 'NONE',
+      notifications,
+    };
+  }
+
+  private isDefault(channels: NotificationChannels): boolean {
+    return channels.email === DEFAULT_CHANNELS.email
+      && channels.sms === DEFAULT_CHANNELS.sms
+      && channels.inApp === DEFAULT_CHANNELS.inApp;
+  }
+
+  private async findUser(userId: string) {
+    const user = isObjectId(userId)
+      ? await this.dbService.user.findUnique({ where: { id: userId }, select: { timezone: true, preferences: true, deletedAt: true } })
+      : null;
+    if (!user || user.deletedAt) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+}
@@ -0,0 +1,127 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UserProfileSyncService } from './user-profile-sync.service';
+import { DbService } from '../db/db.service';
+
+describe('UserProfileSyncService', () => {
+  let service: UserProfileSyncService;
+  let db: {
+    user: { findUnique: jest.Mock };
+    teacher: { findMany: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+    student: { findMany: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+    schoolStaff: { findMany: jest.Mock; update: jest.Mock; updateMany: jest.Mock };
+  };
+
+  const user = {
+    id: 'user-1',
+    fullName: 'Jane Doe',
+    email: 'jane@example.com',
+    phoneNumber: '+250788000000',
+    image: null,
+    bio: null,
+    deletedAt: null,
+  };
+  const studentRow = (fields: Record<string, unknown>) => ({
+    id: 'student-1',
+    userId: 'user-1',
+    studentFullName: 'Jane Doe',
+    studentEmail: 'jane@example.com',
+    studentImage: null,
+    user,
+    ...fields,
+  });
+
+  beforeEach(async () => {
+    const model = () => ({ findMany: jest.fn().mockResolvedValue([]), update: jest.fn(), updateMany: jest.fn() });
+    db = {
+      user: { findUnique: jest.fn() },
+      teacher: model(),
+      student: model(),
+      schoolStaff: model(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserProfileSyncService,
+        { provide: DbService, useValue: db },
+      ],
+    }).compile();
+
+    service = module.get<UserProfileSyncService>(UserProfileSyncService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('copies the profile of the user on each role row', async () => {
+    db.user.findUnique.mockResolvedValue(user);
+
+    await service.syncUser('user-1');
+
+    expect(db.student.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1' },
+      data: { studentFullName: 'Jane Doe', studentEmail: 'jane@example.com', studentImage: null },
+    });
+    expect(db.teacher.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1' },
+      data: expect.objectContaining({ teacherPhone: '+250788000000' }),
+    });
+    expect(db.schoolStaff.updateMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears the copies of an anonymized user', async () => {
+    db.user.findUnique.mockResolvedValue({ ...user, deletedAt: new Date() });
+
+    await service.syncUser('user-1');
+
+    expect(db.student.updateMany).toHaveBeenCalledWith({
+      where: { userId: 'user-1' },
+      data: { studentFullName: null, studentEmail: null, studentImage: null },
+    });
+  });
+
+  it('writes nothing for a user that does not exist', async () => {
+    db.user.findUnique.mockResolvedValue(null);
+
+    await service.syncUser('user-1');
+
+    expect(db.teacher.updateMany).not.toHaveBeenCalled();
+    expect(db.student.updateMany).not.toHaveBeenCalled();
+    expect(db.schoolStaff.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('reports drifted copies without writing them on a dry run', async () => {
+    db.student.findMany.mockResolvedValue([studentRow({ studentEmail: 'old@example.com' })]);
+
+    const report = await service.repair(true);
+
+    expect(report).toEqual({
+      dryRun: true,
+      checked: { teacher: 0, student: 1, schoolStaff: 0 },
+      drifted: [{ table: 'student', id: 'student-1', userId: 'user-1', fields: ['studentEmail'] }],
+      fixed: 0,
+    });
+    expect(db.student.update).not.toHaveBeenCalled();
+  });
+
+  it('rewrites drifted copies outside of a dry run', async () => {
+    db.student.findMany.mockResolvedValue([studentRow({ studentEmail: 'old@example.com' })]);
+
+    const report = await service.repair();
+
+    expect(report.fixed).toBe(1);
+    expect(db.student.update).toHaveBeenCalledWith({
+      where: { id: 'student-1' },
+      data: { studentFullName: 'Jane Doe', studentEmail: 'jane@example.com', studentImage: null },
+    });
+  });
+
+  it('leaves copies that are in line with their user alone', async () => {
+    db.student.findMany.mockResolvedValue([studentRow({})]);
+
+    const report = await service.repair();
+
+    expect(report.drifted).toEqual([]);
+    expect(db.student.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { User } from 'generated/prisma';
+import { DbService } from '../db/db.service';
+
+const BATCH_SIZE = 500;
+
+type ProfileSource = Pick<User, 'id' | 'fullName' | 'email' | 'phoneNumber' | 'image' | 'bio' | 'deletedAt'>;
+
+type ProfileCopy = Record<string, string | null>;
+
+export type ProfileCopyTable = 'teacher' | 'student' | 'schoolStaff';
+
+export interface ProfileCopyDrift {
+  table: ProfileCopyTable;
+  id: string;
+  userId: string;
+  fields: string[];
+}
+
+export interface ProfileCopyRepairReport {
+  dryRun: boolean;
+  checked: Record<ProfileCopyTable, number>;
+  drifted: ProfileCopyDrift[];
+  fixed: number;
+}
+
+const profileSelect = {
+  id: true,
+  fullName: true,
+  email: true,
+  phoneNumber: true,
+  image: true,
+  bio: true,
+  deletedAt: true,
+} as const;
+
+// What each role table copies from its user. Anonymized users leave no copies behind.
+function teacherCopy(user: ProfileSource): ProfileCopy {
+  const deleted = !!user.deletedAt;
+  return {
+    teacherFullName: deleted ? null : user.fullName,
+    teacherEmail: deleted ? null : user.email,
+    teacherPhone: deleted ? null : user.phoneNumber,
+    teacherImage: deleted ? null : user.image,
+    teacherBio: deleted ? null : user.bio,
+  };
+}
+
+function studentCopy(user: ProfileSource): ProfileCopy {
+  const deleted = !!user.deletedAt;
+  return {
+    studentFullName: deleted ? null : user.fullName,
+    studentEmail: deleted ? null : user.email,
+    studentImage: deleted ? null : user.image,
+  };
+}
+
+function staffCopy(user: ProfileSource): ProfileCopy {
+  const deleted = !!user.deletedAt;
+  return {
+    staffFullName: deleted ? null : user.fullName,
+    staffEmail: deleted ? null : user.email,
+    staffPhone: deleted ? null : user.phoneNumber,
+    staffImage: deleted ? null : user.image,
+  };
+}
+
+/**
+ * Keeps the profile fields copied on `Teacher`, `Student` and `SchoolStaff`
+ * rows in line with their `User`, so that rosters can be listed without
+ * joining users.
+ */
+@Injectable()
+export class UserProfileSyncService {
+  private readonly logger = new Logger(UserProfileSyncService.name);
+
+  constructor(private readonly dbService: DbService) { }
+
+  /**
+   * Rewrites every copy of the user's profile, to call after the user changed.
+   */
+  async syncUser(userId: string): Promise<void> {
+    const user = await this.dbService.user.findUnique({ where: { id: userId }, select: profileSelect });
+    if (!user) return;
+
+    await Promise.all([
+      this.dbService.teacher.updateMany({ where: { userId }, data: teacherCopy(user) }),
+      this.dbService.student.updateMany({ where: { userId }, data: studentCopy(user) }),
+      this.dbService.schoolStaff.updateMany({ where: { userId }, data: staffCopy(user) }),
+    ]);
+  }
+
+  /**
+   * Compares every role row with its user and, unless `dryRun` is set,
+   * rewrites the copies that drifted.
+   */
+  async repair(dryRun = false): Promise<ProfileCopyRepairReport> {
+    const report: ProfileCopyRepairReport = {
+      dryRun,
+      checked: { teacher: 0, student: 0, schoolStaff: 0 },
+      drifted: [],
+      fixed: 0,
+    };
+
+    await this.repairTable(report, 'teacher', teacherCopy,
+      cursor => this.dbService.teacher.findMany({
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        orderBy: { id: 'asc' },
+        include: { user: { select: profileSelect } },
+      }),
+      (id, data) => this.dbService.teacher.update({ where: { id }, data }));
+
+    await this.repairTable(report, 'student', studentCopy,
+      cursor => this.dbService.student.findMany({
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        orderBy: { id: 'asc' },
+        include: { user: { select: profileSelect } },
+      }),
+      (id, data) => this.dbService.student.update({ where: { id }, data }));
+
+    await this.repairTable(report, 'schoolStaff', staffCopy,
+      cursor => this.dbService.schoolStaff.findMany({
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        orderBy: { id: 'asc' },
+        include: { user: { select: profileSelect } },
+      }),
+      (id, data) => this.dbService.schoolStaff.update({ where: { id }, data }));
+
+    this.logger.log(
+      `Profile copies ${dryRun ? 'checked' : 'repaired'}: ${report.drifted.length} drifted, ${report.fixed} fixed`,
+    );
+    return report;
+  }
+
+  private async repairTable<Row extends { id: string; userId: string; user: ProfileSource }>(
+    report: ProfileCopyRepairReport,
+    table: ProfileCopyTable,
+    expectedCopy: (user: ProfileSource) => ProfileCopy,
+    findBatch: (cursor?: string) => Promise<Row[]>,
+    update: (id: string, data: ProfileCopy) => Promise<unknown>,
+  ): Promise<void> {
+    let cursor: string | undefined;
+    do {
+      const rows = await findBatch(cursor);
+      for (const row of rows) {
+        const expected = expectedCopy(row.user);
+        const fields = Object.keys(expected).filter(field => ((row as Record<string, unknown>)[field] ?? null) !== expected[field]);
+        if (fields.length === 0) continue;
+
+        report.drifted.push({ table, id: row.id, userId: row.userId, fields });
+        if (!report.dryRun) {
+          await update(row.id, expected);
+          report.fixed++;
+        }
+      }
+      report.checked[table] += rows.length;
+      cursor = rows.length === BATCH_SIZE ? rows[rows.length - 1].id : undefined;
+    } while (cursor);
+  }
+}
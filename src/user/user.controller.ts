@@ -1,33 +1,127 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UseInterceptors, Request, UsePipes, UseGuards, Headers } from '@nestjs/common';
+import { Controller, Get, Post, Body, Patch, Param, Delete, Query, UseInterceptors, Request, UsePipes, UseGuards, Headers, StreamableFile } from '@nestjs/common';
 import { UserService } from './user.service';
-import { AuthUserDto, CreateUserDto, CreateUserSchema, UpdateUserDto, UpdateUserSchema, UserRoleDto } from './dto/user.dto';
+import { AuthUserDto, CreateUserDto, CreateUserSchema, UpdateUserDto, UpdateUserSchema } from './dto/user.dto';
+import { UserSearchDto, UserSearchSchema } from './dto/user-search.dto';
 import { ZodValidationPipe } from 'src/common/pipes/zod-validation.pipe';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { PassportJswAuthGuard } from 'src/common/guards/passport-jwt.guard';
+import { RolesGuard } from 'src/common/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { SchoolRoles } from 'src/auth/decorators/school-roles.decorator';
+import { BlockImpersonation } from 'src/auth/decorators/block-impersonation.decorator';
+import { AllowTemporaryPassword } from 'src/auth/decorators/allow-temporary-password.decorator';
+import { DataExportService } from './data-export.service';
+import { AccountDeletionService } from './account-deletion.service';
+import { UserProfileSyncService } from './user-profile-sync.service';
+import { UserPreferencesService } from './user-preferences.service';
+import { UpdateUserPreferencesDto, UpdateUserPreferencesSchema } from './dto/user-preferences.dto';
 
 @Controller('user')
 export class UserController {
-  constructor(private readonly userService: UserService) { }
+  constructor(
+    private readonly userService: UserService,
+    private readonly dataExportService: DataExportService,
+    private readonly accountDeletionService: AccountDeletionService,
+    private readonly userProfileSyncService: UserProfileSyncService,
+    private readonly userPreferencesService: UserPreferencesService,
+  ) { }
 
   @Post()
+  @UseGuards(PassportJswAuthGuard, RolesGuard)
+  @Roles('ADMIN')
   create(@Body(new ZodValidationPipe(CreateUserSchema)) createUserDto: CreateUserDto) {
     return this.userService.create(createUserDto);
   }
 
+  // Admins can search every user, others only the members of a school they belong to
   @Get()
-  findAll(@Query('role') role?: UserRoleDto) {
-    return this.userService.findAll(role);
+  @UseGuards(PassportJswAuthGuard, RolesGuard)
+  @SchoolRoles({ members: ['OWNER', 'STAFF', 'TEACHER', 'STUDENT'], param: 'schoolId' })
+  findAll(@Query(new ZodValidationPipe(UserSearchSchema)) query: UserSearchDto) {
+    return this.userService.findAll(query);
+  }
+
+  // Polled until the export is completed, a new one is started when none is in progress or ready
+  @Get('me/export')
+  @UseGuards(PassportJswAuthGuard)
+  @BlockImpersonation()
+  exportMyData(@Request() request: { user: AuthUserDto }) {
+    return this.dataExportService.requestExport(request.user.id);
+  }
+
+  @Get('me/export/:exportId')
+  @UseGuards(PassportJswAuthGuard)
+  @BlockImpersonation()
+  findMyExport(@Request() request: { user: AuthUserDto }, @Param('exportId') exportId: string) {
+    return this.dataExportService.findOne(request.user.id, exportId);
+  }
+
+  @Get('me/export/:exportId/download')
+  @UseGuards(PassportJswAuthGuard)
+  @BlockImpersonation()
+  async downloadMyExport(@Request() request: { user: AuthUserDto }, @Param('exportId') exportId: string) {
+    const { fileName, stream } = await this.dataExportService.getDownload(request.user.id, exportId);
+    return new StreamableFile(stream, {
+      type: 'application/zip',
+      disposition: `attachment; filename="${fileName}"`,
+    });
+  }
+
+  // Also available as `npm run users:repair-profile-copies`
+  @Post('profile-copies/repair')
+  @UseGuards(PassportJswAuthGuard, RolesGuard)
+  @Roles('ADMIN')
+  repairProfileCopies(@Query('dryRun') dryRun?: string) {
+    return this.userProfileSyncService.repair(dryRun === 'true');
+  }
+
+  @Get('me/preferences')
+  @UseGuards(PassportJswAuthGuard)
+  getMyPreferences(@Request() request: { user: AuthUserDto }) {
+    return this.userPreferencesService.get(request.user.id);
+  }
+
+  @Patch('me/preferences')
+  @UseGuards(PassportJswAuthGuard)
+  @BlockImpersonation()
+  updateMyPreferences(
+    @Request() request: { user: AuthUserDto },
+    @Body(new ZodValidationPipe(UpdateUserPreferencesSchema)) dto: UpdateUserPreferencesDto,
+  ) {
+    return this.userPreferencesService.update(request.user.id, dto);
+  }
+
+  @Get('me/deletion')
+  @UseGuards(PassportJswAuthGuard)
+  getMyDeletion(@Request() request: { user: AuthUserDto }) {
+    return this.accountDeletionService.getStatus(request.user.id);
+  }
+
+  // The account is anonymized once the grace period is over
+  @Delete('me')
+  @UseGuards(PassportJswAuthGuard)
+  @BlockImpersonation()
+  deleteMe(@Request() request: { user: AuthUserDto }) {
+    return this.accountDeletionService.scheduleDeletion(request.user.id);
+  }
+
+  @Post('me/deletion/cancel')
+  @UseGuards(PassportJswAuthGuard)
+  @BlockImpersonation()
+  cancelMyDeletion(@Request() request: { user: AuthUserDto }) {
+    return this.accountDeletionService.cancelDeletion(request.user.id);
   }
 
   @Get(':id')
-  async findOne(@Param('id') id: string) {
-    const user = await this.userService.findOne(id);
-    const { password: _, ...safeUser } = user;
-    return safeUser;
+  @UseGuards(PassportJswAuthGuard)
+  findOne(@Request() request: { user: AuthUserDto }, @Param('id') id: string) {
+    return this.userService.findOne(id, undefined, undefined, request.user);
   }
 
+  // Also where users replace a temporary password
   @Patch(':id')
   @UseGuards(PassportJswAuthGuard)
+  @AllowTemporaryPassword()
   @UseInterceptors(FileInterceptor('image'))
   async update(
     @Request() request: { user: AuthUserDto },
@@ -41,6 +135,8 @@ export class UserController {
   }
 
   @Delete(':id')
+  @UseGuards(PassportJswAuthGuard, RolesGuard)
+  @Roles('ADMIN')
   remove(@Param('id') id: string) {
     return this.userService.remove(id);
   }
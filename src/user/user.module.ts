@@ -5,15 +5,26 @@ import { DbModule } from 'src/db/db.module';
 import { UploadModule } from 'src/upload/upload.module';
 import { JwtStrategy } from 'src/auth/jwt.strategy';
 import { AuthModule } from 'src/auth/auth.module';
+import { ConfigModule } from '@nestjs/config';
+import { DataExportService } from './data-export.service';
+import dataExportConfig from './config/data-export.config';
+import { AccountDeletionService } from './account-deletion.service';
+import accountDeletionConfig from './config/account-deletion.config';
+import { MailModule } from 'src/mail/mail.module';
+import { UserProfileSyncService } from './user-profile-sync.service';
+import { UserPreferencesService } from './user-preferences.service';
 
 @Module({
   imports: [
     DbModule,
     UploadModule,
-    forwardRef(() => AuthModule) // ✅ circular fix
+    forwardRef(() => AuthModule), // ✅ circular fix
+    MailModule,
+    ConfigModule.forFeature(dataExportConfig),
+    ConfigModule.forFeature(accountDeletionConfig)
   ],
   controllers: [UserController],
-  providers: [UserService, JwtStrategy],
-  exports: [UserService]
+  providers: [UserService, DataExportService, AccountDeletionService, UserProfileSyncService, UserPreferencesService, JwtStrategy],
+  exports: [UserService, UserPreferencesService]
 })
 export class UserModule { }
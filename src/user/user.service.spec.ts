@@ -1,12 +1,57 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { UserService } from './user.service';
+import { DbService } from '../db/db.service';
+import { UploadService } from '../upload/upload.service';
+import { AuthService } from '../auth/auth.service';
+import { PasswordPolicyService } from '../auth/password-policy.service';
+import { EmailVerificationService } from '../auth/email-verification.service';
+import { AccountDeletionService } from './account-deletion.service';
+import { UserProfileSyncService } from './user-profile-sync.service';
+
+// Fields that must never leave the service through a profile lookup or update
+const SECRET_FIELDS = [
+  'password',
+  'passwordHistory',
+  'googleId',
+  'twoFactorSecret',
+  'twoFactorPendingSecret',
+  'twoFactorRecoveryCodes',
+  'failedLoginCount',
+  'lockedUntil',
+  'sessionsRevokedAt',
+];
 
 describe('UserService', () => {
   let service: UserService;
+  let emailVerificationService: { sendVerificationEmail: jest.Mock };
+  let db: {
+    user: { findUnique: jest.Mock; findUniqueOrThrow: jest.Mock; update: jest.Mock; findMany: jest.Mock; count: jest.Mock };
+  };
 
   beforeEach(async () => {
+    db = {
+      user: {
+        findUnique: jest.fn(),
+        findUniqueOrThrow: jest.fn().mockResolvedValue({ id: 'user-1' }),
+        update: jest.fn().mockResolvedValue({ id: 'user-1' }),
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(0),
+      },
+    };
+
+    emailVerificationService = { sendVerificationEmail: jest.fn().mockResolvedValue(true) };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [UserService],
+      providers: [
+        UserService,
+        { provide: DbService, useValue: db },
+        { provide: UploadService, useValue: {} },
+        { provide: AuthService, useValue: {} },
+        { provide: PasswordPolicyService, useValue: {} },
+        { provide: AccountDeletionService, useValue: {} },
+        { provide: UserProfileSyncService, useValue: { syncUser: jest.fn() } },
+        { provide: EmailVerificationService, useValue: emailVerificationService },
+      ],
     }).compile();
 
     service = module.get<UserService>(UserService);
@@ -15,4 +60,75 @@ describe('UserService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('does not select secrets when looking a user up', async () => {
+    db.user.findUnique.mockResolvedValue({ id: 'user-1' });
+
+    await service.findOne('user-1');
+
+    const { select } = db.user.findUnique.mock.calls[0][0];
+    for (const field of SECRET_FIELDS) {
+      expect(select).not.toHaveProperty(field);
+    }
+  });
+
+  it('returns contact details only to the user themselves and to admins', async () => {
+    const requester = { id: 'user-2', email: 'other@example.com', name: 'Other', username: 'other', role: 'TEACHER' as const };
+    const contactSelected = (call: number) => db.user.findUnique.mock.calls[call][0].select.phoneNumber === true;
+
+    db.user.findUnique.mockResolvedValueOnce({ role: 'TEACHER' }).mockResolvedValueOnce({ id: 'user-1' });
+    await service.findOne('user-1', undefined, undefined, requester);
+    expect(contactSelected(1)).toBe(false);
+
+    db.user.findUnique.mockResolvedValue({ id: 'user-1' });
+    await service.findOne('user-1', undefined, undefined, { ...requester, id: 'user-1' });
+    expect(contactSelected(2)).toBe(true);
+
+    db.user.findUnique.mockResolvedValueOnce({ role: 'ADMIN' }).mockResolvedValueOnce({ id: 'user-1' });
+    await service.findOne('user-1', undefined, undefined, requester);
+    expect(contactSelected(4)).toBe(true);
+  });
+
+  it('leaves contact details out of directory searches', async () => {
+    await service.findAll({ sortBy: 'createdAt', sortOrder: 'desc', page: 1, limit: 20 });
+
+    const { select } = db.user.findMany.mock.calls[0][0];
+    for (const field of [...SECRET_FIELDS, 'phoneNumber', 'dateOfBirth', 'address']) {
+      expect(select).not.toHaveProperty(field);
+    }
+  });
+
+  it('returns the updated profile without secrets', async () => {
+    db.user.findUnique.mockResolvedValue({ id: 'user-1', email: 'a@example.com', image: null });
+    db.user.findUniqueOrThrow.mockResolvedValue({ id: 'user-1', bio: 'Updated' });
+
+    const result = await service.update('user-1', { bio: 'Updated' }, { id: 'user-1', role: 'STUDENT' } as never);
+
+    expect(result).toEqual({ id: 'user-1', bio: 'Updated' });
+    const { select } = db.user.findUniqueOrThrow.mock.calls[0][0];
+    for (const field of SECRET_FIELDS) {
+      expect(select).not.toHaveProperty(field);
+    }
+  });
+
+  it('asks to verify a new email address', async () => {
+    db.user.findUnique.mockImplementation(({ where }) =>
+      Promise.resolve(where.id ? { id: 'user-1', email: 'old@example.com', image: null } : null));
+    db.user.update.mockResolvedValue({ id: 'user-1', email: 'new@example.com', fullName: 'Ada' });
+
+    await service.update('user-1', { email: 'new@example.com' }, { id: 'user-1', role: 'STUDENT' } as never);
+
+    expect(db.user.update.mock.calls[0][0].data).toMatchObject({ email: 'new@example.com', isEmailVerified: false });
+    expect(emailVerificationService.sendVerificationEmail).toHaveBeenCalledWith(expect.objectContaining({ email: 'new@example.com' }));
+  });
+
+  it('keeps the verification when the email is unchanged', async () => {
+    db.user.findUnique.mockImplementation(({ where }) =>
+      Promise.resolve(where.id || where.email ? { id: 'user-1', email: 'same@example.com', image: null } : null));
+
+    await service.update('user-1', { email: 'same@example.com' }, { id: 'user-1', role: 'STUDENT' } as never);
+
+    expect(db.user.update.mock.calls[0][0].data.isEmailVerified).toBeUndefined();
+    expect(emailVerificationService.sendVerificationEmail).not.toHaveBeenCalled();
+  });
 });
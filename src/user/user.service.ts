@@ -1,18 +1,60 @@
 import { AuthService } from './../auth/auth.service';
-import { Injectable, NotFoundException, BadRequestException, InternalServerErrorException } from '@nestjs/common';
-import { AuthUserDto, CreateUserDto, CreateUserSchema, RegisterUserDto, UpdateUserDto, UpdateUserSchema, UserRoleDto } from './dto/user.dto';
+import { Injectable, NotFoundException, BadRequestException, InternalServerErrorException, ForbiddenException } from '@nestjs/common';
+import { AuthUserDto, CreateUserDto, CreateUserSchema, RegisterUserDto, UpdateUserDto, UpdateUserSchema } from './dto/user.dto';
+import { UserSearchDto } from './dto/user-search.dto';
 import { DbService } from 'src/db/db.service';
 import { hashPassword } from 'src/common/utils/hash.util';
 import { generateUsername } from 'src/common/utils/characters.util';
 import { UploadService } from 'src/upload/upload.service';
 import { HttpException } from '@nestjs/common';
 import { Prisma } from 'generated/prisma';
+import { PasswordPolicyService } from 'src/auth/password-policy.service';
+import { EmailVerificationService } from 'src/auth/email-verification.service';
+import { extractCloudinaryPublicId } from 'src/common/utils/cloudinary.util';
+import { AccountDeletionService } from './account-deletion.service';
+import { UserProfileSyncService } from './user-profile-sync.service';
+// Profile fields safe to list in the directory, without credentials, security settings or contact details
+const directoryUserSelect = {
+  id: true,
+  email: true,
+  username: true,
+  role: true,
+  fullName: true,
+  image: true,
+  country: true,
+  timezone: true,
+  gender: true,
+  bio: true,
+  isEmailVerified: true,
+  isActive: true,
+  lastLogin: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+// The directory fields along with the personal details of a profile
+const publicUserSelect = {
+  ...directoryUserSelect,
+  phoneNumber: true,
+  dateOfBirth: true,
+  address: true,
+} satisfies Prisma.UserSelect;
+
+export interface PaginatedUsers {
+  data: Prisma.UserGetPayload<{ select: typeof directoryUserSelect }>[];
+  meta: { page: number; limit: number; total: number; totalPages: number };
+}
+
 @Injectable()
 export class UserService {
   constructor(
     private readonly dbService: DbService,
     private readonly uploadService: UploadService,
-    private readonly authService: AuthService
+    private readonly authService: AuthService,
+    private readonly passwordPolicyService: PasswordPolicyService,
+    private readonly accountDeletionService: AccountDeletionService,
+    private readonly userProfileSyncService: UserProfileSyncService,
+    private readonly emailVerificationService: EmailVerificationService,
   ) { }
 
   async create(createUserDto: CreateUserDto) {
@@ -69,24 +111,70 @@ export class UserService {
     }
   }
 
-  async findAll(role?: UserRoleDto) {
-    try {
-      const users = role
-        ? await this.dbService.user.findMany({ where: { role } })
-        : await this.dbService.user.findMany();
+  /**
+   * Searches the user directory, one page at a time.
+   * Anonymized accounts are left out, and credentials are never selected.
+   * Only platform admins can search without a school, the guard makes
+   * everyone else pick a school they belong to.
+   */
+  async findAll(query: UserSearchDto): Promise<PaginatedUsers> {
+    const { q, role, country, gender, isActive, isEmailVerified, schoolId, membership, sortBy, sortOrder, page, limit } = query;
+
+    const filters: Prisma.UserWhereInput[] = [{ deletedAt: null }];
+    if (q) {
+      filters.push({
+        OR: [
+          { fullName: { contains: q, mode: 'insensitive' } },
+          { username: { contains: q, mode: 'insensitive' } },
+          { email: { contains: q, mode: 'insensitive' } },
+        ],
+      });
+    }
+    if (role) filters.push({ role });
+    if (country) filters.push({ country: { equals: country, mode: 'insensitive' } });
+    if (gender) filters.push({ gender });
+    if (isActive !== undefined) filters.push({ isActive });
+    if (isEmailVerified !== undefined) filters.push({ isEmailVerified });
+    if (schoolId) {
+      const inSchool = { some: { schoolId, isActive: true } };
+      const memberships: Prisma.UserWhereInput[] = [];
+      if (!membership || membership === 'TEACHER') memberships.push({ teacherEntries: inSchool });
+      if (!membership || membership === 'STUDENT') memberships.push({ studentEntries: inSchool });
+      if (!membership || membership === 'STAFF') memberships.push({ schoolStaffEntries: inSchool });
+      filters.push({ OR: memberships });
+    }
 
-      const safeUsers = users.map(({ password, ...rest }) => rest);
-      return safeUsers;
+    const where: Prisma.UserWhereInput = { AND: filters };
+    try {
+      const [data, total] = await Promise.all([
+        this.dbService.user.findMany({
+          where,
+          select: directoryUserSelect,
+          // The id keeps the order stable between pages when the sort field ties
+          orderBy: [{ [sortBy]: sortOrder }, { id: 'asc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        this.dbService.user.count({ where }),
+      ]);
 
+      return {
+        data,
+        meta: { page, limit, total, totalPages: Math.ceil(total / limit) },
+      };
     } catch (error) {
-      throw new NotFoundException({
+      throw new InternalServerErrorException({
         message: 'Something went wrong while retrieving users',
-        error,
+        error: error.message,
       });
     }
   }
 
-  async findOne(id?: string, email?: string, username?: string) {
+  /**
+   * Looks up a profile. When a requester is given, the contact details are
+   * only returned to the user themselves and to platform admins.
+   */
+  async findOne(id?: string, email?: string, username?: string, requester?: AuthUserDto) {
     if (!id && !email && !username) {
       throw new BadRequestException('You must provide id, email or username to find a user');
     }
@@ -94,8 +182,10 @@ export class UserService {
     const where = id ? { id } : email ? { email } : { username };
 
     try {
+      const showContactDetails = !requester || requester.id === id || await this.isPlatformAdmin(requester.id);
       const user = await this.dbService.user.findUnique({
-        where, include: {
+        where, select: {
+          ...(showContactDetails ? publicUserSelect : directoryUserSelect),
           schoolCreatorOf: {
             select: {
               name: true, id: true, logo: true, username: true
@@ -111,6 +201,7 @@ export class UserService {
 
       return user;
     } catch (error) {
+      if (error instanceof HttpException) throw error;
       if (error.code === 'P2025') {
         throw new NotFoundException('User not found');
       }
@@ -120,12 +211,15 @@ export class UserService {
 
   async update(id: string, updateUserDto: UpdateUserDto, request: AuthUserDto, role?: string) {
     if (request.id !== id && request.role !== "ADMIN") throw new BadRequestException("You are not allowed to update other account")
+    if (request.impersonatedBy && (updateUserDto.password || updateUserDto.email || role === "onboarding")) {
+      throw new ForbiddenException("Credentials cannot be changed while impersonating a user")
+    }
     const validation = UpdateUserSchema.safeParse(updateUserDto);
     if (!validation.success) {
       throw new BadRequestException('Invalid user update data');
     }
 
-    const { email, username, password, image, ...rest } = validation.data;
+    const { email, username, password, image, name, phone, ...rest } = validation.data;
 
     try {
       const user = await this.dbService.user.findUnique({ where: { id } });
@@ -144,14 +238,25 @@ export class UserService {
         throw new BadRequestException(`Username ${username} is already in use`);
       }
 
+      if (password) {
+        await this.passwordPolicyService.assertValid(password, {
+          email: email ?? user.email,
+          username: username ?? user.username,
+          fullName: name ?? user.fullName,
+          password: user.password,
+          passwordHistory: user.passwordHistory,
+        });
+      }
       const hashedPassword = password ? await hashPassword(password) : undefined;
+      // A new address has to be verified again
+      const emailChanged = !!email && email !== user.email;
 
       let imageUrl = user.image;
 
       if (image && typeof image === 'string' && image.startsWith('data:image')) {
         // Delete old image if it exists
         if (user.image) {
-          const oldImagePublicId = this.extractCloudinaryPublicId(user.image);
+          const oldImagePublicId = extractCloudinaryPublicId(user.image);
           if (oldImagePublicId) {
             await this.uploadService.deleteImage(oldImagePublicId);
           }
@@ -166,20 +271,31 @@ export class UserService {
         where: { id },
         data: {
           ...rest,
+          fullName: name,
+          phoneNumber: phone,
           email,
+          isEmailVerified: emailChanged ? false : undefined,
           username,
           password: hashedPassword,
+          passwordHistory: hashedPassword ? this.passwordPolicyService.nextHistory(user) : undefined,
+          mustChangePassword: hashedPassword ? false : undefined,
           image: imageUrl,
         },
       });
+      // Rosters keep their own copy of the profile
+      await this.userProfileSyncService.syncUser(id);
+      if (emailChanged) {
+        // The update stands even if the email cannot be sent, the user can ask for a new one
+        await this.emailVerificationService.sendVerificationEmail(update);
+      }
 
       if (role === "onboarding") {
         const update_session = await this.authService.signIn(update);
         return update_session
       }
-      const { password: _, ...safeUser } = user;
-      return safeUser
+      return await this.dbService.user.findUniqueOrThrow({ where: { id }, select: publicUserSelect });
     } catch (error) {
+      if (error instanceof HttpException) throw error;
       if (error.code === 'P2025') {
         throw new NotFoundException('User not found');
       }
@@ -187,27 +303,18 @@ export class UserService {
     }
   }
 
-
-  private extractCloudinaryPublicId(imageUrl?: string | null): string | null {
-    if (!imageUrl || !imageUrl.includes('cloudinary')) return null;
-
-    const parts = imageUrl.split('/');
-    const filename = parts[parts.length - 1];
-    const publicId = filename.split('.')[0];
-    const folder = parts[parts.length - 2];
-
-    return `${folder}/${publicId}`;
+  /**
+   * Schedules the account for deletion. Users are never hard deleted, since
+   * their submissions, grades and authored content must stay linked; the
+   * account is anonymized once the grace period is over.
+   */
+  async remove(id: string) {
+    return this.accountDeletionService.scheduleDeletion(id);
   }
 
-  async remove(id: string) {
-    try {
-      await this.dbService.user.delete({ where: { id } });
-      return { message: `User with ID ${id} has been removed successfully.` };
-    } catch (error) {
-      if (error.code === 'P2025') {
-        throw new NotFoundException(`User with ID ${id} not found`);
-      }
-      throw new InternalServerErrorException('Failed to delete user', error?.message);
-    }
+  // The token maps SCHOOL_ADMIN to ADMIN, so the role is read from the database
+  private async isPlatformAdmin(userId: string): Promise<boolean> {
+    const user = await this.dbService.user.findUnique({ where: { id: userId }, select: { role: true } });
+    return user?.role === 'ADMIN';
   }
 }
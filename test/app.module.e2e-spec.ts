@@ -0,0 +1,22 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AppModule } from './../src/app.module';
+
+// Compiles the whole application, which unit specs with mocked providers cannot catch
+describe('AppModule', () => {
+  // Secrets the strategies refuse to start without
+  beforeAll(() => {
+    process.env.SECRET_KEY ??= 'test-secret';
+    process.env.GOOGLE_CLIENT_ID ??= 'test-client';
+    process.env.GOOGLE_SECRET ??= 'test-secret';
+    process.env.GOOGLE_CALLBACK_URL ??= 'http://localhost/auth/google/callback';
+  });
+
+  it('resolves the dependencies of every provider', async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    expect(moduleFixture.get(AppModule)).toBeDefined();
+    await moduleFixture.close();
+  });
+});